@@ -1,10 +1,18 @@
+import { useState } from "react";
 import { ThemeProvider } from "./components/theme-provider";
 import { WeekendView } from "./components/WeekendView";
+import { WeekendCalendar } from "./components/WeekendCalendar";
 
 function App() {
+  const [view, setView] = useState<"plan" | "calendar">("plan");
+
   return (
     <ThemeProvider defaultTheme="dark" storageKey="weekendly-ui-theme">
-      <WeekendView />
+      {view === "plan" ? (
+        <WeekendView onOpenCalendar={() => setView("calendar")} />
+      ) : (
+        <WeekendCalendar onBack={() => setView("plan")} />
+      )}
     </ThemeProvider>
   );
 }
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -19,6 +19,7 @@ import {
 } from "lucide-react";
 import confetti from "canvas-confetti";
 import { imageGenerationService } from "../services/imageGenerationService";
+import { DAY_LABELS } from "../lib/weekendDays";
 import type { WeekendSchedule, WeekendDay } from "../types";
 import type { ImageGenerationOptions } from "../services/imageGenerationService";
 
@@ -90,6 +91,7 @@ export const ShareModal: React.FC<ShareModalProps> = ({
   weekend,
   activeDay,
 }) => {
+  const [selectedDay, setSelectedDay] = useState<WeekendDay>(activeDay);
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([]);
   const [selectedStyle, setSelectedStyle] =
@@ -100,6 +102,11 @@ export const ShareModal: React.FC<ShareModalProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [copiedImageId, setCopiedImageId] = useState<number | null>(null);
 
+  // Start from the day being viewed each time the modal opens
+  useEffect(() => {
+    if (isOpen) setSelectedDay(activeDay);
+  }, [isOpen, activeDay]);
+
   const formats = [
     {
       value: "square" as const,
@@ -115,7 +122,7 @@ export const ShareModal: React.FC<ShareModalProps> = ({
   ];
 
   const handleGenerateImage = async () => {
-    if (!weekend || weekend[activeDay].length === 0) {
+    if (!weekend || weekend[selectedDay].length === 0) {
       setError("No activities scheduled for this day");
       return;
     }
@@ -132,7 +139,7 @@ export const ShareModal: React.FC<ShareModalProps> = ({
 
       const result = await imageGenerationService.generateScheduleImage(
         weekend,
-        activeDay,
+        selectedDay,
         options
       );
 
@@ -162,7 +169,7 @@ export const ShareModal: React.FC<ShareModalProps> = ({
 
   const handleDownloadImage = async (imageData: string, style: string) => {
     try {
-      const filename = `weekendly-${activeDay}-${style}-${Date.now()}.png`;
+      const filename = `weekendly-${selectedDay}-${style}-${Date.now()}.png`;
       await imageGenerationService.saveImage(imageData, filename);
     } catch (err) {
       console.error("Failed to download image:", err);
@@ -196,7 +203,7 @@ export const ShareModal: React.FC<ShareModalProps> = ({
     }
   };
 
-  const dayActivities = weekend[activeDay];
+  const dayActivities = weekend[selectedDay];
 
   if (!isOpen) return null;
 
@@ -219,7 +226,7 @@ export const ShareModal: React.FC<ShareModalProps> = ({
                     Share Schedule
                   </CardTitle>
                   <p className="text-xs text-muted-foreground mt-1">
-                    Generate a {activeDay} image
+                    Generate a {selectedDay} image
                   </p>
                 </div>
                 <Button
@@ -233,12 +240,32 @@ export const ShareModal: React.FC<ShareModalProps> = ({
               </div>
             </CardHeader>
             <CardContent className="space-y-4">
+              {/* Day Selection */}
+              {weekend.days.length > 1 && (
+                <div className="flex gap-1">
+                  {weekend.days.map((day) => (
+                    <Button
+                      key={day}
+                      variant={selectedDay === day ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setSelectedDay(day)}
+                      className="flex-1 text-xs"
+                    >
+                      {DAY_LABELS[day]}
+                      <Badge variant="secondary" className="ml-1 text-[10px]">
+                        {weekend[day].length}
+                      </Badge>
+                    </Button>
+                  ))}
+                </div>
+              )}
+
               {dayActivities.length === 0 ? (
                 <div className="text-center py-8">
                   <ImageIcon className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
                   <p className="text-muted-foreground">
-                    Add some activities to your {activeDay} schedule to generate
-                    a shareable image!
+                    Add some activities to your {selectedDay} schedule to
+                    generate a shareable image!
                   </p>
                 </div>
               ) : (
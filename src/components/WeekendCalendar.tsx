@@ -0,0 +1,327 @@
+import React, { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Calendar,
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  Copy,
+  Pencil,
+  Plus,
+  Sparkles,
+  Trash2,
+} from "lucide-react";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { useScheduleStore } from "@/stores/scheduleStore";
+import {
+  formatDateKey,
+  getUpcomingWeekendDate,
+  getWeekendSaturday,
+  parseDateKey,
+} from "@/lib/timeUtils";
+import {
+  formatWeekendDates,
+  getWeekendActivities,
+  isWeekendPast,
+} from "@/lib/weekendDays";
+import { calculateWeekendVibeScore } from "@/lib/vibeScore";
+import type { WeekendSchedule } from "@/types";
+
+interface WeekendCalendarProps {
+  onBack: () => void;
+}
+
+// Keys of every Saturday in the month, in order
+const getMonthSaturdays = (month: Date): string[] => {
+  const saturdays: string[] = [];
+  const saturday = getWeekendSaturday(
+    new Date(month.getFullYear(), month.getMonth(), 1)
+  );
+  if (saturday.getMonth() !== month.getMonth()) {
+    saturday.setDate(saturday.getDate() + 7);
+  }
+  while (saturday.getMonth() === month.getMonth()) {
+    saturdays.push(formatDateKey(saturday));
+    saturday.setDate(saturday.getDate() + 7);
+  }
+  return saturdays;
+};
+
+export const WeekendCalendar: React.FC<WeekendCalendarProps> = ({ onBack }) => {
+  const {
+    currentWeekend,
+    savedWeekends,
+    savedWeekendsLoading,
+    savedWeekendsError,
+    error,
+    loadSavedWeekends,
+    loadWeekend,
+    createNewWeekend,
+    duplicateWeekend,
+    renameWeekend,
+    deleteWeekend,
+  } = useScheduleStore();
+
+  const [month, setMonth] = useState(() => {
+    const date = currentWeekend
+      ? parseDateKey(currentWeekend.startDate)
+      : getUpcomingWeekendDate("saturday");
+    return new Date(date.getFullYear(), date.getMonth(), 1);
+  });
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSavedWeekends();
+  }, [loadSavedWeekends]);
+
+  const changeMonth = (delta: number) => {
+    setMonth(new Date(month.getFullYear(), month.getMonth() + delta, 1));
+  };
+
+  const handleOpen = async (weekendId: string) => {
+    await loadWeekend(weekendId);
+    onBack();
+  };
+
+  const handlePlan = (startDate: string) => {
+    createNewWeekend("My Weekend Plan", undefined, startDate);
+    onBack();
+  };
+
+  const startRename = (weekend: WeekendSchedule) => {
+    setRenamingId(weekend.id);
+    setRenameValue(weekend.title);
+  };
+
+  const handleRenameSave = () => {
+    if (renamingId && renameValue.trim()) {
+      renameWeekend(renamingId, renameValue.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const handleRenameKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") handleRenameSave();
+    else if (e.key === "Escape") setRenamingId(null);
+  };
+
+  const handleDelete = (weekendId: string) => {
+    if (pendingDeleteId === weekendId) {
+      deleteWeekend(weekendId);
+      setPendingDeleteId(null);
+    } else {
+      setPendingDeleteId(weekendId);
+    }
+  };
+
+  const saturdays = getMonthSaturdays(month);
+  const monthLabel = month.toLocaleDateString(undefined, {
+    month: "long",
+    year: "numeric",
+  });
+
+  const renderWeekendCard = (weekend: WeekendSchedule) => {
+    const activityCount = getWeekendActivities(weekend).length;
+    const vibeScore = calculateWeekendVibeScore(weekend);
+    const isCurrent = currentWeekend?.id === weekend.id;
+    const isPast = isWeekendPast(weekend);
+
+    return (
+      <motion.div
+        key={weekend.id}
+        layout
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, x: 10 }}
+        className={`p-4 rounded-xl border bg-background/60 ${
+          isCurrent ? "ring-2 ring-primary border-primary" : ""
+        } ${isPast ? "opacity-75" : ""}`}
+      >
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex-1 min-w-0">
+            {renamingId === weekend.id ? (
+              <Input
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                onBlur={handleRenameSave}
+                onKeyDown={handleRenameKeyPress}
+                className="h-8 font-semibold"
+                autoFocus
+              />
+            ) : (
+              <h3
+                className="font-semibold truncate cursor-pointer hover:text-primary transition-colors"
+                onClick={() => handleOpen(weekend.id)}
+              >
+                {weekend.title}
+              </h3>
+            )}
+            <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-muted-foreground">
+              <span>{formatWeekendDates(weekend)}</span>
+              <Badge variant="outline" className="text-xs">
+                {activityCount}{" "}
+                {activityCount === 1 ? "activity" : "activities"}
+              </Badge>
+              {activityCount > 0 && (
+                <Badge variant="secondary" className="text-xs">
+                  <Sparkles className="w-3 h-3 mr-1" />
+                  {vibeScore}/100
+                </Badge>
+              )}
+              {isCurrent && <Badge className="text-xs">Open</Badge>}
+              {isPast && <span>Past</span>}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              title="Rename"
+              onClick={() => startRename(weekend)}
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              title="Duplicate"
+              onClick={() => duplicateWeekend(weekend.id)}
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+            <Button
+              variant={pendingDeleteId === weekend.id ? "destructive" : "ghost"}
+              size="sm"
+              className={
+                pendingDeleteId === weekend.id
+                  ? "h-8 px-2 text-xs"
+                  : "h-8 w-8 p-0"
+              }
+              title="Delete"
+              onClick={() => handleDelete(weekend.id)}
+              onBlur={() => setPendingDeleteId(null)}
+            >
+              {pendingDeleteId === weekend.id ? (
+                "Delete?"
+              ) : (
+                <Trash2 className="w-4 h-4" />
+              )}
+            </Button>
+            <Button size="sm" onClick={() => handleOpen(weekend.id)}>
+              Open
+            </Button>
+          </div>
+        </div>
+      </motion.div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 via-amber-50 to-yellow-50 dark:from-blue-950 dark:via-slate-900 dark:to-black">
+      <header className="border-b bg-background/80 dark:bg-background/80 backdrop-blur-lg sticky top-0 z-50 shadow-sm">
+        <div className="container mx-auto px-4 py-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onBack}
+                className="p-2"
+                title="Back to plan"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <div>
+                <h1 className="text-lg font-bold bg-gradient-to-r from-orange-600 to-amber-500 bg-clip-text text-transparent dark:from-orange-400 dark:to-amber-300">
+                  Your Weekends
+                </h1>
+                <p className="text-xs text-muted-foreground hidden md:block">
+                  {savedWeekends.length} saved{" "}
+                  {savedWeekends.length === 1 ? "plan" : "plans"}
+                </p>
+              </div>
+            </div>
+            <ThemeToggle />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 max-w-3xl space-y-6">
+        <div className="flex items-center justify-between">
+          <Button variant="outline" size="sm" onClick={() => changeMonth(-1)}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <CalendarDays className="w-5 h-5" />
+            {monthLabel}
+          </h2>
+          <Button variant="outline" size="sm" onClick={() => changeMonth(1)}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {(savedWeekendsError || error) && (
+          <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-lg">
+            {savedWeekendsError || error}
+          </div>
+        )}
+
+        {savedWeekendsLoading && savedWeekends.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            Loading your weekends...
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {saturdays.map((saturday) => {
+              const weekends = savedWeekends.filter(
+                (w) => w.startDate === saturday
+              );
+              const label = parseDateKey(saturday).toLocaleDateString(
+                undefined,
+                { weekday: "short", month: "short", day: "numeric" }
+              );
+
+              return (
+                <Card
+                  key={saturday}
+                  className="bg-card/60 backdrop-blur-sm border-0 shadow-xl"
+                >
+                  <CardContent className="p-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-sm font-medium flex items-center gap-2 text-muted-foreground">
+                        <Calendar className="w-4 h-4" />
+                        Weekend of {label}
+                      </h3>
+                      {weekends.length === 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handlePlan(saturday)}
+                        >
+                          <Plus className="w-4 h-4 mr-1" />
+                          Plan this weekend
+                        </Button>
+                      )}
+                    </div>
+                    <AnimatePresence mode="popLayout">
+                      {weekends.map(renderWeekendCard)}
+                    </AnimatePresence>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   DndContext,
   closestCenter,
@@ -22,9 +22,18 @@ import {
   ChevronLeft,
   ChevronRight,
   Cloud,
+  Undo2,
+  Redo2,
+  CalendarPlus,
+  CalendarDays,
+  LayoutTemplate,
+  Palette,
+  Wand2,
+  Users,
 } from "lucide-react";
 import { ScheduleGrid } from "@/components/schedule/ScheduleGrid";
 import { ScheduleSummary } from "@/components/schedule/ScheduleSummary";
+import { ConflictList } from "@/components/schedule/ConflictList";
 import { ShareModal } from "@/components/ShareModal";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { DragOverlay as CustomDragOverlay } from "@/components/dnd/DragOverlay";
@@ -33,35 +42,57 @@ import { MobileActivityBrowser } from "@/components/activities/MobileActivityBro
 import { MobileWeatherBrowser } from "@/components/weather/MobileWeatherBrowser";
 import { TimeSlotSelector } from "@/components/ui/TimeSlotSelector";
 import { TimePeriodEditor } from "@/components/ui/TimePeriodEditor";
+import { ActivityLocationEditor } from "@/components/ui/ActivityLocationEditor";
+import { NewWeekendDialog } from "@/components/ui/NewWeekendDialog";
+import { SaveTemplateDialog } from "@/components/ui/SaveTemplateDialog";
+import { ApplyThemeDialog } from "@/components/ui/ApplyThemeDialog";
+import { AutoPlanDialog } from "@/components/ui/AutoPlanDialog";
+import { ThemeBuilderDialog } from "@/components/ui/ThemeBuilderDialog";
+import { CustomActivityDialog } from "@/components/ui/CustomActivityDialog";
+import { CategoryManagerDialog } from "@/components/ui/CategoryManagerDialog";
+import { ParticipantsDialog } from "@/components/ui/ParticipantsDialog";
+import { ActivityParticipantsEditor } from "@/components/ui/ActivityParticipantsEditor";
 import { WeatherSidebar } from "@/components/WeatherSidebar";
 import { useActivityStore } from "@/stores/activityStore";
 import { useScheduleStore } from "@/stores/scheduleStore";
 import { useUserStore } from "@/stores/userStore";
+import { useWeatherStore } from "@/stores/weatherStore";
+import {
+  DAY_LABELS,
+  DEFAULT_WEEKEND_DAYS,
+  OPTIONAL_WEEKEND_DAYS,
+  formatWeekendDates,
+  getRecentActivityIds,
+  getWeekendActivities,
+  isWeekendPast,
+} from "@/lib/weekendDays";
+import { scheduleWeekendReminder } from "@/lib/reminders";
+import { requestNotificationPermission } from "@/lib/serviceWorker";
+import { orderThemesByPreference } from "@/lib/themePlanner";
+import { getDayTimePeriods } from "@/lib/timePeriods";
+import { getParticipantSchedule } from "@/lib/participants";
 import type {
   Activity,
   TimeSlot,
-  FilterState,
   WeekendDay,
   TimePeriod,
+  ScheduledActivity,
+  WeekendSchedule,
+  WeekendTheme,
 } from "@/types";
 
-export const WeekendView: React.FC = () => {
+interface WeekendViewProps {
+  onOpenCalendar?: () => void;
+}
+
+export const WeekendView: React.FC<WeekendViewProps> = ({ onOpenCalendar }) => {
   const [weekendTitle, setWeekendTitle] = useState("");
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [activeActivity, setActiveActivity] = useState<Activity | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isWeatherSidebarOpen, setIsWeatherSidebarOpen] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [filters, setFilters] = useState<FilterState>({
-    categories: [],
-    moods: [],
-    energyLevels: [],
-    duration: { min: 0, max: 480 },
-    weatherDependent: undefined,
-    tags: [],
-  });
-  const [activeDay, setActiveDay] = useState<"saturday" | "sunday">("saturday");
+  const [activeDay, setActiveDay] = useState<WeekendDay>("saturday");
   const [selectedActivityForMobile, setSelectedActivityForMobile] =
     useState<Activity | null>(null);
   const [showTimeSlotSelector, setShowTimeSlotSelector] = useState(false);
@@ -70,14 +101,41 @@ export const WeekendView: React.FC = () => {
   const [showMobileWeatherBrowser, setShowMobileWeatherBrowser] =
     useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [locationEditorActivity, setLocationEditorActivity] =
+    useState<ScheduledActivity | null>(null);
+  const [participantsEditorActivity, setParticipantsEditorActivity] =
+    useState<ScheduledActivity | null>(null);
+  const [showParticipantsDialog, setShowParticipantsDialog] = useState(false);
+  // Person whose schedule is shown, null for everyone's
+  const [viewParticipantId, setViewParticipantId] = useState<string | null>(
+    null
+  );
+  const [showNewWeekendDialog, setShowNewWeekendDialog] = useState(false);
+  const [showSaveTemplateDialog, setShowSaveTemplateDialog] = useState(false);
+  const [showApplyThemeDialog, setShowApplyThemeDialog] = useState(false);
+  const [showAutoPlanDialog, setShowAutoPlanDialog] = useState(false);
+  const [themeBuilder, setThemeBuilder] = useState<{
+    isOpen: boolean;
+    theme: WeekendTheme | null;
+  }>({ isOpen: false, theme: null });
+  const [activityEditor, setActivityEditor] = useState<{
+    isOpen: boolean;
+    activity: Activity | null;
+  }>({ isOpen: false, activity: null });
+  const [showCategoryManager, setShowCategoryManager] = useState(false);
+  const [isEditingDate, setIsEditingDate] = useState(false);
+  const [allowPastEdits, setAllowPastEdits] = useState(false);
   const [timePeriodEditor, setTimePeriodEditor] = useState<{
     isOpen: boolean;
+    day: WeekendDay | null;
     period: TimePeriod | null;
     label: string;
     currentStartTime: string;
     currentEndTime: string;
   }>({
     isOpen: false,
+    day: null,
     period: null,
     label: "",
     currentStartTime: "",
@@ -112,6 +170,23 @@ export const WeekendView: React.FC = () => {
     error: activitiesError,
     loadActivities,
     loadCategories,
+    saveCustomActivity,
+    deleteCustomActivity,
+    addCategory,
+    updateCategory,
+    reorderCategories,
+    mergeCategories,
+    filters,
+    searchTerm,
+    setFilters,
+    setSearchTerm,
+    filterPresets,
+    loadFilterPresets,
+    saveFilterPreset,
+    applyFilterPreset,
+    deleteFilterPreset,
+    exportFilterPreset,
+    importFilterPreset,
   } = useActivityStore();
 
   const {
@@ -119,21 +194,137 @@ export const WeekendView: React.FC = () => {
     conflicts,
     loading: scheduleLoading,
     error: scheduleError,
+    templates,
     createNewWeekend,
+    createWeekendFromTemplate,
+    loadTemplates,
+    saveAsTemplate,
+    deleteTemplate,
+    applyTheme,
+    autoPlanWeekend,
     addActivity,
     removeActivity,
+    moveActivity,
     updateWeekendTitle,
+    updateWeekendStartDate,
+    setWeekendBudget,
+    setWeekendGroupSize,
+    addParticipant,
+    removeParticipant,
+    setActivityParticipants,
+    setWeekendDays,
     reorderActivities,
+    updateActivityTime,
+    updateActivityLocation,
+    resolveConflict,
     initializeWeekends,
+    past,
+    future,
+    undo,
+    redo,
+    applyTimePeriods,
+    savedWeekends,
+    loadSavedWeekends,
   } = useScheduleStore();
 
-  const { preferences, updateTimePeriod } = useUserStore();
+  const {
+    preferences,
+    availableThemes,
+    updateTimePeriod,
+    resetDayTimePeriods,
+    loadPreferences,
+    loadAvailableThemes,
+    togglePreferredTheme,
+    saveCustomTheme,
+    deleteCustomTheme,
+    toggleFavoriteActivity,
+  } = useUserStore();
+  const { weatherData } = useWeatherStore();
 
   useEffect(() => {
     loadActivities();
     loadCategories();
     initializeWeekends();
-  }, [loadActivities, loadCategories, initializeWeekends]);
+    loadTemplates();
+    loadAvailableThemes();
+    loadPreferences();
+    loadSavedWeekends();
+    loadFilterPresets();
+  }, [
+    loadActivities,
+    loadCategories,
+    initializeWeekends,
+    loadTemplates,
+    loadAvailableThemes,
+    loadPreferences,
+    loadSavedWeekends,
+    loadFilterPresets,
+  ]);
+
+  const handleSharePreset = (presetId: string) => {
+    const data = exportFilterPreset(presetId);
+    if (!data) return;
+    // Fall back to showing the text where the clipboard is unavailable
+    if (navigator.clipboard) {
+      navigator.clipboard.writeText(data).catch(console.error);
+    } else {
+      window.prompt("Copy these filters to share them", data);
+    }
+  };
+
+  // Recency comes from what was actually planned, newest weekend first
+  const recentActivityIds = useMemo(
+    () =>
+      getRecentActivityIds(
+        currentWeekend
+          ? [
+              currentWeekend,
+              ...savedWeekends.filter((w) => w.id !== currentWeekend.id),
+            ]
+          : savedWeekends
+      ),
+    [currentWeekend, savedWeekends]
+  );
+
+  // Keep slots and planned times in step with the user's time periods
+  const currentWeekendId = currentWeekend?.id;
+  useEffect(() => {
+    applyTimePeriods();
+  }, [
+    preferences.timePeriods,
+    preferences.dayTimePeriods,
+    currentWeekendId,
+    applyTimePeriods,
+  ]);
+
+  // Weekends that are over are view only unless editing is asked for
+  const isPastWeekend = currentWeekend ? isWeekendPast(currentWeekend) : false;
+  const isReadOnly = isPastWeekend && !allowPastEdits;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+      if (isReadOnly) return;
+
+      // Leave text fields to their own native undo
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.tagName === "INPUT" ||
+          target.tagName === "TEXTAREA" ||
+          target.isContentEditable)
+      ) {
+        return;
+      }
+
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo, isReadOnly]);
 
   useEffect(() => {
     if (currentWeekend && weekendTitle !== currentWeekend.title) {
@@ -141,6 +332,56 @@ export const WeekendView: React.FC = () => {
     }
   }, [currentWeekend, weekendTitle]);
 
+  // Narrow the schedule down to one person's when a name is picked
+  const participants = currentWeekend?.participants ?? [];
+  const viewedParticipant = participants.find(
+    (p) => p.id === viewParticipantId
+  );
+  const getDisplayedWeekend = (weekend: WeekendSchedule) =>
+    viewedParticipant
+      ? getParticipantSchedule(weekend, viewedParticipant.id)
+      : weekend;
+
+  useEffect(() => {
+    setAllowPastEdits(false);
+  }, [currentWeekend?.id]);
+
+  useEffect(() => {
+    if (!currentWeekend || !preferences.notifications.reminders) return;
+    return scheduleWeekendReminder(currentWeekend);
+  }, [currentWeekend, preferences.notifications.reminders]);
+
+  const handleCreateWeekend = (
+    title: string,
+    days: WeekendDay[],
+    startDate: string,
+    templateId?: string
+  ) => {
+    if (templateId) {
+      createWeekendFromTemplate(templateId, title, startDate);
+    } else {
+      createNewWeekend(title, days, startDate);
+    }
+    if (preferences.notifications.reminders) {
+      requestNotificationPermission().catch(console.error);
+    }
+  };
+
+  // Fall back to the first day when the active one is dropped from the weekend
+  useEffect(() => {
+    if (currentWeekend && !currentWeekend.days.includes(activeDay)) {
+      setActiveDay(currentWeekend.days[0]);
+    }
+  }, [currentWeekend, activeDay]);
+
+  const handleToggleDay = (day: WeekendDay) => {
+    if (!currentWeekend) return;
+    const { days } = currentWeekend;
+    setWeekendDays(
+      days.includes(day) ? days.filter((d) => d !== day) : [...days, day]
+    );
+  };
+
   const handleActivityAdd = (activity: Activity, timeSlot: TimeSlot) => {
     addActivity(activity, timeSlot);
   };
@@ -150,6 +391,7 @@ export const WeekendView: React.FC = () => {
   };
 
   const handleMobileActivitySelect = (activity: Activity) => {
+    if (isReadOnly) return;
     setSelectedActivityForMobile(activity);
     setShowTimeSlotSelector(true);
   };
@@ -157,7 +399,7 @@ export const WeekendView: React.FC = () => {
   const handleTimeSlotSelect = (day: WeekendDay, period: TimePeriod) => {
     if (selectedActivityForMobile) {
       const { preferences } = useUserStore.getState();
-      const timePeriodSettings = preferences.timePeriods[period];
+      const timePeriodSettings = getDayTimePeriods(preferences, day)[period];
       const timeSlot: TimeSlot = {
         id: `${day}-${period}`,
         day,
@@ -191,11 +433,15 @@ export const WeekendView: React.FC = () => {
     }
   };
 
-  const handleTimeEdit = (period: TimePeriod, label: string) => {
-    const currentTimePeriod =
-      preferences.timePeriods[period as keyof typeof preferences.timePeriods];
+  const handleTimeEdit = (
+    day: WeekendDay,
+    period: TimePeriod,
+    label: string
+  ) => {
+    const currentTimePeriod = getDayTimePeriods(preferences, day)[period];
     setTimePeriodEditor({
       isOpen: true,
+      day,
       period,
       label,
       currentStartTime: currentTimePeriod.start,
@@ -206,11 +452,13 @@ export const WeekendView: React.FC = () => {
   const handleTimePeriodSave = (
     period: TimePeriod,
     startTime: string,
-    endTime: string
+    endTime: string,
+    day?: WeekendDay
   ) => {
-    updateTimePeriod(period, startTime, endTime);
+    updateTimePeriod(period, startTime, endTime, day);
     setTimePeriodEditor({
       isOpen: false,
+      day: null,
       period: null,
       label: "",
       currentStartTime: "",
@@ -221,6 +469,7 @@ export const WeekendView: React.FC = () => {
   const handleTimePeriodClose = () => {
     setTimePeriodEditor({
       isOpen: false,
+      day: null,
       period: null,
       label: "",
       currentStartTime: "",
@@ -229,16 +478,14 @@ export const WeekendView: React.FC = () => {
   };
 
   const getTotalActivities = () =>
-    currentWeekend
-      ? currentWeekend.saturday.length + currentWeekend.sunday.length
-      : 0;
+    currentWeekend ? getWeekendActivities(currentWeekend).length : 0;
 
   const getTotalDuration = () => {
     if (!currentWeekend) return 0;
-    const totalMinutes = [
-      ...currentWeekend.saturday,
-      ...currentWeekend.sunday,
-    ].reduce((total, sa) => total + sa.activity.duration, 0);
+    const totalMinutes = getWeekendActivities(currentWeekend).reduce(
+      (total, sa) => total + sa.activity.duration,
+      0
+    );
     return totalMinutes;
   };
 
@@ -262,7 +509,7 @@ export const WeekendView: React.FC = () => {
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
     setActiveActivity(null);
-    if (!over || !currentWeekend) return;
+    if (!over || !currentWeekend || isReadOnly) return;
     const activeData = active.data.current;
     const overData = over.data.current;
 
@@ -275,8 +522,7 @@ export const WeekendView: React.FC = () => {
           overScheduledActivity.timeSlot.id
       ) {
         const { day, period } = activeScheduledActivity.timeSlot;
-        const dayActivities =
-          day === "saturday" ? currentWeekend.saturday : currentWeekend.sunday;
+        const dayActivities = currentWeekend[day as WeekendDay];
         const periodActivities = dayActivities.filter(
           (sa: any) => sa.timeSlot.period === period
         );
@@ -307,8 +553,10 @@ export const WeekendView: React.FC = () => {
     if (overData?.type === "timeSlot") {
       const { day, period } = overData;
       const { preferences } = useUserStore.getState();
-      const timePeriodSettings =
-        preferences.timePeriods[period as keyof typeof preferences.timePeriods];
+      const timePeriodSettings = getDayTimePeriods(
+        preferences,
+        day as WeekendDay
+      )[period as TimePeriod];
       const timeSlot: TimeSlot = {
         id: `${day}-${period}`,
         day,
@@ -317,7 +565,8 @@ export const WeekendView: React.FC = () => {
         period,
       };
       if (activeData.type === "scheduledActivity") {
-        handleActivityRemove(activeData.scheduledActivity.id);
+        moveActivity(activeData.scheduledActivity.id, timeSlot);
+        return;
       }
       handleActivityAdd(activity, timeSlot);
     }
@@ -378,6 +627,86 @@ export const WeekendView: React.FC = () => {
               </div>
 
               <div className="flex items-center gap-2">
+                {onOpenCalendar && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={onOpenCalendar}
+                    className="p-2"
+                    title="All weekends"
+                  >
+                    <CalendarDays className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowNewWeekendDialog(true)}
+                  className="p-2"
+                  title="New weekend"
+                >
+                  <CalendarPlus className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowSaveTemplateDialog(true)}
+                  disabled={!currentWeekend || getTotalActivities() === 0}
+                  className="p-2"
+                  title="Save as template"
+                >
+                  <LayoutTemplate className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowApplyThemeDialog(true)}
+                  disabled={!currentWeekend || isReadOnly}
+                  className="p-2"
+                  title="Apply theme"
+                >
+                  <Palette className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowParticipantsDialog(true)}
+                  disabled={!currentWeekend || isReadOnly}
+                  className="p-2"
+                  title="Who's going"
+                >
+                  <Users className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowAutoPlanDialog(true)}
+                  disabled={!currentWeekend || isReadOnly}
+                  className="p-2"
+                  title="Plan my weekend for me"
+                >
+                  <Wand2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={undo}
+                  disabled={past.length === 0 || isReadOnly}
+                  className="p-2"
+                  title="Undo (Ctrl+Z)"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={redo}
+                  disabled={future.length === 0 || isReadOnly}
+                  className="p-2"
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  <Redo2 className="w-4 h-4" />
+                </Button>
                 {isMobile && (
                   <>
                     <Button
@@ -403,9 +732,7 @@ export const WeekendView: React.FC = () => {
                   size="sm"
                   className="hidden md:flex"
                   onClick={() => setShowShareModal(true)}
-                  disabled={
-                    !currentWeekend || currentWeekend[activeDay].length === 0
-                  }
+                  disabled={!currentWeekend || getTotalActivities() === 0}
                 >
                   <Share className="w-4 h-4 mr-1" />
                   Share
@@ -454,11 +781,57 @@ export const WeekendView: React.FC = () => {
                   </h2>
                   {currentWeekend && (
                     <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                      {isEditingDate && !isReadOnly ? (
+                        <Input
+                          type="date"
+                          defaultValue={currentWeekend.startDate}
+                          onChange={(e) => {
+                            if (e.target.value) {
+                              updateWeekendStartDate(e.target.value);
+                              setIsEditingDate(false);
+                            }
+                          }}
+                          onBlur={() => setIsEditingDate(false)}
+                          className="h-8 w-40"
+                          autoFocus
+                        />
+                      ) : (
+                        <button
+                          className="flex items-center gap-1 hover:text-primary transition-colors disabled:hover:text-muted-foreground disabled:cursor-default"
+                          onClick={() => setIsEditingDate(true)}
+                          disabled={isReadOnly}
+                          title={isReadOnly ? undefined : "Change date"}
+                        >
+                          <Calendar className="w-4 h-4" />
+                          {formatWeekendDates(currentWeekend)}
+                        </button>
+                      )}
+                      {currentWeekend.theme && (
+                        <>
+                          <div className="w-1.5 h-1.5 bg-muted-foreground rounded-full" />
+                          <Badge
+                            variant="outline"
+                            className="text-xs"
+                            style={{
+                              borderColor: currentWeekend.theme.color,
+                              color: currentWeekend.theme.color,
+                            }}
+                          >
+                            {currentWeekend.theme.name}
+                          </Badge>
+                        </>
+                      )}
+                      <div className="w-1.5 h-1.5 bg-muted-foreground rounded-full" />
                       <span>{getTotalActivities()} activities</span>
                       <div className="w-1.5 h-1.5 bg-muted-foreground rounded-full" />
                       <span>{formatDuration(getTotalDuration())}</span>
                       {conflicts.length > 0 && (
-                        <Badge variant="destructive" className="text-xs">
+                        <Badge
+                          variant="destructive"
+                          className="text-xs cursor-pointer"
+                          onClick={() => setShowConflicts(!showConflicts)}
+                          title="Show conflicts"
+                        >
                           {conflicts.length} conflict
                           {conflicts.length > 1 ? "s" : ""}
                         </Badge>
@@ -523,6 +896,24 @@ export const WeekendView: React.FC = () => {
                 onFilterChange={setFilters}
                 onSearchChange={setSearchTerm}
                 onActivitySelect={handleMobileActivitySelect}
+                onCreateActivity={() =>
+                  setActivityEditor({ isOpen: true, activity: null })
+                }
+                onEditActivity={(activity) =>
+                  setActivityEditor({ isOpen: true, activity })
+                }
+                onManageCategories={() => setShowCategoryManager(true)}
+                favoriteActivityIds={preferences.favoriteActivities}
+                recentActivityIds={recentActivityIds}
+                onToggleFavorite={(activity) =>
+                  toggleFavoriteActivity(activity.id)
+                }
+                filterPresets={filterPresets}
+                onSavePreset={saveFilterPreset}
+                onApplyPreset={applyFilterPreset}
+                onDeletePreset={deleteFilterPreset}
+                onSharePreset={handleSharePreset}
+                onImportPreset={importFilterPreset}
               />
             </div>
           </Sidebar>
@@ -541,52 +932,138 @@ export const WeekendView: React.FC = () => {
             >
               {currentWeekend ? (
                 <div className="space-y-6">
-                  <div className="flex items-center justify-center">
-                    <div className="flex bg-card/80 dark:bg-card/80 backdrop-blur-sm rounded-xl p-1 shadow-lg w-full max-w-sm">
+                  {showConflicts && (
+                    <ConflictList
+                      conflicts={conflicts}
+                      onDismiss={resolveConflict}
+                      onClose={() => setShowConflicts(false)}
+                    />
+                  )}
+                  {isPastWeekend && (
+                    <div className="flex items-center justify-center gap-3 text-sm text-muted-foreground">
+                      <span>
+                        This weekend is over
+                        {isReadOnly ? ", so it is view only." : "."}
+                      </span>
                       <Button
-                        onClick={() => setActiveDay("saturday")}
-                        className={`flex-1 transition-all text-base ${
-                          activeDay === "saturday"
-                            ? "bg-primary text-primary-foreground shadow-md hover:bg-primary/90"
-                            : "bg-transparent hover:bg-accent text-foreground"
-                        }`}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setAllowPastEdits(!allowPastEdits)}
                       >
-                        Saturday
-                        <Badge
-                          variant="secondary"
-                          className="ml-2 bg-background/50 text-current text-xs"
-                        >
-                          {currentWeekend.saturday.length}
-                        </Badge>
+                        {isReadOnly ? "Edit anyway" : "Done editing"}
                       </Button>
-                      <Button
-                        onClick={() => setActiveDay("sunday")}
-                        className={`flex-1 transition-all text-base ${
-                          activeDay === "sunday"
-                            ? "bg-primary text-primary-foreground shadow-md hover:bg-primary/90"
-                            : "bg-transparent hover:bg-accent text-foreground"
-                        }`}
-                      >
-                        Sunday
-                        <Badge
-                          variant="secondary"
-                          className="ml-2 bg-background/50 text-current text-xs"
+                    </div>
+                  )}
+                  <div className="flex flex-col items-center gap-2">
+                    <div className="flex bg-card/80 dark:bg-card/80 backdrop-blur-sm rounded-xl p-1 shadow-lg w-full max-w-xl">
+                      {currentWeekend.days.map((day) => (
+                        <Button
+                          key={day}
+                          onClick={() => setActiveDay(day)}
+                          className={`flex-1 transition-all text-base ${
+                            activeDay === day
+                              ? "bg-primary text-primary-foreground shadow-md hover:bg-primary/90"
+                              : "bg-transparent hover:bg-accent text-foreground"
+                          }`}
                         >
-                          {currentWeekend.sunday.length}
-                        </Badge>
-                      </Button>
+                          {DAY_LABELS[day]}
+                          <Badge
+                            variant="secondary"
+                            className="ml-2 bg-background/50 text-current text-xs"
+                          >
+                            {getDisplayedWeekend(currentWeekend)[day].length}
+                          </Badge>
+                        </Button>
+                      ))}
                     </div>
+                    {participants.length > 0 && (
+                      <div className="flex flex-wrap items-center justify-center gap-2 text-xs text-muted-foreground">
+                        <span>Showing:</span>
+                        <Button
+                          variant={viewedParticipant ? "ghost" : "secondary"}
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => setViewParticipantId(null)}
+                        >
+                          Everyone
+                        </Button>
+                        {participants.map((participant) => (
+                          <Button
+                            key={participant.id}
+                            variant={
+                              viewedParticipant?.id === participant.id
+                                ? "secondary"
+                                : "ghost"
+                            }
+                            size="sm"
+                            className="h-7 px-2 text-xs"
+                            onClick={() => setViewParticipantId(participant.id)}
+                          >
+                            {participant.name}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                    {!isReadOnly && (
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span>Long weekend:</span>
+                        {OPTIONAL_WEEKEND_DAYS.map((day) => {
+                          const included = currentWeekend.days.includes(day);
+                          return (
+                            <Button
+                              key={day}
+                              variant={included ? "secondary" : "ghost"}
+                              size="sm"
+                              className="h-7 px-2 text-xs"
+                              onClick={() => handleToggleDay(day)}
+                              title={
+                                included
+                                  ? `Remove ${DAY_LABELS[day]} from this weekend`
+                                  : `Add ${DAY_LABELS[day]} to this weekend`
+                              }
+                            >
+                              {included ? (
+                                <X className="w-3 h-3 mr-1" />
+                              ) : (
+                                <Plus className="w-3 h-3 mr-1" />
+                              )}
+                              {day === "friday" ? "Friday evening" : "Monday"}
+                            </Button>
+                          );
+                        })}
+                      </div>
+                    )}
                   </div>
                   <ScheduleGrid
-                    weekend={currentWeekend}
+                    weekend={getDisplayedWeekend(currentWeekend)}
                     onActivityRemove={handleActivityRemove}
+                    onActivityTimeChange={updateActivityTime}
                     onTimeEdit={handleTimeEdit}
-                    readOnly={false}
+                    onLocationEdit={setLocationEditorActivity}
+                    onParticipantsEdit={
+                      participants.length > 0
+                        ? setParticipantsEditorActivity
+                        : undefined
+                    }
+                    // One person's view is for reading; plan from everyone's
+                    readOnly={isReadOnly || !!viewedParticipant}
                     activeDay={activeDay}
                   />
                   <ScheduleSummary
                     weekend={currentWeekend}
                     activeDay={activeDay}
+                    // Locked like the grid above
+                    onBudgetChange={
+                      isReadOnly || viewedParticipant
+                        ? undefined
+                        : setWeekendBudget
+                    }
+                    onGroupSizeChange={
+                      isReadOnly || viewedParticipant
+                        ? undefined
+                        : setWeekendGroupSize
+                    }
+                    participantId={viewedParticipant?.id}
                   />
                 </div>
               ) : (
@@ -603,7 +1080,7 @@ export const WeekendView: React.FC = () => {
                       love.
                     </p>
                     <Button
-                      onClick={() => createNewWeekend("My Weekend Plan")}
+                      onClick={() => setShowNewWeekendDialog(true)}
                       size="lg"
                     >
                       <Plus className="w-5 h-5 mr-2" />
@@ -628,6 +1105,7 @@ export const WeekendView: React.FC = () => {
         {selectedActivityForMobile && (
           <TimeSlotSelector
             activity={selectedActivityForMobile}
+            days={currentWeekend?.days ?? DEFAULT_WEEKEND_DAYS}
             isOpen={showTimeSlotSelector}
             onClose={handleCloseTimeSlotSelector}
             onSelectTimeSlot={handleTimeSlotSelect}
@@ -646,6 +1124,18 @@ export const WeekendView: React.FC = () => {
             setShowMobileActivityBrowser(false);
             handleMobileActivitySelect(activity);
           }}
+          onCreateActivity={() =>
+            setActivityEditor({ isOpen: true, activity: null })
+          }
+          onEditActivity={(activity) =>
+            setActivityEditor({ isOpen: true, activity })
+          }
+          onManageCategories={() => setShowCategoryManager(true)}
+          favoriteActivityIds={preferences.favoriteActivities}
+          recentActivityIds={recentActivityIds}
+          onToggleFavorite={(activity) => toggleFavoriteActivity(activity.id)}
+          filterPresets={filterPresets}
+          onApplyPreset={applyFilterPreset}
           onClose={() => setShowMobileActivityBrowser(false)}
           isOpen={showMobileActivityBrowser}
         />
@@ -666,15 +1156,146 @@ export const WeekendView: React.FC = () => {
         )}
 
         {/* TimePeriodEditor - Rendered at top level for proper z-index */}
-        {timePeriodEditor.period && (
+        {timePeriodEditor.period && timePeriodEditor.day && (
           <TimePeriodEditor
             isOpen={timePeriodEditor.isOpen}
             onClose={handleTimePeriodClose}
+            day={timePeriodEditor.day}
             period={timePeriodEditor.period}
             label={timePeriodEditor.label}
             currentStartTime={timePeriodEditor.currentStartTime}
             currentEndTime={timePeriodEditor.currentEndTime}
+            settings={preferences}
             onSave={handleTimePeriodSave}
+            onResetDay={(day) => {
+              resetDayTimePeriods(day);
+              handleTimePeriodClose();
+            }}
+          />
+        )}
+
+        {/* ActivityLocationEditor - Rendered at top level for proper z-index */}
+        {locationEditorActivity && (
+          <ActivityLocationEditor
+            key={locationEditorActivity.id}
+            isOpen={!!locationEditorActivity}
+            onClose={() => setLocationEditorActivity(null)}
+            scheduledActivity={locationEditorActivity}
+            defaultTravelMode={preferences.travel.defaultMode}
+            onSave={updateActivityLocation}
+          />
+        )}
+
+        {/* ParticipantsDialog - Rendered at top level for proper z-index */}
+        {showParticipantsDialog && (
+          <ParticipantsDialog
+            isOpen={showParticipantsDialog}
+            onClose={() => setShowParticipantsDialog(false)}
+            participants={participants}
+            onAdd={addParticipant}
+            onRemove={removeParticipant}
+          />
+        )}
+
+        {/* ActivityParticipantsEditor - Rendered at top level for proper z-index */}
+        {participantsEditorActivity && (
+          <ActivityParticipantsEditor
+            key={participantsEditorActivity.id}
+            isOpen={!!participantsEditorActivity}
+            onClose={() => setParticipantsEditorActivity(null)}
+            scheduledActivity={participantsEditorActivity}
+            participants={participants}
+            onSave={setActivityParticipants}
+          />
+        )}
+
+        {/* NewWeekendDialog - Rendered at top level for proper z-index */}
+        {showNewWeekendDialog && (
+          <NewWeekendDialog
+            isOpen={showNewWeekendDialog}
+            onClose={() => setShowNewWeekendDialog(false)}
+            onCreate={handleCreateWeekend}
+            templates={templates}
+            onDeleteTemplate={deleteTemplate}
+          />
+        )}
+
+        {/* SaveTemplateDialog - Rendered at top level for proper z-index */}
+        {showSaveTemplateDialog && currentWeekend && (
+          <SaveTemplateDialog
+            isOpen={showSaveTemplateDialog}
+            onClose={() => setShowSaveTemplateDialog(false)}
+            weekend={currentWeekend}
+            onSave={saveAsTemplate}
+          />
+        )}
+
+        {/* ApplyThemeDialog - Rendered at top level for proper z-index */}
+        {showApplyThemeDialog && (
+          <ApplyThemeDialog
+            isOpen={showApplyThemeDialog}
+            onClose={() => setShowApplyThemeDialog(false)}
+            themes={orderThemesByPreference(
+              availableThemes,
+              preferences.preferredThemes
+            )}
+            currentThemeId={currentWeekend?.theme?.id}
+            preferredThemes={preferences.preferredThemes}
+            onTogglePreferred={togglePreferredTheme}
+            onCreateTheme={() => setThemeBuilder({ isOpen: true, theme: null })}
+            onEditTheme={(theme) => setThemeBuilder({ isOpen: true, theme })}
+            onDeleteTheme={deleteCustomTheme}
+            onApply={applyTheme}
+          />
+        )}
+
+        {/* ThemeBuilderDialog - Rendered at top level for proper z-index */}
+        {themeBuilder.isOpen && (
+          <ThemeBuilderDialog
+            key={themeBuilder.theme?.id ?? "new"}
+            isOpen={themeBuilder.isOpen}
+            onClose={() => setThemeBuilder({ isOpen: false, theme: null })}
+            theme={themeBuilder.theme}
+            activities={activities}
+            onSave={saveCustomTheme}
+          />
+        )}
+
+        {/* CustomActivityDialog - Rendered at top level for proper z-index */}
+        {activityEditor.isOpen && (
+          <CustomActivityDialog
+            key={activityEditor.activity?.id ?? "new"}
+            isOpen={activityEditor.isOpen}
+            onClose={() => setActivityEditor({ isOpen: false, activity: null })}
+            activity={activityEditor.activity}
+            categories={categories}
+            onSave={saveCustomActivity}
+            onDelete={deleteCustomActivity}
+          />
+        )}
+
+        {/* CategoryManagerDialog - Rendered at top level for proper z-index */}
+        <CategoryManagerDialog
+          isOpen={showCategoryManager}
+          onClose={() => setShowCategoryManager(false)}
+          categories={categories}
+          activities={activities}
+          onAdd={addCategory}
+          onUpdate={updateCategory}
+          onReorder={reorderCategories}
+          onMerge={mergeCategories}
+        />
+
+        {/* AutoPlanDialog - Rendered at top level for proper z-index */}
+        {showAutoPlanDialog && currentWeekend && (
+          <AutoPlanDialog
+            isOpen={showAutoPlanDialog}
+            onClose={() => setShowAutoPlanDialog(false)}
+            days={currentWeekend.days}
+            activities={activities}
+            hasForecast={!!weatherData}
+            budget={currentWeekend.budget}
+            onPlan={autoPlanWeekend}
           />
         )}
       </div>
@@ -1,9 +1,29 @@
 import React, { useState, useMemo } from "react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Search, ChevronDown, Sliders } from "lucide-react";
+import {
+  Search,
+  ChevronDown,
+  Sliders,
+  Plus,
+  Tags,
+  Star,
+  History,
+  Bookmark,
+  BookmarkPlus,
+  Share2,
+  Trash2,
+  Upload,
+} from "lucide-react";
 import { DraggableActivity } from "../dnd/DraggableActivity";
-import type { ActivityBrowserProps } from "../../types";
+import {
+  DEFAULT_FILTERS,
+  countActiveFilters,
+  filterActivities,
+  parseFilterPreset,
+  toCostFilter,
+} from "../../lib/activityFilters";
+import type { Activity, ActivityBrowserProps, FilterState } from "../../types";
 
 export const ActivityBrowser: React.FC<ActivityBrowserProps> = ({
   activities,
@@ -13,52 +33,38 @@ export const ActivityBrowser: React.FC<ActivityBrowserProps> = ({
   onFilterChange,
   onSearchChange,
   onActivitySelect,
+  onCreateActivity,
+  onEditActivity,
+  onManageCategories,
+  favoriteActivityIds = [],
+  recentActivityIds = [],
+  onToggleFavorite,
+  filterPresets = [],
+  onSavePreset,
+  onApplyPreset,
+  onDeletePreset,
+  onSharePreset,
+  onImportPreset,
 }) => {
   const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
 
-  const filteredActivities = useMemo(() => {
-    return activities.filter((activity) => {
-      if (
-        searchTerm &&
-        !activity.title.toLowerCase().includes(searchTerm.toLowerCase()) &&
-        !activity.description
-          .toLowerCase()
-          .includes(searchTerm.toLowerCase()) &&
-        !activity.tags.some((tag) =>
-          tag.toLowerCase().includes(searchTerm.toLowerCase())
-        )
-      )
-        return false;
+  const favoriteActivities = useMemo(
+    () => activities.filter((a) => favoriteActivityIds.includes(a.id)),
+    [activities, favoriteActivityIds]
+  );
 
-      if (
-        filters.categories.length > 0 &&
-        !filters.categories.includes(activity.category.id)
-      )
-        return false;
-      if (
-        filters.moods.length > 0 &&
-        !filters.moods.some((mood) => activity.mood.includes(mood))
-      )
-        return false;
-      if (
-        filters.energyLevels.length > 0 &&
-        !filters.energyLevels.includes(activity.energyLevel)
-      )
-        return false;
-      if (
-        activity.duration < filters.duration.min ||
-        activity.duration > filters.duration.max
-      )
-        return false;
-      if (
-        filters.weatherDependent !== undefined &&
-        activity.weatherDependent !== filters.weatherDependent
-      )
-        return false;
+  const recentActivities = useMemo(
+    () =>
+      recentActivityIds
+        .map((id) => activities.find((a) => a.id === id))
+        .filter((a): a is Activity => !!a),
+    [activities, recentActivityIds]
+  );
 
-      return true;
-    });
-  }, [activities, searchTerm, filters]);
+  const filteredActivities = useMemo(
+    () => filterActivities(activities, filters, searchTerm),
+    [activities, searchTerm, filters]
+  );
 
   const handleCategoryToggle = (categoryId: string) => {
     const newCategories = filters.categories.includes(categoryId)
@@ -85,24 +91,76 @@ export const ActivityBrowser: React.FC<ActivityBrowserProps> = ({
     onFilterChange?.({ ...filters, weatherDependent });
   };
 
-  const clearAllFilters = () => {
+  const handleCostChange = (cost: FilterState["cost"]) => {
+    onFilterChange?.({ ...filters, cost });
+  };
+
+  const handleGroupSizeChange = (value: string) => {
+    const groupSize = parseInt(value, 10);
+    onFilterChange?.({
+      ...filters,
+      groupSize: groupSize > 0 ? groupSize : undefined,
+    });
+  };
+
+  const handleFreeOnlyToggle = () => {
     onFilterChange?.({
-      categories: [],
-      moods: [],
-      energyLevels: [],
-      duration: { min: 0, max: 480 },
-      weatherDependent: undefined,
-      tags: [],
+      ...filters,
+      freeOnly: filters.freeOnly ? undefined : true,
     });
+  };
+
+  // Prices are typed freely and only applied once the field is left
+  const minCost = filters.cost?.min ? String(filters.cost.min) : "";
+  const maxCost = filters.cost?.max?.toString() ?? "";
+  const commitOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") e.currentTarget.blur();
+  };
+
+  const clearAllFilters = () => {
+    onFilterChange?.(DEFAULT_FILTERS);
     onSearchChange?.("");
   };
 
-  const activeFilterCount =
-    filters.categories.length +
-    filters.moods.length +
-    filters.energyLevels.length +
-    (filters.weatherDependent !== undefined ? 1 : 0) +
-    (searchTerm ? 1 : 0);
+  const activeFilterCount = countActiveFilters(filters, searchTerm);
+
+  const handleSavePreset = () => {
+    const name = window.prompt("Name these filters", "");
+    if (name?.trim()) onSavePreset?.(name);
+  };
+
+  const handleImportPreset = () => {
+    const data = window.prompt("Paste a shared filter preset");
+    if (!data?.trim()) return;
+    // Catch bad pastes here rather than as a store error
+    try {
+      parseFilterPreset(data);
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    onImportPreset?.(data);
+  };
+
+  // Shortcuts only show while browsing everything
+  const showSections =
+    activeFilterCount === 0 &&
+    (favoriteActivities.length > 0 || recentActivities.length > 0);
+
+  const renderActivity = (activity: Activity, section?: string) => (
+    <DraggableActivity
+      key={`${section ?? "all"}-${activity.id}`}
+      activity={activity}
+      onSelect={onActivitySelect}
+      onMobileAdd={onActivitySelect}
+      onEdit={onEditActivity}
+      isFavorite={favoriteActivityIds.includes(activity.id)}
+      onToggleFavorite={onToggleFavorite}
+      section={section}
+      showDetails={true}
+      compact={section !== undefined}
+    />
+  );
 
   return (
     <div className="flex flex-col h-full">
@@ -110,7 +168,7 @@ export const ActivityBrowser: React.FC<ActivityBrowserProps> = ({
         <div className="relative flex-1">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground w-4 h-4" />
           <Input
-            placeholder="Search activities..."
+            placeholder="Search, or try tag:outdoor cost:<30"
             value={searchTerm}
             onChange={(e) => onSearchChange?.(e.target.value)}
             className="pl-10"
@@ -121,6 +179,28 @@ export const ActivityBrowser: React.FC<ActivityBrowserProps> = ({
             Clear
           </Button>
         )}
+        {onCreateActivity && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onCreateActivity}
+            title="New activity"
+            className="h-9"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        )}
+        {onManageCategories && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onManageCategories}
+            title="Manage categories"
+            className="h-9"
+          >
+            <Tags className="w-4 h-4" />
+          </Button>
+        )}
       </div>
 
       <div className="flex flex-wrap gap-2 flex-shrink-0 py-3">
@@ -148,6 +228,35 @@ export const ActivityBrowser: React.FC<ActivityBrowserProps> = ({
         ))}
       </div>
 
+      {(filterPresets.length > 0 ||
+        (onSavePreset && activeFilterCount > 0)) && (
+        <div className="flex flex-wrap items-center gap-1 flex-shrink-0 pb-2">
+          <Bookmark className="w-3 h-3 text-muted-foreground" />
+          {filterPresets.map((preset) => (
+            <Button
+              key={preset.id}
+              variant="secondary"
+              size="sm"
+              onClick={() => onApplyPreset?.(preset.id)}
+              className="text-xs h-7"
+            >
+              {preset.name}
+            </Button>
+          ))}
+          {onSavePreset && activeFilterCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleSavePreset}
+              className="text-xs h-7"
+            >
+              <BookmarkPlus className="w-3 h-3 mr-1" />
+              Save filters
+            </Button>
+          )}
+        </div>
+      )}
+
       <div className="flex items-center justify-between flex-shrink-0 py-2">
         <h3 className="text-sm font-semibold text-muted-foreground">
           {filteredActivities.length} Activities Found
@@ -254,21 +363,139 @@ export const ActivityBrowser: React.FC<ActivityBrowserProps> = ({
               </Button>
             </div>
           </div>
+
+          {/* Price */}
+          <div>
+            <h4 className="text-xs font-medium mb-2">Price</h4>
+            <div className="flex gap-1">
+              <Button
+                variant={filters.freeOnly ? "default" : "outline"}
+                size="sm"
+                onClick={handleFreeOnlyToggle}
+                className="text-xs h-7"
+              >
+                Free only
+              </Button>
+              <Input
+                key={`min-${minCost}`}
+                type="number"
+                min="0"
+                defaultValue={minCost}
+                onBlur={(e) =>
+                  handleCostChange(toCostFilter(e.target.value, maxCost))
+                }
+                onKeyDown={commitOnEnter}
+                placeholder="Min"
+                aria-label="Minimum price"
+                className="h-7 text-xs"
+              />
+              <Input
+                key={`max-${maxCost}`}
+                type="number"
+                min="0"
+                defaultValue={maxCost}
+                onBlur={(e) =>
+                  handleCostChange(toCostFilter(minCost, e.target.value))
+                }
+                onKeyDown={commitOnEnter}
+                placeholder="Max"
+                aria-label="Maximum price"
+                className="h-7 text-xs"
+              />
+            </div>
+          </div>
+
+          {/* Group Size */}
+          <div>
+            <h4 className="text-xs font-medium mb-2">Group Size</h4>
+            <Input
+              type="number"
+              min="1"
+              value={filters.groupSize ?? ""}
+              onChange={(e) => handleGroupSizeChange(e.target.value)}
+              placeholder="Any number of people"
+              aria-label="Group size"
+              className="h-7 text-xs"
+            />
+          </div>
+
+          {/* Saved Presets */}
+          {(filterPresets.length > 0 || onImportPreset) && (
+            <div>
+              <h4 className="text-xs font-medium mb-2">Saved Filters</h4>
+              <div className="space-y-1">
+                {filterPresets.map((preset) => (
+                  <div key={preset.id} className="flex items-center gap-1">
+                    <span className="text-xs flex-1 truncate">
+                      {preset.name}
+                    </span>
+                    {onSharePreset && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        title="Copy to share"
+                        onClick={() => onSharePreset(preset.id)}
+                      >
+                        <Share2 className="w-3 h-3" />
+                      </Button>
+                    )}
+                    {onDeletePreset && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        title="Delete"
+                        onClick={() => onDeletePreset(preset.id)}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {onImportPreset && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleImportPreset}
+                    className="text-xs h-7"
+                  >
+                    <Upload className="w-3 h-3 mr-1" />
+                    Import shared filters
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
         </div>
       )}
 
       <div className="flex-1 overflow-y-auto min-h-0">
         <div className="space-y-3 pb-20 pr-2">
-          {filteredActivities.map((activity) => (
-            <DraggableActivity
-              key={activity.id}
-              activity={activity}
-              onSelect={onActivitySelect}
-              onMobileAdd={onActivitySelect}
-              showDetails={true}
-              compact={false}
-            />
-          ))}
+          {showSections && favoriteActivities.length > 0 && (
+            <>
+              <h4 className="text-xs font-semibold text-muted-foreground flex items-center gap-1">
+                <Star className="w-3 h-3" />
+                Favourites
+              </h4>
+              {favoriteActivities.map((a) => renderActivity(a, "favorite"))}
+            </>
+          )}
+          {showSections && recentActivities.length > 0 && (
+            <>
+              <h4 className="text-xs font-semibold text-muted-foreground flex items-center gap-1">
+                <History className="w-3 h-3" />
+                Recently scheduled
+              </h4>
+              {recentActivities.map((a) => renderActivity(a, "recent"))}
+            </>
+          )}
+          {showSections && (
+            <h4 className="text-xs font-semibold text-muted-foreground">
+              All activities
+            </h4>
+          )}
+          {filteredActivities.map((activity) => renderActivity(activity))}
         </div>
       </div>
 
@@ -47,6 +47,10 @@ import {
   Leaf,
   Laptop,
   Star,
+  Pencil,
+  Bed,
+  CircleCheck,
+  Tent,
 } from "lucide-react";
 import type { ActivityCardProps } from "../../types";
 
@@ -94,6 +98,9 @@ const iconMap: Record<string, React.ComponentType<any>> = {
   leaf: Leaf,
   laptop: Laptop,
   star: Star,
+  bed: Bed,
+  "check-circle": CircleCheck,
+  tent: Tent,
 };
 
 // Category icon mapping
@@ -112,6 +119,9 @@ export const ActivityCard: React.FC<ActivityCardProps> = ({
   activity,
   isSelected = false,
   isDragging = false,
+  isFavorite = false,
+  onToggleFavorite,
+  onEdit,
   compact = false,
 }) => {
   const formatDuration = (minutes: number) => {
@@ -179,13 +189,58 @@ export const ActivityCard: React.FC<ActivityCardProps> = ({
               </h3>
               <p className="text-xs text-muted-foreground">
                 {activity.category.name}
+                {activity.custom && (
+                  <Badge variant="secondary" className="text-[10px] ml-1 px-1">
+                    Custom
+                  </Badge>
+                )}
               </p>
             </div>
           </div>
-          <Badge variant="outline" className="text-xs flex items-center gap-1">
-            <Clock className="w-3 h-3" />
-            {formatDuration(activity.duration)}
-          </Badge>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <Badge
+              variant="outline"
+              className="text-xs flex items-center gap-1"
+            >
+              <Clock className="w-3 h-3" />
+              {formatDuration(activity.duration)}
+            </Badge>
+            {activity.custom && onEdit && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onEdit(activity);
+                }}
+                onPointerDown={(e) => e.stopPropagation()}
+                className="p-1 rounded-full hover:bg-accent opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Edit activity"
+              >
+                <Pencil className="w-4 h-4 text-muted-foreground" />
+              </button>
+            )}
+            {onToggleFavorite && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleFavorite(activity);
+                }}
+                onPointerDown={(e) => e.stopPropagation()}
+                className="p-1 rounded-full hover:bg-accent"
+                title={
+                  isFavorite ? "Remove from favourites" : "Add to favourites"
+                }
+                aria-pressed={isFavorite}
+              >
+                <Star
+                  className={`w-4 h-4 ${
+                    isFavorite
+                      ? "fill-amber-400 text-amber-400"
+                      : "text-muted-foreground"
+                  }`}
+                />
+              </button>
+            )}
+          </div>
         </div>
       </CardHeader>
 
@@ -3,9 +3,31 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Search, ChevronDown, Sliders, Plus, ArrowLeft } from "lucide-react";
+import {
+  Search,
+  ChevronDown,
+  Sliders,
+  Plus,
+  ArrowLeft,
+  Pencil,
+  Tags,
+  Star,
+  History,
+  Bookmark,
+} from "lucide-react";
 import { ActivityCard } from "./ActivityCard";
-import type { Activity, ActivityCategory, FilterState } from "../../types";
+import {
+  DEFAULT_FILTERS,
+  countActiveFilters,
+  filterActivities,
+  toCostFilter,
+} from "../../lib/activityFilters";
+import type {
+  Activity,
+  ActivityCategory,
+  FilterPreset,
+  FilterState,
+} from "../../types";
 
 interface MobileActivityBrowserProps {
   activities: Activity[];
@@ -15,6 +37,14 @@ interface MobileActivityBrowserProps {
   onFilterChange?: (filters: FilterState) => void;
   onSearchChange?: (term: string) => void;
   onActivitySelect?: (activity: Activity) => void;
+  onCreateActivity?: () => void;
+  onEditActivity?: (activity: Activity) => void;
+  onManageCategories?: () => void;
+  favoriteActivityIds?: string[];
+  recentActivityIds?: string[];
+  onToggleFavorite?: (activity: Activity) => void;
+  filterPresets?: FilterPreset[];
+  onApplyPreset?: (presetId: string) => void;
   onClose: () => void;
   isOpen: boolean;
 }
@@ -27,54 +57,36 @@ export const MobileActivityBrowser: React.FC<MobileActivityBrowserProps> = ({
   onFilterChange,
   onSearchChange,
   onActivitySelect,
+  onCreateActivity,
+  onEditActivity,
+  onManageCategories,
+  favoriteActivityIds = [],
+  recentActivityIds = [],
+  onToggleFavorite,
+  filterPresets = [],
+  onApplyPreset,
   onClose,
   isOpen,
 }) => {
   const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
 
-  const filteredActivities = useMemo(() => {
-    return activities.filter((activity) => {
-      if (
-        searchTerm &&
-        !activity.title.toLowerCase().includes(searchTerm.toLowerCase()) &&
-        !activity.description
-          .toLowerCase()
-          .includes(searchTerm.toLowerCase()) &&
-        !activity.tags.some((tag) =>
-          tag.toLowerCase().includes(searchTerm.toLowerCase())
-        )
-      )
-        return false;
+  const favoriteActivities = useMemo(
+    () => activities.filter((a) => favoriteActivityIds.includes(a.id)),
+    [activities, favoriteActivityIds]
+  );
 
-      if (
-        filters.categories.length > 0 &&
-        !filters.categories.includes(activity.category.id)
-      )
-        return false;
-      if (
-        filters.moods.length > 0 &&
-        !filters.moods.some((mood) => activity.mood.includes(mood))
-      )
-        return false;
-      if (
-        filters.energyLevels.length > 0 &&
-        !filters.energyLevels.includes(activity.energyLevel)
-      )
-        return false;
-      if (
-        activity.duration < filters.duration.min ||
-        activity.duration > filters.duration.max
-      )
-        return false;
-      if (
-        filters.weatherDependent !== undefined &&
-        activity.weatherDependent !== filters.weatherDependent
-      )
-        return false;
+  const recentActivities = useMemo(
+    () =>
+      recentActivityIds
+        .map((id) => activities.find((a) => a.id === id))
+        .filter((a): a is Activity => !!a),
+    [activities, recentActivityIds]
+  );
 
-      return true;
-    });
-  }, [activities, searchTerm, filters]);
+  const filteredActivities = useMemo(
+    () => filterActivities(activities, filters, searchTerm),
+    [activities, searchTerm, filters]
+  );
 
   const handleCategoryToggle = (categoryId: string) => {
     const newCategories = filters.categories.includes(categoryId)
@@ -101,29 +113,82 @@ export const MobileActivityBrowser: React.FC<MobileActivityBrowserProps> = ({
     onFilterChange?.({ ...filters, weatherDependent });
   };
 
-  const clearAllFilters = () => {
+  const handleCostChange = (cost: FilterState["cost"]) => {
+    onFilterChange?.({ ...filters, cost });
+  };
+
+  const handleGroupSizeChange = (value: string) => {
+    const groupSize = parseInt(value, 10);
+    onFilterChange?.({
+      ...filters,
+      groupSize: groupSize > 0 ? groupSize : undefined,
+    });
+  };
+
+  const handleFreeOnlyToggle = () => {
     onFilterChange?.({
-      categories: [],
-      moods: [],
-      energyLevels: [],
-      duration: { min: 0, max: 480 },
-      weatherDependent: undefined,
-      tags: [],
+      ...filters,
+      freeOnly: filters.freeOnly ? undefined : true,
     });
+  };
+
+  // Prices are typed freely and only applied once the field is left
+  const minCost = filters.cost?.min ? String(filters.cost.min) : "";
+  const maxCost = filters.cost?.max?.toString() ?? "";
+  const commitOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") e.currentTarget.blur();
+  };
+
+  const clearAllFilters = () => {
+    onFilterChange?.(DEFAULT_FILTERS);
     onSearchChange?.("");
   };
 
-  const activeFilterCount =
-    filters.categories.length +
-    filters.moods.length +
-    filters.energyLevels.length +
-    (filters.weatherDependent !== undefined ? 1 : 0) +
-    (searchTerm ? 1 : 0);
+  const activeFilterCount = countActiveFilters(filters, searchTerm);
 
   const handleActivityAdd = (activity: Activity) => {
     onActivitySelect?.(activity);
   };
 
+  // Shortcuts only show while browsing everything
+  const showSections =
+    activeFilterCount === 0 &&
+    (favoriteActivities.length > 0 || recentActivities.length > 0);
+
+  const renderActivity = (activity: Activity, section?: string) => (
+    <Card key={`${section ?? "all"}-${activity.id}`} className="relative group">
+      <CardContent className="p-4">
+        <ActivityCard
+          activity={activity}
+          isFavorite={favoriteActivityIds.includes(activity.id)}
+          onToggleFavorite={onToggleFavorite}
+          showDetails={true}
+          compact={false}
+        />
+        <div className="mt-3 flex justify-end gap-2">
+          {activity.custom && onEditActivity && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onEditActivity(activity)}
+            >
+              <Pencil className="w-4 h-4 mr-1" />
+              Edit
+            </Button>
+          )}
+          <Button
+            size="sm"
+            onClick={() => handleActivityAdd(activity)}
+            className="bg-primary hover:bg-primary/90 text-primary-foreground"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add to Schedule
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
   if (!isOpen) return null;
 
   return (
@@ -142,11 +207,29 @@ export const MobileActivityBrowser: React.FC<MobileActivityBrowserProps> = ({
               </p>
             </div>
           </div>
-          {activeFilterCount > 0 && (
-            <Button variant="ghost" size="sm" onClick={clearAllFilters}>
-              Clear All
-            </Button>
-          )}
+          <div className="flex items-center gap-1">
+            {activeFilterCount > 0 && (
+              <Button variant="ghost" size="sm" onClick={clearAllFilters}>
+                Clear All
+              </Button>
+            )}
+            {onCreateActivity && (
+              <Button variant="outline" size="sm" onClick={onCreateActivity}>
+                <Plus className="w-4 h-4 mr-1" />
+                New
+              </Button>
+            )}
+            {onManageCategories && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onManageCategories}
+                title="Manage categories"
+              >
+                <Tags className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
         </div>
 
         {/* Search Bar */}
@@ -154,7 +237,7 @@ export const MobileActivityBrowser: React.FC<MobileActivityBrowserProps> = ({
           <div className="relative">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground w-4 h-4" />
             <Input
-              placeholder="Search activities..."
+              placeholder="Search, or try tag:outdoor cost:<30"
               value={searchTerm}
               onChange={(e) => onSearchChange?.(e.target.value)}
               className="pl-10"
@@ -192,6 +275,26 @@ export const MobileActivityBrowser: React.FC<MobileActivityBrowserProps> = ({
           </div>
         </div>
 
+        {/* Saved Filters */}
+        {filterPresets.length > 0 && (
+          <div className="px-4 pb-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Bookmark className="w-4 h-4 text-muted-foreground" />
+              {filterPresets.map((preset) => (
+                <Button
+                  key={preset.id}
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => onApplyPreset?.(preset.id)}
+                  className="text-xs"
+                >
+                  {preset.name}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Advanced Filters Toggle */}
         <div className="px-4 pb-4">
           <Button
@@ -306,6 +409,61 @@ export const MobileActivityBrowser: React.FC<MobileActivityBrowserProps> = ({
                 </Button>
               </div>
             </div>
+
+            {/* Price */}
+            <div>
+              <h4 className="text-sm font-medium mb-2">Price</h4>
+              <div className="flex gap-2">
+                <Button
+                  variant={filters.freeOnly ? "default" : "outline"}
+                  size="sm"
+                  onClick={handleFreeOnlyToggle}
+                  className="text-xs"
+                >
+                  Free only
+                </Button>
+                <Input
+                  key={`min-${minCost}`}
+                  type="number"
+                  min="0"
+                  defaultValue={minCost}
+                  onBlur={(e) =>
+                    handleCostChange(toCostFilter(e.target.value, maxCost))
+                  }
+                  onKeyDown={commitOnEnter}
+                  placeholder="Min"
+                  aria-label="Minimum price"
+                  className="h-8 text-sm"
+                />
+                <Input
+                  key={`max-${maxCost}`}
+                  type="number"
+                  min="0"
+                  defaultValue={maxCost}
+                  onBlur={(e) =>
+                    handleCostChange(toCostFilter(minCost, e.target.value))
+                  }
+                  onKeyDown={commitOnEnter}
+                  placeholder="Max"
+                  aria-label="Maximum price"
+                  className="h-8 text-sm"
+                />
+              </div>
+            </div>
+
+            {/* Group Size */}
+            <div>
+              <h4 className="text-sm font-medium mb-2">Group Size</h4>
+              <Input
+                type="number"
+                min="1"
+                value={filters.groupSize ?? ""}
+                onChange={(e) => handleGroupSizeChange(e.target.value)}
+                placeholder="Any number of people"
+                aria-label="Group size"
+                className="h-8 text-sm"
+              />
+            </div>
           </div>
         )}
       </div>
@@ -313,27 +471,30 @@ export const MobileActivityBrowser: React.FC<MobileActivityBrowserProps> = ({
       {/* Activities List */}
       <div className="flex-1 overflow-y-auto">
         <div className="p-4 space-y-3 pb-20">
-          {filteredActivities.map((activity) => (
-            <Card key={activity.id} className="relative group">
-              <CardContent className="p-4">
-                <ActivityCard
-                  activity={activity}
-                  showDetails={true}
-                  compact={false}
-                />
-                <div className="mt-3 flex justify-end">
-                  <Button
-                    size="sm"
-                    onClick={() => handleActivityAdd(activity)}
-                    className="bg-primary hover:bg-primary/90 text-primary-foreground"
-                  >
-                    <Plus className="w-4 h-4 mr-1" />
-                    Add to Schedule
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+          {showSections && favoriteActivities.length > 0 && (
+            <>
+              <h4 className="text-sm font-semibold text-muted-foreground flex items-center gap-1">
+                <Star className="w-4 h-4" />
+                Favourites
+              </h4>
+              {favoriteActivities.map((a) => renderActivity(a, "favorite"))}
+            </>
+          )}
+          {showSections && recentActivities.length > 0 && (
+            <>
+              <h4 className="text-sm font-semibold text-muted-foreground flex items-center gap-1">
+                <History className="w-4 h-4" />
+                Recently scheduled
+              </h4>
+              {recentActivities.map((a) => renderActivity(a, "recent"))}
+            </>
+          )}
+          {showSections && (
+            <h4 className="text-sm font-semibold text-muted-foreground">
+              All activities
+            </h4>
+          )}
+          {filteredActivities.map((activity) => renderActivity(activity))}
         </div>
 
         {/* Empty State */}
@@ -10,6 +10,10 @@ interface DraggableActivityProps {
   isSelected?: boolean;
   onSelect?: (activity: Activity) => void;
   onMobileAdd?: (activity: Activity) => void;
+  onEdit?: (activity: Activity) => void;
+  isFavorite?: boolean;
+  onToggleFavorite?: (activity: Activity) => void;
+  section?: string; // keeps drag ids unique when an activity is listed twice
   showDetails?: boolean;
   compact?: boolean;
 }
@@ -19,6 +23,10 @@ export const DraggableActivity: React.FC<DraggableActivityProps> = ({
   isSelected = false,
   onSelect,
   onMobileAdd,
+  onEdit,
+  isFavorite = false,
+  onToggleFavorite,
+  section,
   showDetails = true,
   compact = false,
 }) => {
@@ -37,7 +45,9 @@ export const DraggableActivity: React.FC<DraggableActivityProps> = ({
 
   const { attributes, listeners, setNodeRef, transform, isDragging } =
     useDraggable({
-      id: `activity-${activity.id}`,
+      id: section
+        ? `${section}-activity-${activity.id}`
+        : `activity-${activity.id}`,
       data: {
         type: "activity",
         activity,
@@ -72,13 +82,16 @@ export const DraggableActivity: React.FC<DraggableActivityProps> = ({
         isSelected={isSelected}
         isDragging={isDragging}
         onSelect={onSelect}
+        isFavorite={isFavorite}
+        onToggleFavorite={onToggleFavorite}
+        onEdit={onEdit}
         showDetails={showDetails}
         compact={compact}
       />
 
-      {/* Mobile Add Button */}
+      {/* Mobile Add Button, clear of the card's header actions */}
       {isMobile && (
-        <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
+        <div className="absolute bottom-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
           <Button
             size="sm"
             onClick={handleMobileAdd}
@@ -91,7 +104,7 @@ export const DraggableActivity: React.FC<DraggableActivityProps> = ({
 
       {/* Desktop drag hint */}
       {!isMobile && (
-        <div className="absolute inset-0 bg-blue-500/10 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg border-2 border-dashed border-blue-300 flex items-center justify-center">
+        <div className="absolute inset-0 pointer-events-none bg-blue-500/10 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg border-2 border-dashed border-blue-300 flex items-center justify-center">
           <span className="text-xs text-blue-600 font-medium bg-white/90 px-2 py-1 rounded">
             Drag to schedule
           </span>
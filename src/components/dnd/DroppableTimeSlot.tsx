@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useState } from "react";
 import { useDroppable } from "@dnd-kit/core";
 import {
   SortableContext,
@@ -9,7 +9,9 @@ import { CSS } from "@dnd-kit/utilities";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Clock, Plus, X, GripVertical } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Clock, Plus, X, GripVertical, MapPin, Users } from "lucide-react";
+import { formatTo12Hour } from "../../lib/timeUtils";
 import type { WeekendDay, TimePeriod, ScheduledActivity } from "../../types";
 
 interface DroppableTimeSlotProps {
@@ -20,21 +22,33 @@ interface DroppableTimeSlotProps {
   icon: string;
   activities: ScheduledActivity[];
   onActivityRemove?: (activityId: string) => void;
-  onTimeEdit?: (period: TimePeriod, label: string) => void;
+  onActivityTimeChange?: (activityId: string, startTime: string) => void;
+  onLocationEdit?: (scheduledActivity: ScheduledActivity) => void;
+  onParticipantsEdit?: (scheduledActivity: ScheduledActivity) => void;
+  onTimeEdit?: (day: WeekendDay, period: TimePeriod, label: string) => void;
   readOnly?: boolean;
 }
 
 interface DraggableScheduledActivityProps {
   scheduledActivity: ScheduledActivity;
   onActivityRemove?: (activityId: string) => void;
+  onActivityTimeChange?: (activityId: string, startTime: string) => void;
+  onLocationEdit?: (scheduledActivity: ScheduledActivity) => void;
+  onParticipantsEdit?: (scheduledActivity: ScheduledActivity) => void;
   readOnly?: boolean;
 }
 
 const SortableScheduledActivity: React.FC<DraggableScheduledActivityProps> = ({
   scheduledActivity,
   onActivityRemove,
+  onActivityTimeChange,
+  onLocationEdit,
+  onParticipantsEdit,
   readOnly = false,
 }) => {
+  const [isEditingTime, setIsEditingTime] = useState(false);
+  const [startTime, setStartTime] = useState(scheduledActivity.startTime);
+
   const {
     attributes,
     listeners,
@@ -66,6 +80,23 @@ const SortableScheduledActivity: React.FC<DraggableScheduledActivityProps> = ({
     return `${mins}m`;
   };
 
+  const canEditTime = !readOnly && !!onActivityTimeChange;
+
+  const handleTimeSave = () => {
+    if (startTime && startTime !== scheduledActivity.startTime) {
+      onActivityTimeChange?.(scheduledActivity.id, startTime);
+    }
+    setIsEditingTime(false);
+  };
+
+  const handleTimeKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") handleTimeSave();
+    else if (e.key === "Escape") {
+      setStartTime(scheduledActivity.startTime);
+      setIsEditingTime(false);
+    }
+  };
+
   return (
     <motion.div
       ref={setNodeRef}
@@ -116,12 +147,45 @@ const SortableScheduledActivity: React.FC<DraggableScheduledActivityProps> = ({
             </div>
 
             <div className="flex items-center gap-2 text-xs text-muted-foreground flex-wrap">
-              <div className="flex items-center gap-1.5 bg-background/20 dark:bg-white/10 rounded-full px-2 py-1 backdrop-blur-sm flex-shrink-0 border border-border/20">
-                <Clock className="w-3 h-3" />
-                <span className="font-medium">
-                  {formatDuration(scheduledActivity.activity.duration)}
-                </span>
-              </div>
+              {isEditingTime ? (
+                <Input
+                  type="time"
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                  onBlur={handleTimeSave}
+                  onKeyDown={handleTimeKeyDown}
+                  onPointerDown={(e) => e.stopPropagation()}
+                  className="h-7 w-[110px] text-xs"
+                  autoFocus
+                />
+              ) : (
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (!canEditTime) return;
+                    setStartTime(scheduledActivity.startTime);
+                    setIsEditingTime(true);
+                  }}
+                  disabled={!canEditTime}
+                  title={canEditTime ? "Change start time" : undefined}
+                  className={`flex items-center gap-1.5 bg-background/20 dark:bg-white/10 rounded-full px-2 py-1 backdrop-blur-sm flex-shrink-0 border border-border/20
+                    ${
+                      canEditTime
+                        ? "cursor-pointer hover:bg-background/30 dark:hover:bg-white/20"
+                        : "cursor-default"
+                    }`}
+                >
+                  <Clock className="w-3 h-3" />
+                  <span className="font-medium">
+                    {formatTo12Hour(scheduledActivity.startTime)} –{" "}
+                    {formatTo12Hour(scheduledActivity.endTime)}
+                  </span>
+                  <span className="opacity-70">
+                    ({formatDuration(scheduledActivity.activity.duration)})
+                  </span>
+                </button>
+              )}
               <Badge
                 variant="outline"
                 className="text-xs border-0 font-medium backdrop-blur-sm truncate max-w-[120px]"
@@ -139,6 +203,54 @@ const SortableScheduledActivity: React.FC<DraggableScheduledActivityProps> = ({
 
           {!readOnly && (
             <div className="flex items-center gap-1">
+              {onLocationEdit && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className={`h-8 w-8 p-0 hover:text-primary hover:bg-primary/20 transition-all duration-200 rounded-full
+                           backdrop-blur-sm border border-border/20 hover:border-primary/30
+                           ${
+                             scheduledActivity.coordinates
+                               ? "text-primary"
+                               : "text-muted-foreground/60 opacity-0 group-hover:opacity-100"
+                           }`}
+                  title={
+                    scheduledActivity.coordinates
+                      ? "Change location"
+                      : "Set location"
+                  }
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onLocationEdit(scheduledActivity);
+                  }}
+                >
+                  <MapPin className="w-4 h-4" />
+                </Button>
+              )}
+              {onParticipantsEdit && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className={`h-8 w-8 p-0 hover:text-primary hover:bg-primary/20 transition-all duration-200 rounded-full
+                           backdrop-blur-sm border border-border/20 hover:border-primary/30
+                           ${
+                             scheduledActivity.participantIds
+                               ? "text-primary"
+                               : "text-muted-foreground/60 opacity-0 group-hover:opacity-100"
+                           }`}
+                  title={
+                    scheduledActivity.participantIds
+                      ? `${scheduledActivity.participantIds.length} going`
+                      : "Everyone is going"
+                  }
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onParticipantsEdit(scheduledActivity);
+                  }}
+                >
+                  <Users className="w-4 h-4" />
+                </Button>
+              )}
               <Button
                 size="sm"
                 variant="ghost"
@@ -176,6 +288,9 @@ export const DroppableTimeSlot: React.FC<DroppableTimeSlotProps> = ({
   icon,
   activities,
   onActivityRemove,
+  onActivityTimeChange,
+  onLocationEdit,
+  onParticipantsEdit,
   onTimeEdit,
   readOnly = false,
 }) => {
@@ -186,7 +301,7 @@ export const DroppableTimeSlot: React.FC<DroppableTimeSlotProps> = ({
 
   const handleTimeEdit = () => {
     if (!readOnly && onTimeEdit) {
-      onTimeEdit(period, label);
+      onTimeEdit(day, period, label);
     }
   };
 
@@ -337,6 +452,9 @@ export const DroppableTimeSlot: React.FC<DroppableTimeSlotProps> = ({
                       <SortableScheduledActivity
                         scheduledActivity={sa}
                         onActivityRemove={onActivityRemove}
+                        onActivityTimeChange={onActivityTimeChange}
+                        onLocationEdit={onLocationEdit}
+                        onParticipantsEdit={onParticipantsEdit}
                         readOnly={readOnly}
                       />
                     </motion.div>
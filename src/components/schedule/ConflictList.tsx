@@ -0,0 +1,143 @@
+import React from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  AlertTriangle,
+  Clock,
+  CloudRain,
+  MapPin,
+  Users,
+  Wallet,
+  Zap,
+  X,
+} from "lucide-react";
+import type { Conflict, ConflictType } from "../../types";
+
+interface ConflictListProps {
+  conflicts: Conflict[];
+  onDismiss?: (conflictId: string) => void;
+  onClose?: () => void;
+}
+
+const severityStyles: Record<Conflict["severity"], string> = {
+  high: "border-red-500/40 bg-red-500/10 text-red-700 dark:text-red-300",
+  medium:
+    "border-orange-500/40 bg-orange-500/10 text-orange-700 dark:text-orange-300",
+  low: "border-yellow-500/40 bg-yellow-500/10 text-yellow-700 dark:text-yellow-300",
+};
+
+const conflictLabels: Record<ConflictType, string> = {
+  time_overlap: "Overlap",
+  period_overflow: "Overbooked",
+  energy_mismatch: "Energy",
+  weather_conflict: "Weather",
+  location_conflict: "Travel",
+  budget_exceeded: "Budget",
+  participant_mismatch: "People",
+};
+
+const getConflictIcon = (type: ConflictType) => {
+  switch (type) {
+    case "time_overlap":
+    case "period_overflow":
+      return <Clock className="w-4 h-4 flex-shrink-0" />;
+    case "energy_mismatch":
+      return <Zap className="w-4 h-4 flex-shrink-0" />;
+    case "weather_conflict":
+      return <CloudRain className="w-4 h-4 flex-shrink-0" />;
+    case "location_conflict":
+      return <MapPin className="w-4 h-4 flex-shrink-0" />;
+    case "budget_exceeded":
+      return <Wallet className="w-4 h-4 flex-shrink-0" />;
+    case "participant_mismatch":
+      return <Users className="w-4 h-4 flex-shrink-0" />;
+    default:
+      return <AlertTriangle className="w-4 h-4 flex-shrink-0" />;
+  }
+};
+
+const severityOrder: Record<Conflict["severity"], number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+export const ConflictList: React.FC<ConflictListProps> = ({
+  conflicts,
+  onDismiss,
+  onClose,
+}) => {
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  const sortedConflicts = [...conflicts].sort(
+    (a, b) => severityOrder[a.severity] - severityOrder[b.severity]
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+    >
+      <Card className="bg-card/60 backdrop-blur-sm border-0 shadow-xl">
+        <CardHeader className="pb-2">
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <AlertTriangle className="w-5 h-5 text-destructive" />
+              Schedule Conflicts
+            </CardTitle>
+            {onClose && (
+              <Button variant="ghost" size="sm" onClick={onClose}>
+                <X className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <AnimatePresence mode="popLayout">
+            {sortedConflicts.map((conflict) => (
+              <motion.div
+                key={conflict.id}
+                layout
+                initial={{ opacity: 0, x: -10 }}
+                animate={{ opacity: 1, x: 0 }}
+                exit={{ opacity: 0, x: 10 }}
+                className={`flex items-start gap-3 p-3 rounded-lg border text-sm ${
+                  severityStyles[conflict.severity]
+                }`}
+              >
+                {getConflictIcon(conflict.type)}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <Badge variant="outline" className="text-xs capitalize">
+                      {conflictLabels[conflict.type]}
+                    </Badge>
+                    <span className="text-xs capitalize opacity-80">
+                      {conflict.severity}
+                    </span>
+                  </div>
+                  <p className="text-foreground/90">{conflict.message}</p>
+                </div>
+                {onDismiss && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    title="Dismiss"
+                    onClick={() => onDismiss(conflict.id)}
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                )}
+              </motion.div>
+            ))}
+          </AnimatePresence>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
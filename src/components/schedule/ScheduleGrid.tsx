@@ -2,42 +2,46 @@ import React from "react";
 import { motion } from "framer-motion";
 import { DroppableTimeSlot } from "../dnd/DroppableTimeSlot";
 import { getTimePeriodInfo } from "../../lib/timeUtils";
+import { DAY_PERIODS } from "../../lib/weekendDays";
+import { getDayTimePeriods } from "../../lib/timePeriods";
 import { useUserStore } from "../../stores/userStore";
-import type { ScheduleGridProps, WeekendDay, TimePeriod } from "../../types";
+import type {
+  ScheduleGridProps,
+  ScheduledActivity,
+  WeekendDay,
+  TimePeriod,
+} from "../../types";
 
 export const ScheduleGrid: React.FC<
   ScheduleGridProps & {
-    onTimeEdit?: (period: TimePeriod, label: string) => void;
+    onTimeEdit?: (day: WeekendDay, period: TimePeriod, label: string) => void;
+    onLocationEdit?: (scheduledActivity: ScheduledActivity) => void;
+    onParticipantsEdit?: (scheduledActivity: ScheduledActivity) => void;
   }
 > = ({
   weekend,
   onActivityRemove,
+  onActivityTimeChange,
   onTimeEdit,
+  onLocationEdit,
+  onParticipantsEdit,
   readOnly = false,
   activeDay,
 }) => {
   const { preferences } = useUserStore();
 
+  // Only the periods that can be planned on this day, e.g. Friday evening
   const TIME_PERIODS: {
     period: TimePeriod;
     label: string;
     time: string;
     icon: string;
-  }[] = [
-    {
-      period: "morning",
-      ...getTimePeriodInfo("morning", preferences.timePeriods),
-    },
-    {
-      period: "afternoon",
-      ...getTimePeriodInfo("afternoon", preferences.timePeriods),
-    },
-    {
-      period: "evening",
-      ...getTimePeriodInfo("evening", preferences.timePeriods),
-    },
-    { period: "night", ...getTimePeriodInfo("night", preferences.timePeriods) },
-  ];
+  }[] = activeDay
+    ? DAY_PERIODS[activeDay].map((period) => ({
+        period,
+        ...getTimePeriodInfo(period, getDayTimePeriods(preferences, activeDay)),
+      }))
+    : [];
 
   const getActivitiesForTimeSlot = (day: WeekendDay, period: TimePeriod) => {
     return weekend[day].filter(
@@ -85,7 +89,10 @@ export const ScheduleGrid: React.FC<
                       icon={icon}
                       activities={activities}
                       onActivityRemove={onActivityRemove}
+                      onActivityTimeChange={onActivityTimeChange}
                       onTimeEdit={onTimeEdit}
+                      onLocationEdit={onLocationEdit}
+                      onParticipantsEdit={onParticipantsEdit}
                       readOnly={readOnly}
                     />
                   </motion.div>
@@ -3,6 +3,7 @@ import { motion } from "framer-motion";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
 import {
   Calendar,
   Clock,
@@ -11,22 +12,204 @@ import {
   TrendingUp,
   Activity,
   Sparkles,
+  Wallet,
 } from "lucide-react";
-import type { WeekendSchedule, WeekendDay } from "../../types";
+import { DAY_LABELS, getWeekendActivities } from "../../lib/weekendDays";
+import { calculateVibeScore } from "../../lib/vibeScore";
+import {
+  formatCost,
+  getParticipantCosts,
+  getPerPersonCost,
+  getTotalCost,
+  getWeekendCost,
+} from "../../lib/budget";
+import type {
+  ScheduledActivity,
+  WeekendSchedule,
+  WeekendDay,
+} from "../../types";
 
 interface ScheduleSummaryProps {
   weekend: WeekendSchedule;
   activeDay: WeekendDay;
+  onBudgetChange?: (budget: number | undefined) => void;
+  onGroupSizeChange?: (groupSize: number | undefined) => void;
+  participantId?: string; // person whose schedule is shown, if just one
 }
 
+// Blank inputs clear the value
+const parseAmount = (value: string) => {
+  const amount = parseFloat(value);
+  return Number.isNaN(amount) ? undefined : amount;
+};
+
+// Everyone pays the same when no share differs by more than rounding
+const isEvenSplit = (costs: Record<string, number>) =>
+  new Set(Object.values(costs).map((cost) => cost.toFixed(2))).size <= 1;
+
+// Describes what people pay for some activities: the shown person's own share
+// of what they attend, otherwise an even split when there is one
+const describeShare = (
+  weekend: WeekendSchedule,
+  activities: ScheduledActivity[],
+  participantId?: string
+): string | undefined => {
+  const participants = weekend.participants ?? [];
+  const total = getTotalCost(activities);
+  if (total === 0) return undefined;
+
+  // Without names the spend is shared evenly by the group size
+  if (participants.length === 0) {
+    const perPerson = getPerPersonCost(total, weekend.groupSize);
+    return perPerson !== undefined
+      ? `${formatCost(perPerson)} per person`
+      : undefined;
+  }
+
+  const costs = getParticipantCosts(activities, participants);
+  const participant = participants.find((p) => p.id === participantId);
+  if (participant) {
+    return `${formatCost(costs[participant.id])} for ${participant.name}`;
+  }
+  return isEvenSplit(costs)
+    ? `${formatCost(costs[participants[0].id])} per person`
+    : undefined;
+};
+
+// Spend against the budget for the whole weekend, whichever day is shown
+const WeekendBudget: React.FC<
+  Pick<
+    ScheduleSummaryProps,
+    "weekend" | "onBudgetChange" | "onGroupSizeChange" | "participantId"
+  >
+> = ({ weekend, onBudgetChange, onGroupSizeChange, participantId }) => {
+  const weekendActivities = getWeekendActivities(weekend);
+  const weekendSpend = getWeekendCost(weekend);
+  const share = describeShare(weekend, weekendActivities, participantId);
+  const participants = weekend.participants ?? [];
+  const participantCount = participants.length;
+  const overBudget =
+    weekend.budget !== undefined && weekendSpend > weekend.budget;
+
+  // List everyone's share when people pay different amounts
+  const costs = getParticipantCosts(weekendActivities, participants);
+  const showShares =
+    !participants.some((p) => p.id === participantId) &&
+    weekendSpend > 0 &&
+    !isEvenSplit(costs);
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium mb-3 flex items-center gap-2">
+        <Wallet className="w-4 h-4" />
+        Weekend Budget
+      </h4>
+      <div className="space-y-3">
+        <div className="flex items-baseline justify-between text-sm">
+          <span>
+            Spend:{" "}
+            <span
+              className={`font-semibold ${
+                overBudget ? "text-red-600 dark:text-red-400" : ""
+              }`}
+            >
+              {formatCost(weekendSpend)}
+            </span>
+            {weekend.budget !== undefined && (
+              <span className="text-muted-foreground">
+                {" "}
+                of {weekend.budget}
+              </span>
+            )}
+          </span>
+          {share && <span className="text-muted-foreground">{share}</span>}
+        </div>
+        {showShares && (
+          <div className="flex flex-wrap gap-2">
+            {participants.map((p) => (
+              <Badge key={p.id} variant="outline" className="text-xs">
+                {p.name}: {formatCost(costs[p.id])}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {weekend.budget !== undefined && weekend.budget > 0 && (
+          <Progress
+            value={Math.min((weekendSpend / weekend.budget) * 100, 100)}
+            className="h-2"
+          />
+        )}
+        {(onBudgetChange || onGroupSizeChange) && (
+          <div className="grid grid-cols-2 gap-2">
+            {onBudgetChange && (
+              <Input
+                key={`budget-${weekend.id}-${weekend.budget}`}
+                type="number"
+                min="0"
+                defaultValue={weekend.budget ?? ""}
+                onBlur={(e) => onBudgetChange(parseAmount(e.target.value))}
+                placeholder="No budget"
+                aria-label="Weekend budget"
+                className="h-8 text-sm"
+              />
+            )}
+            {/* Named participants decide the group size */}
+            {participantCount > 0 ? (
+              <div className="h-8 flex items-center text-sm text-muted-foreground">
+                {participantCount}{" "}
+                {participantCount === 1 ? "person" : "people"} going
+              </div>
+            ) : (
+              onGroupSizeChange && (
+                <Input
+                  key={`group-${weekend.id}-${weekend.groupSize}`}
+                  type="number"
+                  min="1"
+                  defaultValue={weekend.groupSize ?? ""}
+                  onBlur={(e) => onGroupSizeChange(parseAmount(e.target.value))}
+                  placeholder="People going"
+                  aria-label="People going"
+                  className="h-8 text-sm"
+                />
+              )
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
 export const ScheduleSummary: React.FC<ScheduleSummaryProps> = ({
   weekend,
   activeDay,
+  onBudgetChange,
+  onGroupSizeChange,
+  participantId,
 }) => {
   const dayActivities = weekend[activeDay];
 
+  // The budget can be set before anything is planned
   if (dayActivities.length === 0) {
-    return null;
+    return (
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, delay: 0.3 }}
+        className="mt-8"
+      >
+        <Card className="bg-card/60 backdrop-blur-sm border-0 shadow-xl">
+          <CardContent className="pt-6">
+            <WeekendBudget
+              weekend={weekend}
+              onBudgetChange={onBudgetChange}
+              onGroupSizeChange={onGroupSizeChange}
+              participantId={participantId}
+            />
+          </CardContent>
+        </Card>
+      </motion.div>
+    );
   }
 
   // Calculate statistics
@@ -56,34 +239,11 @@ export const ScheduleSummary: React.FC<ScheduleSummaryProps> = ({
     return acc;
   }, {} as Record<string, number>);
 
-  // Calculate vibe score (0-100)
-  const calculateVibeScore = () => {
-    let score = 50;
-
-    // Energy balance bonus
-    const hasLow = energyLevels.low > 0;
-    const hasMedium = energyLevels.medium > 0;
-    const hasHigh = energyLevels.high > 0;
+  const vibeScore = calculateVibeScore(dayActivities);
 
-    if (hasLow && hasMedium && hasHigh) score += 20; // Perfect balance
-    else if ((hasLow && hasMedium) || (hasMedium && hasHigh)) score += 10; // Good balance
-
-    // Mood variety bonus
-    const uniqueMoods = Object.keys(moodCounts).length;
-    score += Math.min(uniqueMoods * 5, 25); // Up to 25 points for mood variety
-
-    // Activity count bonus
-    if (dayActivities.length >= 3) score += 10;
-    if (dayActivities.length >= 5) score += 5;
-
-    // Prevent over-scheduling penalty
-    if (totalDuration > 600) score -= 10; // More than 10 hours
-    if (totalDuration > 720) score -= 10; // More than 12 hours
-
-    return Math.max(0, Math.min(100, score));
-  };
-
-  const vibeScore = calculateVibeScore();
+  // Spend for the day, and what people pay for it when we know who is going
+  const daySpend = getTotalCost(dayActivities);
+  const dayShare = describeShare(weekend, dayActivities, participantId);
 
   const getVibeEmoji = (score: number) => {
     if (score >= 90) return "🔥";
@@ -127,7 +287,7 @@ export const ScheduleSummary: React.FC<ScheduleSummaryProps> = ({
         <CardHeader className="pb-4">
           <CardTitle className="flex items-center gap-2">
             <Calendar className="w-5 h-5" />
-            {activeDay.charAt(0).toUpperCase() + activeDay.slice(1)} Summary
+            {DAY_LABELS[activeDay]} Summary
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -151,7 +311,7 @@ export const ScheduleSummary: React.FC<ScheduleSummaryProps> = ({
           </div>
 
           {/* Stats Grid */}
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
             <div className="text-center p-3 bg-muted/30 rounded-lg">
               <Activity className="w-5 h-5 mx-auto mb-1 text-primary" />
               <p className="text-lg font-semibold">{dayActivities.length}</p>
@@ -178,8 +338,50 @@ export const ScheduleSummary: React.FC<ScheduleSummaryProps> = ({
               </p>
               <p className="text-xs text-muted-foreground">Mood Types</p>
             </div>
+            <div className="text-center p-3 bg-muted/30 rounded-lg">
+              <Wallet className="w-5 h-5 mx-auto mb-1 text-green-500" />
+              <p className="text-lg font-semibold">{formatCost(daySpend)}</p>
+              <p className="text-xs text-muted-foreground">
+                {dayShare ?? "Spend"}
+              </p>
+            </div>
           </div>
 
+          {/* Day by Day */}
+          {weekend.days.length > 1 && (
+            <div>
+              <h4 className="text-sm font-medium mb-3 flex items-center gap-2">
+                <Calendar className="w-4 h-4" />
+                Across the Weekend
+              </h4>
+              <div className="flex flex-wrap gap-2">
+                {weekend.days.map((day) => (
+                  <Badge
+                    key={day}
+                    variant={day === activeDay ? "default" : "outline"}
+                    className="text-xs"
+                  >
+                    {DAY_LABELS[day]}: {weekend[day].length} ·{" "}
+                    {formatDuration(
+                      weekend[day].reduce(
+                        (total, sa) => total + sa.activity.duration,
+                        0
+                      )
+                    )}{" "}
+                    · {formatCost(getTotalCost(weekend[day]))}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <WeekendBudget
+            weekend={weekend}
+            onBudgetChange={onBudgetChange}
+            onGroupSizeChange={onGroupSizeChange}
+            participantId={participantId}
+          />
+
           {/* Energy Distribution */}
           {Object.keys(energyLevels).length > 0 && (
             <div>
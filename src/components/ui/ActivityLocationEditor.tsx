@@ -0,0 +1,202 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { X, MapPin, Save, Navigation } from "lucide-react";
+import { useWeatherStore } from "../../stores/weatherStore";
+import type {
+  GeoCoordinates,
+  ScheduledActivity,
+  TravelMode,
+} from "../../types";
+
+interface ActivityLocationEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  scheduledActivity: ScheduledActivity;
+  defaultTravelMode: TravelMode;
+  onSave: (
+    activityId: string,
+    coordinates: GeoCoordinates | undefined,
+    travelMode?: TravelMode
+  ) => void;
+}
+
+const TRAVEL_MODES: { mode: TravelMode; label: string; icon: string }[] = [
+  { mode: "walking", label: "Walk", icon: "🚶" },
+  { mode: "cycling", label: "Bike", icon: "🚲" },
+  { mode: "transit", label: "Transit", icon: "🚌" },
+  { mode: "driving", label: "Drive", icon: "🚗" },
+];
+
+export const ActivityLocationEditor: React.FC<ActivityLocationEditorProps> = ({
+  isOpen,
+  onClose,
+  scheduledActivity,
+  defaultTravelMode,
+  onSave,
+}) => {
+  const { userLocation } = useWeatherStore();
+  const [latitude, setLatitude] = useState(
+    scheduledActivity.coordinates?.latitude.toString() ?? ""
+  );
+  const [longitude, setLongitude] = useState(
+    scheduledActivity.coordinates?.longitude.toString() ?? ""
+  );
+  const [travelMode, setTravelMode] = useState<TravelMode>(
+    scheduledActivity.travelMode ?? defaultTravelMode
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleUseMyLocation = () => {
+    if (!userLocation) return;
+    setLatitude(userLocation.latitude.toFixed(5));
+    setLongitude(userLocation.longitude.toFixed(5));
+    setError(null);
+  };
+
+  const handleSave = () => {
+    setError(null);
+
+    const lat = Number(latitude);
+    const lng = Number(longitude);
+    if (
+      latitude.trim() === "" ||
+      longitude.trim() === "" ||
+      isNaN(lat) ||
+      isNaN(lng) ||
+      lat < -90 ||
+      lat > 90 ||
+      lng < -180 ||
+      lng > 180
+    ) {
+      setError(
+        "Please enter a latitude between -90 and 90 and a longitude between -180 and 180"
+      );
+      return;
+    }
+
+    onSave(
+      scheduledActivity.id,
+      { latitude: lat, longitude: lng },
+      travelMode === defaultTravelMode ? undefined : travelMode
+    );
+    onClose();
+  };
+
+  const handleClear = () => {
+    onSave(scheduledActivity.id, undefined);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[9999] flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-white dark:bg-gray-900 rounded-2xl max-h-[80vh] overflow-hidden">
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <MapPin className="w-5 h-5" />
+              {scheduledActivity.activity.title} Location
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          <div className="text-sm text-muted-foreground">
+            Set where this activity happens so Weekendly can check there is
+            enough time to get there from the previous one.
+            {scheduledActivity.activity.location && (
+              <>
+                {" "}
+                Suggested place:{" "}
+                <span className="font-medium">
+                  {scheduledActivity.activity.location}
+                </span>
+              </>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="latitude">Latitude</Label>
+              <Input
+                id="latitude"
+                inputMode="decimal"
+                value={latitude}
+                onChange={(e) => setLatitude(e.target.value)}
+                placeholder="51.5074"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="longitude">Longitude</Label>
+              <Input
+                id="longitude"
+                inputMode="decimal"
+                value={longitude}
+                onChange={(e) => setLongitude(e.target.value)}
+                placeholder="-0.1278"
+              />
+            </div>
+          </div>
+
+          {userLocation && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleUseMyLocation}
+              className="w-full"
+            >
+              <Navigation className="w-4 h-4 mr-2" />
+              Use my current location
+            </Button>
+          )}
+
+          <div className="space-y-2">
+            <Label>Getting there by</Label>
+            <div className="grid grid-cols-4 gap-2">
+              {TRAVEL_MODES.map(({ mode, label, icon }) => (
+                <Button
+                  key={mode}
+                  variant={travelMode === mode ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setTravelMode(mode)}
+                  className="text-xs"
+                >
+                  <span className="mr-1">{icon}</span>
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={handleClear}
+              className="flex-1"
+              disabled={!scheduledActivity.coordinates}
+            >
+              Clear
+            </Button>
+            <Button onClick={handleSave} className="flex-1">
+              <Save className="w-4 h-4 mr-2" />
+              Save Location
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
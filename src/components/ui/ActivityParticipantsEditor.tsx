@@ -0,0 +1,120 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { X, Users, Save } from "lucide-react";
+import type { Participant, ScheduledActivity } from "../../types";
+
+interface ActivityParticipantsEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  scheduledActivity: ScheduledActivity;
+  participants: Participant[];
+  onSave: (activityId: string, participantIds: string[] | undefined) => void;
+}
+
+export const ActivityParticipantsEditor: React.FC<
+  ActivityParticipantsEditorProps
+> = ({ isOpen, onClose, scheduledActivity, participants, onSave }) => {
+  // Activities without their own list include everyone
+  const [selectedIds, setSelectedIds] = useState<string[]>(
+    scheduledActivity.participantIds ?? participants.map((p) => p.id)
+  );
+
+  if (!isOpen) return null;
+
+  const { title, minParticipants, maxParticipants } =
+    scheduledActivity.activity;
+  const everyone = participants.every((p) => selectedIds.includes(p.id));
+
+  const toggleParticipant = (participantId: string) => {
+    setSelectedIds((ids) =>
+      ids.includes(participantId)
+        ? ids.filter((id) => id !== participantId)
+        : [...ids, participantId]
+    );
+  };
+
+  const handleSave = () => {
+    onSave(scheduledActivity.id, everyone ? undefined : selectedIds);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[9999] flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-white dark:bg-gray-900 rounded-2xl max-h-[80vh] overflow-hidden">
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              Who's Going to {title}
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-6 overflow-y-auto max-h-[calc(80vh-5rem)]">
+          {participants.length === 0 ? (
+            <div className="text-sm text-muted-foreground">
+              Add who's going on the weekend first, then pick who joins each
+              activity.
+            </div>
+          ) : (
+            <>
+              {(minParticipants !== undefined ||
+                maxParticipants !== undefined) && (
+                <div className="text-xs text-muted-foreground bg-muted p-3 rounded-lg">
+                  {title}{" "}
+                  {minParticipants !== undefined &&
+                  maxParticipants !== undefined
+                    ? `is for ${minParticipants} to ${maxParticipants} people`
+                    : minParticipants !== undefined
+                    ? `needs at least ${minParticipants} people`
+                    : `takes at most ${maxParticipants} people`}
+                  . <span className="font-medium">{selectedIds.length}</span>{" "}
+                  selected.
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label>Going</Label>
+                <label className="flex items-center gap-2 p-2 rounded-lg border cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={everyone}
+                    onChange={() =>
+                      setSelectedIds(
+                        everyone ? [] : participants.map((p) => p.id)
+                      )
+                    }
+                  />
+                  <span className="text-sm font-medium">Everyone</span>
+                </label>
+                {participants.map((participant) => (
+                  <label
+                    key={participant.id}
+                    className="flex items-center gap-2 p-2 rounded-lg border cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(participant.id)}
+                      onChange={() => toggleParticipant(participant.id)}
+                    />
+                    <span className="text-sm">{participant.name}</span>
+                  </label>
+                ))}
+              </div>
+
+              <Button onClick={handleSave} className="w-full">
+                <Save className="w-4 h-4 mr-2" />
+                Save
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { X, Palette, Check, Star, Plus, Pencil, Trash2 } from "lucide-react";
+import { ThemeIcon } from "./ThemeIcon";
+import type { WeekendTheme } from "../../types";
+
+interface ApplyThemeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  themes: WeekendTheme[];
+  currentThemeId?: string;
+  preferredThemes?: string[];
+  onTogglePreferred?: (themeId: string) => void;
+  onCreateTheme?: () => void;
+  onEditTheme?: (theme: WeekendTheme) => void;
+  onDeleteTheme?: (themeId: string) => void;
+  onApply: (theme: WeekendTheme) => number;
+}
+
+export const ApplyThemeDialog: React.FC<ApplyThemeDialogProps> = ({
+  isOpen,
+  onClose,
+  themes,
+  currentThemeId,
+  preferredThemes = [],
+  onTogglePreferred,
+  onCreateTheme,
+  onEditTheme,
+  onDeleteTheme,
+  onApply,
+}) => {
+  const [result, setResult] = useState<{
+    theme: WeekendTheme;
+    added: number;
+  } | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleApply = (theme: WeekendTheme) => {
+    setResult({ theme, added: onApply(theme) });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[9999] flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-white dark:bg-gray-900 rounded-2xl max-h-[80vh] overflow-hidden">
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Palette className="w-5 h-5" />
+              Apply a Theme
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4 overflow-y-auto max-h-[calc(80vh-5rem)]">
+          {result ? (
+            <div className="space-y-4">
+              <p className="text-sm">
+                {result.added > 0
+                  ? `Added ${result.added} ${
+                      result.added === 1 ? "activity" : "activities"
+                    } from ${result.theme.name}.`
+                  : `${result.theme.name} is set, but its activities are already planned or there is no room left for them.`}
+              </p>
+              <Button onClick={onClose} className="w-full">
+                <Check className="w-4 h-4 mr-2" />
+                Done
+              </Button>
+            </div>
+          ) : (
+            <>
+              <p className="text-xs text-muted-foreground">
+                Fills free time across your weekend with the theme's suggested
+                activities. Energetic ones go earlier in the day.
+              </p>
+              {onCreateTheme && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onCreateTheme}
+                  className="w-full"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Create your own theme
+                </Button>
+              )}
+              {themes.map((theme) => {
+                const isPreferred = preferredThemes.includes(theme.id);
+                return (
+                  <div
+                    key={theme.id}
+                    role="button"
+                    tabIndex={0}
+                    onClick={() => handleApply(theme)}
+                    onKeyDown={(e) => e.key === "Enter" && handleApply(theme)}
+                    className="w-full text-left p-3 rounded-xl border hover:bg-accent transition-colors cursor-pointer"
+                    style={
+                      isPreferred
+                        ? { borderColor: theme.color, borderWidth: 2 }
+                        : undefined
+                    }
+                  >
+                    <div className="flex items-center gap-2">
+                      <ThemeIcon
+                        icon={theme.icon}
+                        className="w-4 h-4 flex-shrink-0"
+                        style={{ color: theme.color }}
+                      />
+                      <span className="font-medium text-sm">{theme.name}</span>
+                      <div className="flex items-center gap-1 ml-auto">
+                        {theme.id === currentThemeId && (
+                          <Badge variant="secondary" className="text-xs">
+                            Current
+                          </Badge>
+                        )}
+                        {theme.custom && onEditTheme && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            title="Edit theme"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onEditTheme(theme);
+                            }}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {theme.custom && onDeleteTheme && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            title="Delete theme"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onDeleteTheme(theme.id);
+                            }}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {onTogglePreferred && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            title={
+                              isPreferred
+                                ? "Remove from preferred themes"
+                                : "Add to preferred themes"
+                            }
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onTogglePreferred(theme.id);
+                            }}
+                          >
+                            <Star
+                              className={`w-4 h-4 ${
+                                isPreferred
+                                  ? "fill-amber-400 text-amber-400"
+                                  : ""
+                              }`}
+                            />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {theme.description}
+                    </p>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {theme.moodProfile.map((mood) => (
+                        <Badge key={mood} variant="outline" className="text-xs">
+                          {mood}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,275 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { X, Wand2, RefreshCw, Check } from "lucide-react";
+import { DAY_LABELS, DAY_PERIODS } from "../../lib/weekendDays";
+import { MOODS } from "../../lib/themePlanner";
+import type {
+  BlockedPeriod,
+  PlannerConstraints,
+} from "../../lib/weekendPlanner";
+import type { Activity, Mood, TimePeriod, WeekendDay } from "../../types";
+
+interface AutoPlanDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  days: WeekendDay[];
+  activities: Activity[];
+  hasForecast: boolean;
+  budget?: number; // the weekend's budget, which plans never go over
+  onPlan: (constraints: PlannerConstraints, seed: number) => Activity[];
+}
+
+const ENERGY_BUDGETS = [
+  { label: "Easy", value: 4 },
+  { label: "Balanced", value: 7 },
+  { label: "Packed", value: 10 },
+];
+
+export const AutoPlanDialog: React.FC<AutoPlanDialogProps> = ({
+  isOpen,
+  onClose,
+  days,
+  activities,
+  hasForecast,
+  budget,
+  onPlan,
+}) => {
+  const [moods, setMoods] = useState<Mood[]>([]);
+  const [energyBudget, setEnergyBudget] = useState(7);
+  const [maxCost, setMaxCost] = useState(budget?.toString() ?? "");
+  const [mustInclude, setMustInclude] = useState<string[]>([]);
+  const [search, setSearch] = useState("");
+  const [blockedPeriods, setBlockedPeriods] = useState<BlockedPeriod[]>([]);
+  const [seed, setSeed] = useState(1);
+  const [unplaced, setUnplaced] = useState<Activity[] | null>(null);
+
+  if (!isOpen) return null;
+
+  const toggleMood = (mood: Mood) => {
+    setMoods((current) =>
+      current.includes(mood)
+        ? current.filter((m) => m !== mood)
+        : [...current, mood]
+    );
+  };
+
+  const toggleMustInclude = (activityId: string) => {
+    setMustInclude((current) =>
+      current.includes(activityId)
+        ? current.filter((id) => id !== activityId)
+        : [...current, activityId]
+    );
+  };
+
+  const isBlocked = (day: WeekendDay, period: TimePeriod) =>
+    blockedPeriods.some((b) => b.day === day && b.period === period);
+
+  const toggleBlocked = (day: WeekendDay, period: TimePeriod) => {
+    setBlockedPeriods((current) =>
+      isBlocked(day, period)
+        ? current.filter((b) => !(b.day === day && b.period === period))
+        : [...current, { day, period }]
+    );
+  };
+
+  const runPlan = (planSeed: number) => {
+    const cost = parseFloat(maxCost);
+    setSeed(planSeed);
+    setUnplaced(
+      onPlan(
+        {
+          moods,
+          energyBudget,
+          maxCost: Number.isNaN(cost) ? undefined : cost,
+          mustInclude,
+          blockedPeriods,
+        },
+        planSeed
+      )
+    );
+  };
+
+  const searchResults = search.trim()
+    ? activities
+        .filter((a) =>
+          a.title.toLowerCase().includes(search.trim().toLowerCase())
+        )
+        .slice(0, 6)
+    : [];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[9999] flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg bg-white dark:bg-gray-900 rounded-2xl max-h-[85vh] overflow-hidden">
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Wand2 className="w-5 h-5" />
+              Plan My Weekend
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-5 overflow-y-auto max-h-[calc(85vh-5rem)]">
+          <div className="space-y-2">
+            <Label>Moods</Label>
+            <div className="flex flex-wrap gap-1">
+              {MOODS.map((mood) => (
+                <Button
+                  key={mood}
+                  variant={moods.includes(mood) ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => toggleMood(mood)}
+                  className="text-xs h-7 capitalize"
+                >
+                  {mood}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Energy per day</Label>
+              <div className="flex gap-1">
+                {ENERGY_BUDGETS.map((budget) => (
+                  <Button
+                    key={budget.value}
+                    variant={
+                      energyBudget === budget.value ? "default" : "outline"
+                    }
+                    size="sm"
+                    onClick={() => setEnergyBudget(budget.value)}
+                    className="text-xs h-7 flex-1 px-1"
+                  >
+                    {budget.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plan-max-cost">Max cost</Label>
+              <Input
+                id="plan-max-cost"
+                type="number"
+                min="0"
+                value={maxCost}
+                onChange={(e) => setMaxCost(e.target.value)}
+                placeholder="No limit"
+                className="h-7"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="plan-must-include">Must include</Label>
+            {mustInclude.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {mustInclude.map((id) => (
+                  <Badge
+                    key={id}
+                    variant="secondary"
+                    className="text-xs cursor-pointer"
+                    onClick={() => toggleMustInclude(id)}
+                  >
+                    {activities.find((a) => a.id === id)?.title ?? id}
+                    <X className="w-3 h-3 ml-1" />
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <Input
+              id="plan-must-include"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search activities..."
+              className="h-8"
+            />
+            {searchResults.map((activity) => (
+              <button
+                key={activity.id}
+                onClick={() => {
+                  toggleMustInclude(activity.id);
+                  setSearch("");
+                }}
+                className="w-full text-left text-sm px-2 py-1 rounded hover:bg-accent"
+              >
+                {activity.title}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Keep free</Label>
+            <div className="space-y-1">
+              {days.map((day) => (
+                <div key={day} className="flex items-center gap-1">
+                  <span className="text-xs w-16">{DAY_LABELS[day]}</span>
+                  {DAY_PERIODS[day].map((period) => (
+                    <Button
+                      key={period}
+                      variant={isBlocked(day, period) ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => toggleBlocked(day, period)}
+                      className="text-xs h-7 px-2 capitalize"
+                    >
+                      {period}
+                    </Button>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {hasForecast
+              ? "Outdoor activities are kept out of bad weather."
+              : "Load the weather to keep outdoor activities out of the rain."}{" "}
+            The plan replaces everything on your weekend; undo brings it back.
+          </p>
+
+          {unplaced && unplaced.length > 0 && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-lg">
+              Could not fit {unplaced.map((a) => a.title).join(", ")}.
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            {unplaced ? (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => runPlan(seed + 1)}
+                  className="flex-1"
+                >
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Regenerate
+                </Button>
+                <Button onClick={onClose} className="flex-1">
+                  <Check className="w-4 h-4 mr-2" />
+                  Done
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="outline" onClick={onClose} className="flex-1">
+                  Cancel
+                </Button>
+                <Button onClick={() => runPlan(seed)} className="flex-1">
+                  <Wand2 className="w-4 h-4 mr-2" />
+                  Plan It
+                </Button>
+              </>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,297 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  X,
+  Tags,
+  Plus,
+  Pencil,
+  Check,
+  ChevronUp,
+  ChevronDown,
+  Merge,
+} from "lucide-react";
+import { ThemeIcon, ThemeIconPicker } from "./ThemeIcon";
+import type { Activity, ActivityCategory, CategoryDraft } from "../../types";
+
+interface CategoryManagerDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  categories: ActivityCategory[];
+  activities: Activity[];
+  onAdd: (draft: CategoryDraft) => void;
+  onUpdate: (categoryId: string, changes: Partial<CategoryDraft>) => void;
+  onReorder: (categoryIds: string[]) => void;
+  onMerge: (sourceId: string, targetId: string) => void;
+}
+
+const emptyDraft: CategoryDraft = {
+  name: "",
+  description: "",
+  icon: "palette",
+  color: "#6b7280",
+};
+
+export const CategoryManagerDialog: React.FC<CategoryManagerDialogProps> = ({
+  isOpen,
+  onClose,
+  categories,
+  activities,
+  onAdd,
+  onUpdate,
+  onReorder,
+  onMerge,
+}) => {
+  // Category being edited ("new" for the add form) and its unsaved fields
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CategoryDraft>(emptyDraft);
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const startEditing = (category: ActivityCategory | null) => {
+    setError(null);
+    setMergingId(null);
+    setEditingId(category?.id ?? "new");
+    setDraft(
+      category
+        ? {
+            name: category.name,
+            description: category.description,
+            icon: category.icon,
+            color: category.color,
+          }
+        : emptyDraft
+    );
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      setError("Please give the category a name");
+      return;
+    }
+    const duplicate = categories.some(
+      (c) =>
+        c.id !== editingId &&
+        c.name.toLowerCase() === draft.name.trim().toLowerCase()
+    );
+    if (duplicate) {
+      setError("A category with that name already exists");
+      return;
+    }
+
+    if (editingId === "new") {
+      onAdd(draft);
+    } else if (editingId) {
+      onUpdate(editingId, draft);
+    }
+    setEditingId(null);
+    setError(null);
+  };
+
+  const move = (index: number, offset: number) => {
+    const ids = categories.map((c) => c.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    onReorder(ids);
+  };
+
+  const handleMerge = (source: ActivityCategory, targetId: string) => {
+    const target = categories.find((c) => c.id === targetId);
+    if (!target) return;
+    const count = activities.filter((a) => a.category.id === source.id).length;
+    if (
+      window.confirm(
+        `Move ${count} ${count === 1 ? "activity" : "activities"} from "${
+          source.name
+        }" into "${target.name}" and remove "${source.name}"?`
+      )
+    ) {
+      onMerge(source.id, target.id);
+      setMergingId(null);
+    }
+  };
+
+  const renderForm = () => (
+    <div className="space-y-3 p-3 rounded-xl border bg-muted/30">
+      <div className="space-y-2">
+        <Label htmlFor="category-name">Name</Label>
+        <Input
+          id="category-name"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Crafts"
+          className="h-8"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="category-description">Description</Label>
+        <Input
+          id="category-description"
+          value={draft.description}
+          onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          placeholder="What belongs here?"
+          className="h-8"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Icon</Label>
+        <ThemeIconPicker
+          value={draft.icon}
+          onChange={(icon) => setDraft({ ...draft, icon })}
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <Label htmlFor="category-color">Colour</Label>
+        <input
+          id="category-color"
+          type="color"
+          value={draft.color}
+          onChange={(e) => setDraft({ ...draft, color: e.target.value })}
+          className="w-7 h-7 rounded cursor-pointer"
+        />
+      </div>
+      {error && (
+        <div className="text-sm text-destructive bg-destructive/10 p-2 rounded-lg">
+          {error}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setEditingId(null)}
+          className="flex-1"
+        >
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} className="flex-1">
+          <Check className="w-4 h-4 mr-1" />
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[9999] flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-white dark:bg-gray-900 rounded-2xl max-h-[80vh] overflow-hidden">
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Tags className="w-5 h-5" />
+              Categories
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-2 overflow-y-auto max-h-[calc(80vh-5rem)]">
+          {categories.map((category, index) =>
+            editingId === category.id ? (
+              <div key={category.id}>{renderForm()}</div>
+            ) : (
+              <div key={category.id} className="p-2 rounded-xl border">
+                <div className="flex items-center gap-2">
+                  <div
+                    className="w-7 h-7 rounded-lg flex items-center justify-center flex-shrink-0"
+                    style={{ backgroundColor: `${category.color}20` }}
+                  >
+                    <ThemeIcon
+                      icon={category.icon}
+                      className="w-4 h-4"
+                      style={{ color: category.color }}
+                    />
+                  </div>
+                  <span className="text-sm font-medium flex-1 truncate">
+                    {category.name}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    title="Move up"
+                    disabled={index === 0}
+                    onClick={() => move(index, -1)}
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    title="Move down"
+                    disabled={index === categories.length - 1}
+                    onClick={() => move(index, 1)}
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    title="Edit category"
+                    onClick={() => startEditing(category)}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    title="Merge into another category"
+                    disabled={categories.length < 2}
+                    onClick={() =>
+                      setMergingId(
+                        mergingId === category.id ? null : category.id
+                      )
+                    }
+                  >
+                    <Merge className="w-4 h-4" />
+                  </Button>
+                </div>
+                {mergingId === category.id && (
+                  <select
+                    defaultValue=""
+                    onChange={(e) => handleMerge(category, e.target.value)}
+                    className="w-full h-8 mt-2 px-2 rounded-md border bg-background text-sm"
+                  >
+                    <option value="" disabled>
+                      Merge into...
+                    </option>
+                    {categories
+                      .filter((c) => c.id !== category.id)
+                      .map((c) => (
+                        <option key={c.id} value={c.id}>
+                          {c.name}
+                        </option>
+                      ))}
+                  </select>
+                )}
+              </div>
+            )
+          )}
+
+          {editingId === "new" ? (
+            renderForm()
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => startEditing(null)}
+              className="w-full"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add category
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,289 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { X, Plus, Save, Trash2 } from "lucide-react";
+import { MOODS } from "../../lib/themePlanner";
+import { validateActivity } from "../../lib/activityValidation";
+import type {
+  Activity,
+  ActivityCategory,
+  ActivityDraft,
+  EnergyLevel,
+  Mood,
+} from "../../types";
+
+interface CustomActivityDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  activity?: Activity | null;
+  categories: ActivityCategory[];
+  onSave: (draft: ActivityDraft, activityId?: string) => void;
+  onDelete?: (activityId: string) => void;
+}
+
+const ENERGY_LEVELS: EnergyLevel[] = ["low", "medium", "high"];
+
+// Empty number inputs leave the optional field unset
+const parseOptional = (value: string) =>
+  value.trim() === "" ? undefined : Number(value);
+
+export const CustomActivityDialog: React.FC<CustomActivityDialogProps> = ({
+  isOpen,
+  onClose,
+  activity,
+  categories,
+  onSave,
+  onDelete,
+}) => {
+  const [title, setTitle] = useState(activity?.title ?? "");
+  const [description, setDescription] = useState(activity?.description ?? "");
+  const [categoryId, setCategoryId] = useState(
+    activity?.category.id ?? categories[0]?.id ?? ""
+  );
+  const [duration, setDuration] = useState(String(activity?.duration ?? 60));
+  const [energyLevel, setEnergyLevel] = useState<EnergyLevel>(
+    activity?.energyLevel ?? "medium"
+  );
+  const [mood, setMood] = useState<Mood[]>(activity?.mood ?? []);
+  const [tags, setTags] = useState(activity?.tags.join(", ") ?? "");
+  const [cost, setCost] = useState(activity?.cost?.toString() ?? "");
+  const [minParticipants, setMinParticipants] = useState(
+    activity?.minParticipants?.toString() ?? ""
+  );
+  const [maxParticipants, setMaxParticipants] = useState(
+    activity?.maxParticipants?.toString() ?? ""
+  );
+  const [weatherDependent, setWeatherDependent] = useState(
+    activity?.weatherDependent ?? false
+  );
+  const [errors, setErrors] = useState<string[]>([]);
+
+  if (!isOpen) return null;
+
+  const toggleMood = (value: Mood) => {
+    setMood((current) =>
+      current.includes(value)
+        ? current.filter((m) => m !== value)
+        : [...current, value]
+    );
+  };
+
+  const handleSave = () => {
+    const category = categories.find((c) => c.id === categoryId);
+    const draft: ActivityDraft = {
+      title: title.trim(),
+      description: description.trim(),
+      category: category as ActivityCategory,
+      duration: Number(duration),
+      energyLevel,
+      mood,
+      weatherDependent,
+      tags: tags
+        .split(",")
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean),
+      location: activity?.location,
+      cost: parseOptional(cost),
+      minParticipants: parseOptional(minParticipants),
+      maxParticipants: parseOptional(maxParticipants),
+    };
+
+    const problems = validateActivity(draft);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    onSave(draft, activity?.id);
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!activity || !onDelete) return;
+    if (window.confirm(`Delete "${activity.title}"?`)) {
+      onDelete(activity.id);
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[9999] flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg bg-white dark:bg-gray-900 rounded-2xl max-h-[85vh] overflow-hidden">
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Plus className="w-5 h-5" />
+              {activity ? "Edit Activity" : "New Activity"}
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-5 overflow-y-auto max-h-[calc(85vh-5rem)]">
+          <div className="space-y-2">
+            <Label htmlFor="activity-title">Title</Label>
+            <Input
+              id="activity-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Pottery class"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="activity-description">Description</Label>
+            <Input
+              id="activity-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What will you be doing?"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="activity-category">Category</Label>
+              <select
+                id="activity-category"
+                value={categoryId}
+                onChange={(e) => setCategoryId(e.target.value)}
+                className="w-full h-9 px-2 rounded-md border bg-background text-sm"
+              >
+                {categories.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="activity-duration">Duration (minutes)</Label>
+              <Input
+                id="activity-duration"
+                type="number"
+                min="15"
+                step="15"
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Energy</Label>
+            <div className="flex gap-1">
+              {ENERGY_LEVELS.map((level) => (
+                <Button
+                  key={level}
+                  variant={energyLevel === level ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setEnergyLevel(level)}
+                  className="text-xs h-7 flex-1 capitalize"
+                >
+                  {level}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Moods</Label>
+            <div className="flex flex-wrap gap-1">
+              {MOODS.map((value) => (
+                <Button
+                  key={value}
+                  variant={mood.includes(value) ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => toggleMood(value)}
+                  className="text-xs h-7 capitalize"
+                >
+                  {value}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="activity-tags">Tags</Label>
+            <Input
+              id="activity-tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="outdoor, family, crafts"
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="activity-cost">Cost</Label>
+              <Input
+                id="activity-cost"
+                type="number"
+                min="0"
+                value={cost}
+                onChange={(e) => setCost(e.target.value)}
+                placeholder="Free"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="activity-min-participants">Min people</Label>
+              <Input
+                id="activity-min-participants"
+                type="number"
+                min="1"
+                value={minParticipants}
+                onChange={(e) => setMinParticipants(e.target.value)}
+                placeholder="Any"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="activity-max-participants">Max people</Label>
+              <Input
+                id="activity-max-participants"
+                type="number"
+                min="1"
+                value={maxParticipants}
+                onChange={(e) => setMaxParticipants(e.target.value)}
+                placeholder="Any"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={weatherDependent}
+              onChange={(e) => setWeatherDependent(e.target.checked)}
+            />
+            Outdoors — depends on the weather
+          </label>
+
+          {errors.length > 0 && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-lg space-y-1">
+              {errors.map((error) => (
+                <p key={error}>{error}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            {activity && onDelete && (
+              <Button variant="outline" onClick={handleDelete}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+            <Button variant="outline" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button onClick={handleSave} className="flex-1">
+              <Save className="w-4 h-4 mr-2" />
+              Save Activity
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,221 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { X, CalendarPlus, Plus, LayoutTemplate, Trash2 } from "lucide-react";
+import {
+  formatDateKey,
+  getUpcomingWeekendDate,
+  getWeekendSaturday,
+  parseDateKey,
+} from "../../lib/timeUtils";
+import {
+  DAY_LABELS,
+  DEFAULT_WEEKEND_DAYS,
+  OPTIONAL_WEEKEND_DAYS,
+  formatWeekendDates,
+  sortWeekendDays,
+} from "../../lib/weekendDays";
+import type { WeekendDay, WeekendTemplate } from "../../types";
+
+interface NewWeekendDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreate: (
+    title: string,
+    days: WeekendDay[],
+    startDate: string,
+    templateId?: string
+  ) => void;
+  templates?: WeekendTemplate[];
+  onDeleteTemplate?: (templateId: string) => void;
+}
+
+export const NewWeekendDialog: React.FC<NewWeekendDialogProps> = ({
+  isOpen,
+  onClose,
+  onCreate,
+  templates = [],
+  onDeleteTemplate,
+}) => {
+  const [title, setTitle] = useState("My Weekend Plan");
+  const [date, setDate] = useState(() =>
+    formatDateKey(getUpcomingWeekendDate("saturday"))
+  );
+  const [days, setDays] = useState<WeekendDay[]>(DEFAULT_WEEKEND_DAYS);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  // A template brings its own days
+  const template = templates.find((t) => t.id === templateId);
+  const weekendDays = template ? template.days : days;
+
+  const startDate = date
+    ? formatDateKey(getWeekendSaturday(parseDateKey(date)))
+    : null;
+
+  const preview = startDate
+    ? formatWeekendDates({ startDate, days: weekendDays })
+    : null;
+
+  const toggleDay = (day: WeekendDay) => {
+    setDays((current) =>
+      current.includes(day)
+        ? current.filter((d) => d !== day)
+        : sortWeekendDays([...current, day])
+    );
+  };
+
+  const selectTemplate = (selected: WeekendTemplate | null) => {
+    setTemplateId(selected?.id ?? null);
+    setTitle(selected ? selected.name : "My Weekend Plan");
+  };
+
+  const countTemplateActivities = (t: WeekendTemplate) =>
+    t.days.reduce((total, day) => total + t[day].length, 0);
+
+  const handleCreate = () => {
+    setError(null);
+
+    if (!title.trim()) {
+      setError("Please give your weekend a name");
+      return;
+    }
+    if (!startDate) {
+      setError("Please pick a date");
+      return;
+    }
+
+    onCreate(title.trim(), weekendDays, startDate, template?.id);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[9999] flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-white dark:bg-gray-900 rounded-2xl max-h-[80vh] overflow-hidden">
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <CalendarPlus className="w-5 h-5" />
+              New Weekend
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-6 overflow-y-auto max-h-[calc(80vh-5rem)]">
+          {templates.length > 0 && (
+            <div className="space-y-2">
+              <Label>Start from</Label>
+              <div className="space-y-2">
+                <Button
+                  variant={template ? "outline" : "default"}
+                  size="sm"
+                  onClick={() => selectTemplate(null)}
+                  className="w-full justify-start text-xs"
+                >
+                  <CalendarPlus className="w-3 h-3 mr-2" />
+                  Blank weekend
+                </Button>
+                {templates.map((t) => (
+                  <div key={t.id} className="flex items-center gap-2">
+                    <Button
+                      variant={t.id === templateId ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => selectTemplate(t)}
+                      className="flex-1 justify-start text-xs min-w-0"
+                    >
+                      <LayoutTemplate className="w-3 h-3 mr-2 flex-shrink-0" />
+                      <span className="truncate">{t.name}</span>
+                      <span className="ml-auto pl-2 opacity-70">
+                        {countTemplateActivities(t)} activities
+                      </span>
+                    </Button>
+                    {onDeleteTemplate && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        title="Delete template"
+                        onClick={() => {
+                          if (t.id === templateId) selectTemplate(null);
+                          onDeleteTemplate(t.id);
+                        }}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="weekend-title">Name</Label>
+            <Input
+              id="weekend-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="My Weekend Plan"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="weekend-date">Which weekend?</Label>
+            <Input
+              id="weekend-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+            />
+            {preview && (
+              <p className="text-xs text-muted-foreground">{preview}</p>
+            )}
+          </div>
+
+          {!template && (
+            <div className="space-y-2">
+              <Label>Long weekend</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {OPTIONAL_WEEKEND_DAYS.map((day) => (
+                  <Button
+                    key={day}
+                    variant={days.includes(day) ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => toggleDay(day)}
+                    className="text-xs"
+                  >
+                    <Plus className="w-3 h-3 mr-1" />
+                    {day === "friday" ? "Friday evening" : DAY_LABELS[day]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} className="flex-1">
+              <CalendarPlus className="w-4 h-4 mr-2" />
+              Create Weekend
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { X, Users, Plus, Trash2 } from "lucide-react";
+import type { Participant } from "../../types";
+
+interface ParticipantsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  participants: Participant[];
+  onAdd: (name: string) => void;
+  onRemove: (participantId: string) => void;
+}
+
+export const ParticipantsDialog: React.FC<ParticipantsDialogProps> = ({
+  isOpen,
+  onClose,
+  participants,
+  onAdd,
+  onRemove,
+}) => {
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleAdd = () => {
+    setError(null);
+
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setError("Please enter a name");
+      return;
+    }
+
+    if (
+      participants.some((p) => p.name.toLowerCase() === trimmed.toLowerCase())
+    ) {
+      setError(`${trimmed} is already going`);
+      return;
+    }
+
+    onAdd(trimmed);
+    setName("");
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[9999] flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-white dark:bg-gray-900 rounded-2xl max-h-[80vh] overflow-hidden">
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              Who's Going
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-6 overflow-y-auto max-h-[calc(80vh-5rem)]">
+          <div className="text-sm text-muted-foreground">
+            Everyone added here goes to every activity unless you pick who is
+            going on the activity itself. Costs are split between them.
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="participantName">Add someone</Label>
+            <div className="flex gap-2">
+              <Input
+                id="participantName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleAdd();
+                }}
+                placeholder="Name"
+              />
+              <Button onClick={handleAdd}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add
+              </Button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {participants.length === 0 ? (
+            <div className="text-sm text-muted-foreground text-center py-4">
+              No one added yet.
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {participants.map((participant) => (
+                <div
+                  key={participant.id}
+                  className="flex items-center justify-between p-2 rounded-lg border"
+                >
+                  <span className="text-sm font-medium">
+                    {participant.name}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onRemove(participant.id)}
+                    title={`Remove ${participant.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { X, LayoutTemplate } from "lucide-react";
+import { DAY_LABELS, getWeekendActivities } from "../../lib/weekendDays";
+import type { WeekendSchedule } from "../../types";
+
+interface SaveTemplateDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  weekend: WeekendSchedule;
+  onSave: (weekend: WeekendSchedule, name: string) => void;
+}
+
+export const SaveTemplateDialog: React.FC<SaveTemplateDialogProps> = ({
+  isOpen,
+  onClose,
+  weekend,
+  onSave,
+}) => {
+  const [name, setName] = useState(weekend.title);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const activityCount = getWeekendActivities(weekend).length;
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      setError("Please give your template a name");
+      return;
+    }
+
+    onSave(weekend, name.trim());
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[9999] flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-white dark:bg-gray-900 rounded-2xl">
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <LayoutTemplate className="w-5 h-5" />
+              Save as Template
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Template name</Label>
+            <Input
+              id="template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSave()}
+              autoFocus
+            />
+            <p className="text-xs text-muted-foreground">
+              Keeps {activityCount}{" "}
+              {activityCount === 1 ? "activity" : "activities"} across{" "}
+              {weekend.days.map((day) => DAY_LABELS[day]).join(", ")} with their
+              times and notes. Completion is not saved.
+            </p>
+          </div>
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button onClick={handleSave} className="flex-1">
+              <LayoutTemplate className="w-4 h-4 mr-2" />
+              Save Template
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
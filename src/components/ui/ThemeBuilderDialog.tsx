@@ -0,0 +1,256 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { X, Palette, Save } from "lucide-react";
+import { ThemeIconPicker } from "./ThemeIcon";
+import { MOODS } from "../../lib/themePlanner";
+import type { Activity, Mood, WeekendTheme } from "../../types";
+
+interface ThemeBuilderDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  theme?: WeekendTheme | null;
+  activities: Activity[];
+  onSave: (
+    theme: Omit<WeekendTheme, "id" | "custom">,
+    themeId?: string
+  ) => void;
+}
+
+const THEME_COLORS = [
+  "#a78bfa",
+  "#10b981",
+  "#f59e0b",
+  "#ec4899",
+  "#3b82f6",
+  "#ef4444",
+  "#14b8a6",
+  "#6b7280",
+];
+
+export const ThemeBuilderDialog: React.FC<ThemeBuilderDialogProps> = ({
+  isOpen,
+  onClose,
+  theme,
+  activities,
+  onSave,
+}) => {
+  const [name, setName] = useState(theme?.name ?? "");
+  const [description, setDescription] = useState(theme?.description ?? "");
+  const [icon, setIcon] = useState(theme?.icon ?? "palette");
+  const [color, setColor] = useState(theme?.color ?? THEME_COLORS[0]);
+  const [moodProfile, setMoodProfile] = useState<Mood[]>(
+    theme?.moodProfile ?? []
+  );
+  const [suggestedActivities, setSuggestedActivities] = useState<string[]>(
+    theme?.suggestedActivities ?? []
+  );
+  const [search, setSearch] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const toggleMood = (mood: Mood) => {
+    setMoodProfile((current) =>
+      current.includes(mood)
+        ? current.filter((m) => m !== mood)
+        : [...current, mood]
+    );
+  };
+
+  const toggleActivity = (activityId: string) => {
+    setSuggestedActivities((current) =>
+      current.includes(activityId)
+        ? current.filter((id) => id !== activityId)
+        : [...current, activityId]
+    );
+  };
+
+  const handleSave = () => {
+    setError(null);
+
+    if (!name.trim()) {
+      setError("Please give your theme a name");
+      return;
+    }
+    if (moodProfile.length === 0) {
+      setError("Please pick at least one mood");
+      return;
+    }
+    if (suggestedActivities.length === 0) {
+      setError("Please pick at least one activity");
+      return;
+    }
+
+    onSave(
+      {
+        name: name.trim(),
+        description: description.trim(),
+        icon,
+        color,
+        moodProfile,
+        suggestedActivities,
+      },
+      theme?.id
+    );
+    onClose();
+  };
+
+  const query = search.trim().toLowerCase();
+  const searchResults = activities
+    .filter(
+      (a) =>
+        !suggestedActivities.includes(a.id) &&
+        (!query ||
+          a.title.toLowerCase().includes(query) ||
+          a.category.name.toLowerCase().includes(query))
+    )
+    .slice(0, 8);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[9999] flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg bg-white dark:bg-gray-900 rounded-2xl max-h-[85vh] overflow-hidden">
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Palette className="w-5 h-5" />
+              {theme ? "Edit Theme" : "New Theme"}
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-5 overflow-y-auto max-h-[calc(85vh-5rem)]">
+          <div className="space-y-2">
+            <Label htmlFor="theme-name">Name</Label>
+            <Input
+              id="theme-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Team Offsite Weekend"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="theme-description">Description</Label>
+            <Input
+              id="theme-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What is this weekend about?"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Icon</Label>
+            <ThemeIconPicker value={icon} onChange={setIcon} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Colour</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              {THEME_COLORS.map((swatch) => (
+                <button
+                  key={swatch}
+                  onClick={() => setColor(swatch)}
+                  className={`w-7 h-7 rounded-full border-2 ${
+                    color === swatch
+                      ? "border-foreground"
+                      : "border-transparent"
+                  }`}
+                  style={{ backgroundColor: swatch }}
+                  title={swatch}
+                />
+              ))}
+              <input
+                type="color"
+                value={color}
+                onChange={(e) => setColor(e.target.value)}
+                className="w-7 h-7 rounded cursor-pointer"
+                title="Custom colour"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Moods</Label>
+            <div className="flex flex-wrap gap-1">
+              {MOODS.map((mood) => (
+                <Button
+                  key={mood}
+                  variant={moodProfile.includes(mood) ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => toggleMood(mood)}
+                  className="text-xs h-7 capitalize"
+                >
+                  {mood}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="theme-activities">Suggested activities</Label>
+            {suggestedActivities.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {suggestedActivities.map((id) => (
+                  <Badge
+                    key={id}
+                    variant="secondary"
+                    className="text-xs cursor-pointer"
+                    onClick={() => toggleActivity(id)}
+                  >
+                    {activities.find((a) => a.id === id)?.title ?? id}
+                    <X className="w-3 h-3 ml-1" />
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <Input
+              id="theme-activities"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search activities or categories..."
+              className="h-8"
+            />
+            <div className="space-y-1">
+              {searchResults.map((activity) => (
+                <button
+                  key={activity.id}
+                  onClick={() => toggleActivity(activity.id)}
+                  className="w-full flex items-center justify-between text-left text-sm px-2 py-1 rounded hover:bg-accent"
+                >
+                  <span>{activity.title}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {activity.category.name}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button onClick={handleSave} className="flex-1">
+              <Save className="w-4 h-4 mr-2" />
+              Save Theme
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React from "react";
+import {
+  Bed,
+  Book,
+  CircleCheck,
+  Coffee,
+  Film,
+  Heart,
+  HeartHandshake,
+  Home,
+  Mountain,
+  Music,
+  Palette,
+  Sun,
+  Tent,
+  Users,
+  Utensils,
+  type LucideIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+// Icons a theme or category can use, keyed by the name stored on it
+const THEME_ICONS: Record<string, LucideIcon> = {
+  bed: Bed,
+  mountain: Mountain,
+  "heart-handshake": HeartHandshake,
+  heart: Heart,
+  "check-circle": CircleCheck,
+  users: Users,
+  palette: Palette,
+  music: Music,
+  coffee: Coffee,
+  sun: Sun,
+  tent: Tent,
+  utensils: Utensils,
+  film: Film,
+  book: Book,
+  home: Home,
+};
+
+interface ThemeIconProps {
+  icon: string;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+export const ThemeIcon: React.FC<ThemeIconProps> = ({
+  icon,
+  className,
+  style,
+}) => {
+  const Icon = THEME_ICONS[icon] ?? Palette;
+  return <Icon className={className} style={style} />;
+};
+
+interface ThemeIconPickerProps {
+  value: string;
+  onChange: (icon: string) => void;
+}
+
+export const ThemeIconPicker: React.FC<ThemeIconPickerProps> = ({
+  value,
+  onChange,
+}) => (
+  <div className="flex flex-wrap gap-1">
+    {Object.keys(THEME_ICONS).map((icon) => (
+      <Button
+        key={icon}
+        variant={value === icon ? "default" : "outline"}
+        size="sm"
+        onClick={() => onChange(icon)}
+        className="h-8 w-8 p-0"
+        title={icon}
+      >
+        <ThemeIcon icon={icon} className="w-4 h-4" />
+      </Button>
+    ))}
+  </div>
+);
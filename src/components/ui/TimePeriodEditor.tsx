@@ -5,29 +5,49 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { X, Clock, Save } from "lucide-react";
 import { formatTo12Hour } from "../../lib/timeUtils";
-import type { TimePeriod } from "../../types";
+import {
+  validateWeekendTimePeriods,
+  withTimePeriod,
+  type WeekendTimePeriods,
+} from "../../lib/timePeriods";
+import { DAY_LABELS } from "../../lib/weekendDays";
+import type { TimePeriod, WeekendDay } from "../../types";
 
 interface TimePeriodEditorProps {
   isOpen: boolean;
   onClose: () => void;
+  day: WeekendDay;
   period: TimePeriod;
   label: string;
   currentStartTime: string;
   currentEndTime: string;
-  onSave: (period: TimePeriod, startTime: string, endTime: string) => void;
+  settings: WeekendTimePeriods;
+  onSave: (
+    period: TimePeriod,
+    startTime: string,
+    endTime: string,
+    day?: WeekendDay
+  ) => void;
+  onResetDay?: (day: WeekendDay) => void;
 }
 
 export const TimePeriodEditor: React.FC<TimePeriodEditorProps> = ({
   isOpen,
   onClose,
+  day,
   period,
   label,
   currentStartTime,
   currentEndTime,
+  settings,
   onSave,
+  onResetDay,
 }) => {
+  const hasOwnPeriods = !!settings.dayTimePeriods[day];
   const [startTime, setStartTime] = useState(currentStartTime);
   const [endTime, setEndTime] = useState(currentEndTime);
+  // Days that already have their own times are edited on their own
+  const [onlyThisDay, setOnlyThisDay] = useState(hasOwnPeriods);
   const [error, setError] = useState<string | null>(null);
 
   if (!isOpen) return null;
@@ -62,7 +82,22 @@ export const TimePeriodEditor: React.FC<TimePeriodEditorProps> = ({
       return;
     }
 
-    onSave(period, startTime, endTime);
+    // Validate against the other periods of every affected day
+    const scope = onlyThisDay ? day : undefined;
+    const [overlap] = validateWeekendTimePeriods(
+      withTimePeriod(
+        settings,
+        period,
+        { start: startTime, end: endTime },
+        scope
+      )
+    );
+    if (overlap) {
+      setError(overlap);
+      return;
+    }
+
+    onSave(period, startTime, endTime, scope);
     onClose();
   };
 
@@ -92,6 +127,36 @@ export const TimePeriodEditor: React.FC<TimePeriodEditorProps> = ({
             Customize the time range for the {label.toLowerCase()} period.
           </div>
 
+          <div className="space-y-2">
+            <Label>Apply to</Label>
+            <div className="flex gap-1">
+              <Button
+                variant={onlyThisDay ? "outline" : "default"}
+                size="sm"
+                onClick={() => setOnlyThisDay(false)}
+                className="text-xs h-7 flex-1"
+              >
+                Every day
+              </Button>
+              <Button
+                variant={onlyThisDay ? "default" : "outline"}
+                size="sm"
+                onClick={() => setOnlyThisDay(true)}
+                className="text-xs h-7 flex-1"
+              >
+                Only {DAY_LABELS[day]}
+              </Button>
+            </div>
+            {hasOwnPeriods && onResetDay && (
+              <button
+                onClick={() => onResetDay(day)}
+                className="text-xs text-muted-foreground underline"
+              >
+                Use the same times as the other days on {DAY_LABELS[day]}
+              </button>
+            )}
+          </div>
+
           <div className="space-y-4">
             <div className="space-y-2">
               <Label htmlFor="startTime">Start Time</Label>
@@ -139,7 +204,8 @@ export const TimePeriodEditor: React.FC<TimePeriodEditorProps> = ({
           <div className="text-xs text-muted-foreground bg-muted p-3 rounded-lg">
             <strong>Preview:</strong> {label} will be from{" "}
             <span className="font-medium">{formatTo12Hour(startTime)}</span> to{" "}
-            <span className="font-medium">{formatTo12Hour(endTime)}</span>
+            <span className="font-medium">{formatTo12Hour(endTime)}</span>.
+            Activities already planned in it move with its start time.
           </div>
 
           <div className="flex gap-2">
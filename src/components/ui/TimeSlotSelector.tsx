@@ -4,23 +4,29 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { X, Clock } from "lucide-react";
 import { getTimePeriodInfo } from "../../lib/timeUtils";
+import { DAY_LABELS, DAY_PERIODS } from "../../lib/weekendDays";
+import { getDayTimePeriods } from "../../lib/timePeriods";
 import { useUserStore } from "../../stores/userStore";
 import type { Activity, WeekendDay, TimePeriod } from "../../types";
 
 interface TimeSlotSelectorProps {
   activity: Activity;
+  days: WeekendDay[];
   isOpen: boolean;
   onClose: () => void;
   onSelectTimeSlot: (day: WeekendDay, period: TimePeriod) => void;
 }
 
-const DAYS: { day: WeekendDay; label: string; color: string }[] = [
-  { day: "saturday", label: "Saturday", color: "bg-blue-500" },
-  { day: "sunday", label: "Sunday", color: "bg-purple-500" },
-];
+const DAY_COLORS: Record<WeekendDay, string> = {
+  friday: "bg-teal-500",
+  saturday: "bg-blue-500",
+  sunday: "bg-purple-500",
+  monday: "bg-orange-500",
+};
 
 export const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({
   activity,
+  days,
   isOpen,
   onClose,
   onSelectTimeSlot,
@@ -29,27 +35,14 @@ export const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({
 
   if (!isOpen) return null;
 
-  // Create TIME_PERIODS dynamically using user preferences
-  const TIME_PERIODS: {
-    period: TimePeriod;
-    label: string;
-    time: string;
-    icon: string;
-  }[] = [
-    {
-      period: "morning",
-      ...getTimePeriodInfo("morning", preferences.timePeriods),
-    },
-    {
-      period: "afternoon",
-      ...getTimePeriodInfo("afternoon", preferences.timePeriods),
-    },
-    {
-      period: "evening",
-      ...getTimePeriodInfo("evening", preferences.timePeriods),
-    },
-    { period: "night", ...getTimePeriodInfo("night", preferences.timePeriods) },
-  ];
+  // Build each day's periods from its own times in the user preferences
+  const getPeriodsForDay = (
+    day: WeekendDay
+  ): { period: TimePeriod; label: string; time: string; icon: string }[] =>
+    DAY_PERIODS[day].map((period) => ({
+      period,
+      ...getTimePeriodInfo(period, getDayTimePeriods(preferences, day)),
+    }));
 
   const formatDuration = (minutes: number) => {
     const hours = Math.floor(minutes / 60);
@@ -97,14 +90,14 @@ export const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({
             Choose when you'd like to schedule this activity:
           </p>
 
-          {DAYS.map(({ day, label, color }) => (
+          {days.map((day) => (
             <div key={day} className="space-y-2">
               <h5 className="font-medium text-sm flex items-center gap-2">
-                <div className={`w-3 h-3 rounded-full ${color}`} />
-                {label}
+                <div className={`w-3 h-3 rounded-full ${DAY_COLORS[day]}`} />
+                {DAY_LABELS[day]}
               </h5>
               <div className="grid grid-cols-1 gap-2 ml-5">
-                {TIME_PERIODS.map(
+                {getPeriodsForDay(day).map(
                   ({ period, label: periodLabel, time, icon }) => (
                     <Button
                       key={`${day}-${period}`}
@@ -0,0 +1,203 @@
+/**
+ * Utility functions for filtering the activity catalog and sharing filter
+ * presets
+ */
+
+import { getSearchIndex, searchActivities } from "./activitySearch";
+import { fitsGroupSize } from "./participants";
+import type { Activity, FilterPreset, FilterState } from "../types";
+
+/**
+ * Filters that let every activity through
+ */
+export const DEFAULT_FILTERS: FilterState = {
+  categories: [],
+  moods: [],
+  energyLevels: [],
+  duration: { min: 0, max: 480 }, // 8 hours max
+  weatherDependent: undefined,
+  tags: [],
+};
+
+// Marks exported presets so other JSON is not mistaken for one
+const PRESET_EXPORT_TYPE = "weekendly-filter-preset";
+
+/**
+ * Checks one activity against the filters, ignoring the search term
+ * @param activity - The activity to check
+ * @param filters - The active filters
+ * @returns Whether the activity passes every filter
+ */
+export function matchesFilters(
+  activity: Activity,
+  filters: FilterState
+): boolean {
+  if (
+    filters.categories.length > 0 &&
+    !filters.categories.includes(activity.category.id)
+  ) {
+    return false;
+  }
+
+  if (
+    filters.moods.length > 0 &&
+    !filters.moods.some((mood) => activity.mood.includes(mood))
+  ) {
+    return false;
+  }
+
+  if (
+    filters.energyLevels.length > 0 &&
+    !filters.energyLevels.includes(activity.energyLevel)
+  ) {
+    return false;
+  }
+
+  if (
+    activity.duration < filters.duration.min ||
+    activity.duration > filters.duration.max
+  ) {
+    return false;
+  }
+
+  if (
+    filters.weatherDependent !== undefined &&
+    activity.weatherDependent !== filters.weatherDependent
+  ) {
+    return false;
+  }
+
+  if (
+    filters.tags.length > 0 &&
+    !filters.tags.some((tag) => activity.tags.includes(tag))
+  ) {
+    return false;
+  }
+
+  // Activities without a price are free
+  const cost = activity.cost ?? 0;
+  if (
+    filters.cost &&
+    (cost < filters.cost.min ||
+      (filters.cost.max !== undefined && cost > filters.cost.max))
+  ) {
+    return false;
+  }
+
+  if (filters.freeOnly && cost > 0) {
+    return false;
+  }
+
+  if (!fitsGroupSize(activity, filters.groupSize)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Searches and filters the catalog
+ * @param activities - The catalog
+ * @param filters - The active filters
+ * @param searchTerm - The search box query, may be empty
+ * @returns Matching activities, most relevant first when searching
+ */
+export function filterActivities(
+  activities: Activity[],
+  filters: FilterState,
+  searchTerm: string
+): Activity[] {
+  const matches = searchTerm
+    ? searchActivities(getSearchIndex(activities), searchTerm)
+    : activities;
+  return matches.filter((activity) => matchesFilters(activity, filters));
+}
+
+/**
+ * Builds the cost filter from a typed-in price range
+ * @param min - Lowest price, blank for none
+ * @param max - Highest price, blank for no limit
+ * @returns The cost filter, or undefined when it lets everything through
+ */
+export function toCostFilter(min: string, max: string): FilterState["cost"] {
+  const low = parseFloat(min);
+  const high = parseFloat(max);
+  const cost = {
+    min: Number.isNaN(low) ? 0 : Math.max(0, low),
+    max: Number.isNaN(high) ? undefined : Math.max(0, high),
+  };
+  return cost.min === 0 && cost.max === undefined ? undefined : cost;
+}
+
+/**
+ * Counts the filters the user has turned on
+ * @param filters - The active filters
+ * @param searchTerm - The search box query, counted as one filter
+ * @returns Number of active filters, 0 when browsing everything
+ */
+export function countActiveFilters(
+  filters: FilterState,
+  searchTerm: string
+): number {
+  const durationChanged =
+    filters.duration.min !== DEFAULT_FILTERS.duration.min ||
+    filters.duration.max !== DEFAULT_FILTERS.duration.max;
+
+  return (
+    filters.categories.length +
+    filters.moods.length +
+    filters.energyLevels.length +
+    filters.tags.length +
+    (durationChanged ? 1 : 0) +
+    (filters.weatherDependent !== undefined ? 1 : 0) +
+    (filters.cost ? 1 : 0) +
+    (filters.freeOnly ? 1 : 0) +
+    (filters.groupSize !== undefined ? 1 : 0) +
+    (searchTerm ? 1 : 0)
+  );
+}
+
+/**
+ * Turns a preset into text that can be shared and imported elsewhere
+ * @param preset - The preset to share
+ * @returns JSON without the local id
+ */
+export function serializeFilterPreset(preset: FilterPreset): string {
+  const { name, filters, searchTerm } = preset;
+  return JSON.stringify({
+    type: PRESET_EXPORT_TYPE,
+    preset: { name, filters, searchTerm },
+  });
+}
+
+/**
+ * Reads a shared preset, filling in filters it predates
+ * @param data - Text from serializeFilterPreset
+ * @returns The preset's name, filters and search term
+ * @throws If the text is not a shared preset
+ */
+export function parseFilterPreset(
+  data: string
+): Pick<FilterPreset, "name" | "filters" | "searchTerm"> {
+  let parsed;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    throw new Error("That is not a shared filter preset");
+  }
+
+  const preset = parsed?.preset;
+  if (
+    parsed?.type !== PRESET_EXPORT_TYPE ||
+    typeof preset?.name !== "string" ||
+    !preset.name.trim()
+  ) {
+    throw new Error("That is not a shared filter preset");
+  }
+
+  return {
+    name: preset.name.trim(),
+    filters: { ...DEFAULT_FILTERS, ...preset.filters },
+    searchTerm: typeof preset.searchTerm === "string" ? preset.searchTerm : "",
+  };
+}
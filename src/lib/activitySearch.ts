@@ -0,0 +1,309 @@
+/**
+ * Utility functions for ranked, typo-tolerant activity search
+ */
+
+import type { Activity } from "../types";
+
+type SearchField = "title" | "tags" | "description";
+
+// Title matches count most, then tags, then the description
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  tags: 2,
+  description: 1,
+};
+
+// How well a query word matches a single indexed word
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.75;
+const SUBSTRING_MATCH = 0.4;
+const TYPO_MATCH = 0.5;
+
+type Comparison = "<" | "<=" | ">" | ">=" | "=";
+
+type FieldFilter =
+  | { field: "tag" | "category" | "mood" | "energy"; value: string }
+  | { field: "cost" | "duration"; comparison: Comparison; value: number };
+
+export interface SearchQuery {
+  terms: string[];
+  filters: FieldFilter[];
+}
+
+interface SearchEntry {
+  activity: Activity;
+  words: Record<SearchField, string[]>;
+}
+
+export interface SearchIndex {
+  entries: SearchEntry[];
+}
+
+const TEXT_PREFIXES = ["tag", "category", "mood", "energy"] as const;
+const NUMBER_PREFIXES = ["cost", "duration"] as const;
+
+/**
+ * Lower-cases text, strips accents and splits it into words
+ * @param text - Text to split
+ * @returns The words, without punctuation
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Splits a search box query into words and field prefixes such as
+ * `tag:outdoor`, `cost:<30` or `duration:>=60`. Prefixes that cannot be read
+ * are searched for as plain words.
+ * @param query - The raw query
+ * @returns Words that must all match, and the field filters
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+  const terms: string[] = [];
+  const filters: FieldFilter[] = [];
+
+  query
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((part) => {
+      const [, prefix, rest] = part.toLowerCase().match(/^(\w+):(.+)$/) ?? [];
+
+      if (TEXT_PREFIXES.includes(prefix as (typeof TEXT_PREFIXES)[number])) {
+        const value = tokenize(rest).join(" ");
+        if (value) {
+          filters.push({
+            field: prefix as (typeof TEXT_PREFIXES)[number],
+            value,
+          });
+          return;
+        }
+      }
+
+      if (
+        NUMBER_PREFIXES.includes(prefix as (typeof NUMBER_PREFIXES)[number])
+      ) {
+        const [, comparison = "=", amount] =
+          rest.match(/^(<=|>=|<|>|=)?(\d+(?:\.\d+)?)$/) ?? [];
+        if (amount !== undefined) {
+          filters.push({
+            field: prefix as (typeof NUMBER_PREFIXES)[number],
+            comparison: comparison as Comparison,
+            value: Number(amount),
+          });
+          return;
+        }
+      }
+
+      terms.push(...tokenize(part));
+    });
+
+  return { terms, filters };
+}
+
+/**
+ * Pre-splits every activity into searchable words
+ * @param activities - The catalog to index
+ * @returns Index to pass to searchActivities
+ */
+export function buildSearchIndex(activities: Activity[]): SearchIndex {
+  return {
+    entries: activities.map((activity) => ({
+      activity,
+      words: {
+        title: tokenize(activity.title),
+        tags: activity.tags.flatMap(tokenize),
+        description: tokenize(activity.description),
+      },
+    })),
+  };
+}
+
+// Indexes are rebuilt only when the activities array itself changes
+const indexCache = new WeakMap<Activity[], SearchIndex>();
+
+/**
+ * Gets the search index for a list of activities, building it on first use
+ * @param activities - The catalog to index
+ * @returns The cached index
+ */
+export function getSearchIndex(activities: Activity[]): SearchIndex {
+  let index = indexCache.get(activities);
+  if (!index) {
+    index = buildSearchIndex(activities);
+    indexCache.set(activities, index);
+  }
+  return index;
+}
+
+/**
+ * Counts the edits (insertions, deletions, substitutions and swaps of
+ * neighbouring letters) needed to turn one word into another
+ * @param a - First word
+ * @param b - Second word
+ * @returns The edit distance
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0
+    )
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+}
+
+// Short words must be spelled right; longer ones may have a typo or two
+const allowedTypos = (term: string) =>
+  term.length < 4 ? 0 : term.length < 8 ? 1 : 2;
+
+/**
+ * Scores how well a query word matches one indexed word
+ * @param term - The query word
+ * @param word - The indexed word
+ * @returns 0 for no match, up to 1 for an exact match
+ */
+function scoreWord(term: string, word: string): number {
+  if (word === term) return EXACT_MATCH;
+  if (word.startsWith(term)) return PREFIX_MATCH;
+  if (term.length >= 3 && word.includes(term)) return SUBSTRING_MATCH;
+
+  const typos = allowedTypos(term);
+  if (typos === 0) return 0;
+  // Compare against the same-length start of the word too, so typos are
+  // forgiven while the user is still typing
+  const distance = Math.min(
+    editDistance(term, word),
+    editDistance(term, word.slice(0, term.length))
+  );
+  return distance <= typos ? TYPO_MATCH / distance : 0;
+}
+
+/**
+ * Scores a query word against every field of an activity
+ * @param term - The query word
+ * @param entry - The indexed activity
+ * @returns The best weighted score, 0 when no field matches
+ */
+function scoreTerm(term: string, entry: SearchEntry): number {
+  return (Object.keys(FIELD_WEIGHTS) as SearchField[]).reduce(
+    (best, field) =>
+      Math.max(
+        best,
+        ...entry.words[field].map(
+          (word) => scoreWord(term, word) * FIELD_WEIGHTS[field]
+        )
+      ),
+    0
+  );
+}
+
+const compare = (actual: number, comparison: Comparison, value: number) => {
+  switch (comparison) {
+    case "<":
+      return actual < value;
+    case "<=":
+      return actual <= value;
+    case ">":
+      return actual > value;
+    case ">=":
+      return actual >= value;
+    default:
+      return actual === value;
+  }
+};
+
+/**
+ * Checks an activity against one field prefix
+ * @param filter - The parsed prefix
+ * @param entry - The indexed activity
+ * @returns The match score for text prefixes, 0 when it does not match
+ */
+function scoreFilter(filter: FieldFilter, entry: SearchEntry): number {
+  const { activity } = entry;
+
+  switch (filter.field) {
+    case "tag":
+      // Every word of the tag has to match
+      return Math.min(
+        ...filter.value
+          .split(" ")
+          .map((term) =>
+            Math.max(0, ...entry.words.tags.map((w) => scoreWord(term, w)))
+          )
+      );
+    case "category":
+      return activity.category.id.toLowerCase().startsWith(filter.value) ||
+        tokenize(activity.category.name).join(" ").startsWith(filter.value)
+        ? EXACT_MATCH
+        : 0;
+    case "mood":
+      return activity.mood.some((mood) => mood.startsWith(filter.value))
+        ? EXACT_MATCH
+        : 0;
+    case "energy":
+      return activity.energyLevel.startsWith(filter.value) ? EXACT_MATCH : 0;
+    case "cost":
+      // Activities without a price are free
+      return compare(activity.cost ?? 0, filter.comparison, filter.value)
+        ? EXACT_MATCH
+        : 0;
+    case "duration":
+      return compare(activity.duration, filter.comparison, filter.value)
+        ? EXACT_MATCH
+        : 0;
+  }
+}
+
+/**
+ * Finds the activities matching every word and prefix of a query
+ * @param index - Index built from the catalog
+ * @param query - The raw query, e.g. `hike tag:outdoor cost:<30`
+ * @returns Matching activities, most relevant first; ties keep catalog order
+ */
+export function searchActivities(
+  index: SearchIndex,
+  query: string
+): Activity[] {
+  const { terms, filters } = parseSearchQuery(query);
+  if (terms.length === 0 && filters.length === 0) {
+    return index.entries.map((entry) => entry.activity);
+  }
+
+  const results: { activity: Activity; score: number; order: number }[] = [];
+  index.entries.forEach((entry, order) => {
+    const scores = [
+      ...terms.map((term) => scoreTerm(term, entry)),
+      ...filters.map((filter) => scoreFilter(filter, entry)),
+    ];
+    if (scores.includes(0)) return;
+    results.push({
+      activity: entry.activity,
+      score: scores.reduce((total, score) => total + score, 0),
+      order,
+    });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map(({ activity }) => activity);
+}
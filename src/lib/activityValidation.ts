@@ -0,0 +1,69 @@
+/**
+ * Validation rules for user-defined activities
+ */
+
+import type { ActivityDraft } from "../types";
+
+export const MAX_TITLE_LENGTH = 80;
+export const MIN_ACTIVITY_DURATION = 15;
+export const MAX_ACTIVITY_DURATION = 12 * 60;
+
+/**
+ * Checks a custom activity before it is saved
+ * @param draft - The activity as filled in by the user
+ * @returns Problems to fix, empty when the activity is valid
+ */
+export function validateActivity(draft: ActivityDraft): string[] {
+  const errors: string[] = [];
+
+  if (!draft.title.trim()) {
+    errors.push("Please give the activity a title");
+  } else if (draft.title.trim().length > MAX_TITLE_LENGTH) {
+    errors.push(`Titles can be at most ${MAX_TITLE_LENGTH} characters`);
+  }
+
+  if (!draft.category?.id) {
+    errors.push("Please pick a category");
+  }
+
+  if (
+    !Number.isInteger(draft.duration) ||
+    draft.duration < MIN_ACTIVITY_DURATION ||
+    draft.duration > MAX_ACTIVITY_DURATION
+  ) {
+    errors.push(
+      `Duration must be between ${MIN_ACTIVITY_DURATION} minutes and ${
+        MAX_ACTIVITY_DURATION / 60
+      } hours`
+    );
+  }
+
+  if (draft.mood.length === 0) {
+    errors.push("Please pick at least one mood");
+  }
+
+  if (draft.cost !== undefined && !(draft.cost >= 0)) {
+    errors.push("Cost cannot be negative");
+  }
+
+  const { minParticipants, maxParticipants } = draft;
+  if (
+    minParticipants !== undefined &&
+    (!Number.isInteger(minParticipants) || minParticipants < 1)
+  ) {
+    errors.push("Minimum participants must be at least 1");
+  }
+  if (
+    maxParticipants !== undefined &&
+    (!Number.isInteger(maxParticipants) ||
+      maxParticipants < (minParticipants ?? 1))
+  ) {
+    errors.push("Maximum participants cannot be below the minimum");
+  }
+
+  if (draft.tags.some((tag) => !tag.trim())) {
+    errors.push("Tags cannot be empty");
+  }
+
+  return errors;
+}
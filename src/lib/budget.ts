@@ -0,0 +1,78 @@
+/**
+ * Utility functions for totalling what a weekend costs
+ */
+
+import { getActivityParticipants } from "./participants";
+import { getWeekendActivities } from "./weekendDays";
+import type { Participant, ScheduledActivity, WeekendSchedule } from "../types";
+
+/**
+ * Totals the cost of some scheduled activities
+ * @param activities - Scheduled activities, e.g. one day's
+ * @returns The total; activities without a price count as free
+ */
+export function getTotalCost(activities: ScheduledActivity[]): number {
+  return activities.reduce((total, sa) => total + (sa.activity.cost ?? 0), 0);
+}
+
+/**
+ * Totals the cost of every activity planned over the weekend
+ * @param weekend - The weekend schedule
+ * @returns The weekend's spend
+ */
+export function getWeekendCost(weekend: WeekendSchedule): number {
+  return getTotalCost(getWeekendActivities(weekend));
+}
+
+/**
+ * Splits a cost between the people going
+ * @param total - The cost to split
+ * @param groupSize - Number of people, unset when not known
+ * @returns Each person's share, or undefined without a group size
+ */
+export function getPerPersonCost(
+  total: number,
+  groupSize?: number
+): number | undefined {
+  return groupSize && groupSize > 0 ? total / groupSize : undefined;
+}
+
+/**
+ * Splits each activity's cost between the people going to it
+ * @param activities - Scheduled activities, e.g. one day's
+ * @param participants - Everyone going on the weekend
+ * @returns What each participant pays, by participant id
+ */
+export function getParticipantCosts(
+  activities: ScheduledActivity[],
+  participants: Participant[]
+): Record<string, number> {
+  const costs: Record<string, number> = Object.fromEntries(
+    participants.map((p) => [p.id, 0])
+  );
+  activities.forEach((sa) => {
+    const going = getActivityParticipants(participants, sa);
+    going.forEach((p) => {
+      costs[p.id] += (sa.activity.cost ?? 0) / going.length;
+    });
+  });
+  return costs;
+}
+
+/**
+ * Formats an amount for display
+ * @param amount - The amount
+ * @returns Whole amounts as they are, others with two decimals
+ */
+export function formatAmount(amount: number): string {
+  return Number.isInteger(amount) ? `${amount}` : amount.toFixed(2);
+}
+
+/**
+ * Formats what something costs for display
+ * @param amount - The cost
+ * @returns "Free" for nothing, otherwise the formatted amount
+ */
+export function formatCost(amount: number): string {
+  return amount === 0 ? "Free" : formatAmount(amount);
+}
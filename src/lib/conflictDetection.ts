@@ -0,0 +1,628 @@
+/**
+ * Conflict detection rules for scheduled activities
+ */
+
+import { getWeekendDayDate, timeToMinutes } from "./timeUtils";
+import { formatAmount, getTotalCost } from "./budget";
+import { getWeekendActivities } from "./weekendDays";
+import { getActivityParticipants } from "./participants";
+import { getDayTimePeriods, type WeekendTimePeriods } from "./timePeriods";
+import { weatherService, type WeatherData } from "../services/weatherService";
+import type {
+  Conflict,
+  GeoCoordinates,
+  Participant,
+  ScheduledActivity,
+  TimePeriod,
+  TimePeriodSettings,
+  TravelSettings,
+  WeekendDay,
+  WeekendSchedule,
+} from "../types";
+
+const capitalize = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours > 0) return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+  return `${mins}m`;
+};
+
+const listTitles = (activities: ScheduledActivity[]) => {
+  const titles = activities.map((sa) => sa.activity.title);
+  return titles.length > 1
+    ? `${titles.slice(0, -1).join(", ")} and ${titles[titles.length - 1]}`
+    : titles[0];
+};
+
+/**
+ * Maps how much of something went wrong to a conflict severity
+ * @param ratio - Share of the affected time (0-1 and beyond)
+ * @returns "high" from one half, "medium" from one fifth, otherwise "low"
+ */
+export function getSeverityForRatio(ratio: number): Conflict["severity"] {
+  if (ratio >= 0.5) return "high";
+  if (ratio >= 0.2) return "medium";
+  return "low";
+}
+
+/**
+ * Gets how many minutes two scheduled activities share
+ * @param first - A scheduled activity
+ * @param second - Another scheduled activity on the same day
+ * @returns Overlapping minutes, 0 if they do not overlap
+ */
+export function getOverlapMinutes(
+  first: ScheduledActivity,
+  second: ScheduledActivity
+): number {
+  const start = Math.max(
+    timeToMinutes(first.startTime),
+    timeToMinutes(second.startTime)
+  );
+  const end = Math.min(
+    timeToMinutes(first.endTime),
+    timeToMinutes(second.endTime)
+  );
+  return Math.max(0, end - start);
+}
+
+/**
+ * Finds activities on the same day whose time ranges overlap. Severity grows
+ * with the share of the shorter activity that is double-booked.
+ * @param activities - Scheduled activities of a single day
+ * @returns One time_overlap conflict per overlapping pair
+ */
+export function detectTimeOverlaps(
+  activities: ScheduledActivity[]
+): Conflict[] {
+  const conflicts: Conflict[] = [];
+
+  for (let i = 0; i < activities.length; i++) {
+    for (let j = i + 1; j < activities.length; j++) {
+      const first = activities[i];
+      const second = activities[j];
+      const overlap = getOverlapMinutes(first, second);
+      if (overlap === 0) continue;
+
+      const shorter = Math.min(
+        timeToMinutes(first.endTime) - timeToMinutes(first.startTime),
+        timeToMinutes(second.endTime) - timeToMinutes(second.startTime)
+      );
+
+      conflicts.push({
+        id: `time_overlap-${first.id}-${second.id}`,
+        type: "time_overlap",
+        activities: [first, second],
+        message: `Time conflict: ${first.activity.title} and ${
+          second.activity.title
+        } overlap by ${formatMinutes(overlap)}`,
+        severity: getSeverityForRatio(overlap / Math.max(shorter, 1)),
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Finds periods whose activities add up to more time than the period has,
+ * and activities starting before or running past their period.
+ * Severity grows with how far the period is overbooked.
+ * @param day - The day the activities belong to
+ * @param activities - Scheduled activities of that day
+ * @param timePeriods - The user's period boundaries
+ * @returns period_overflow conflicts, at most one early and one overbooked or
+ * late per period
+ */
+export function detectPeriodOverflows(
+  day: WeekendDay,
+  activities: ScheduledActivity[],
+  timePeriods: TimePeriodSettings
+): Conflict[] {
+  const conflicts: Conflict[] = [];
+
+  (Object.keys(timePeriods) as TimePeriod[]).forEach((period) => {
+    const periodActivities = activities.filter(
+      (sa) => sa.timeSlot.period === period
+    );
+    if (periodActivities.length === 0) return;
+
+    const { start, end } = timePeriods[period];
+    const available = timeToMinutes(end) - timeToMinutes(start);
+    const planned = periodActivities.reduce(
+      (total, sa) => total + sa.activity.duration,
+      0
+    );
+    const where = `${capitalize(day)} ${period}`;
+
+    // Activities set to start before the period belong to an earlier one
+    const early = periodActivities.filter(
+      (sa) => timeToMinutes(sa.startTime) < timeToMinutes(start)
+    );
+    if (early.length > 0) {
+      const lead =
+        timeToMinutes(start) -
+        Math.min(...early.map((sa) => timeToMinutes(sa.startTime)));
+      conflicts.push({
+        id: `period_overflow-${day}-${period}-early`,
+        type: "period_overflow",
+        activities: early,
+        message: `${listTitles(early)} ${
+          early.length === 1 ? "starts" : "start"
+        } ${formatMinutes(lead)} before ${where} begins`,
+        severity: getSeverityForRatio(lead / Math.max(available, 1)),
+      });
+    }
+
+    if (planned > available) {
+      const excess = planned - available;
+      conflicts.push({
+        id: `period_overflow-${day}-${period}`,
+        type: "period_overflow",
+        activities: periodActivities,
+        message: `${where} is overbooked: ${formatMinutes(
+          planned
+        )} planned in ${formatMinutes(available)}, ${formatMinutes(
+          excess
+        )} over`,
+        severity: getSeverityForRatio(excess / Math.max(available, 1)),
+      });
+      return;
+    }
+
+    // Activities started late can still run past the end, e.g. past midnight
+    const late = periodActivities.filter(
+      (sa) => timeToMinutes(sa.endTime) > timeToMinutes(end)
+    );
+    if (late.length === 0) return;
+
+    const excess =
+      Math.max(...late.map((sa) => timeToMinutes(sa.endTime))) -
+      timeToMinutes(end);
+    conflicts.push({
+      id: `period_overflow-${day}-${period}`,
+      type: "period_overflow",
+      activities: late,
+      message: `${listTitles(late)} ${
+        late.length === 1 ? "runs" : "run"
+      } ${formatMinutes(excess)} past the end of ${where}`,
+      severity: getSeverityForRatio(excess / Math.max(available, 1)),
+    });
+  });
+
+  return conflicts;
+}
+
+// Activities separated by at least this long count as having a rest between
+const REST_GAP_MINUTES = 60;
+const MAX_HIGH_ENERGY_STREAK = 3;
+
+/**
+ * Looks at how energy levels follow each other through a day and warns about
+ * streaks of high-energy activities without a rest, high-energy activities at
+ * night and days without any low-energy recovery time.
+ * @param day - The day the activities belong to
+ * @param activities - Scheduled activities of that day
+ * @returns energy_mismatch conflicts with suggestions on how to fix them
+ */
+export function detectEnergyMismatches(
+  day: WeekendDay,
+  activities: ScheduledActivity[]
+): Conflict[] {
+  const conflicts: Conflict[] = [];
+  const dayName = capitalize(day);
+  const sorted = [...activities].sort(
+    (a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime)
+  );
+
+  // Streaks of high-energy activities with no rest in between
+  let streak: ScheduledActivity[] = [];
+  const flushStreak = () => {
+    if (streak.length >= MAX_HIGH_ENERGY_STREAK) {
+      conflicts.push({
+        id: `energy_mismatch-streak-${streak[0].id}`,
+        type: "energy_mismatch",
+        activities: streak,
+        message: `${listTitles(streak)} are ${
+          streak.length
+        } high-energy activities in a row on ${dayName}. Add a break or a low-energy activity between them.`,
+        severity: streak.length > MAX_HIGH_ENERGY_STREAK ? "high" : "medium",
+      });
+    }
+    streak = [];
+  };
+
+  sorted.forEach((sa) => {
+    if (sa.activity.energyLevel !== "high") {
+      flushStreak();
+      return;
+    }
+    const previous = streak[streak.length - 1];
+    if (
+      previous &&
+      timeToMinutes(sa.startTime) - timeToMinutes(previous.endTime) >=
+        REST_GAP_MINUTES
+    ) {
+      flushStreak();
+    }
+    streak.push(sa);
+  });
+  flushStreak();
+
+  // High-energy activities late at night
+  sorted
+    .filter(
+      (sa) =>
+        sa.activity.energyLevel === "high" && sa.timeSlot.period === "night"
+    )
+    .forEach((sa) => {
+      const { title } = sa.activity;
+      conflicts.push({
+        id: `energy_mismatch-night-${sa.id}`,
+        type: "energy_mismatch",
+        activities: [sa],
+        message: `${title} is a high-energy activity planned for ${dayName} night. Consider moving it to the morning or afternoon.`,
+        severity: "low",
+      });
+    });
+
+  // Days with high-energy plans and nothing to recover with
+  const highEnergy = sorted.filter((sa) => sa.activity.energyLevel === "high");
+  if (
+    highEnergy.length > 0 &&
+    !sorted.some((sa) => sa.activity.energyLevel === "low")
+  ) {
+    conflicts.push({
+      id: `energy_mismatch-recovery-${day}`,
+      type: "energy_mismatch",
+      activities: highEnergy,
+      message: `${dayName} has no low-energy recovery time after ${listTitles(
+        highEnergy
+      )}. Add something relaxing to balance the day.`,
+      severity: "low",
+    });
+  }
+
+  return conflicts;
+}
+
+// Forecast timestamps are shifted by the location's UTC offset, so their UTC
+// fields hold the local wall-clock time
+const isSameForecastDay = (forecastTime: Date, date: Date) =>
+  forecastTime.getUTCFullYear() === date.getFullYear() &&
+  forecastTime.getUTCMonth() === date.getMonth() &&
+  forecastTime.getUTCDate() === date.getDate();
+
+const describeBadWeather = (
+  weatherData: WeatherData,
+  index: number
+): string => {
+  const { weatherCode, temperature, precipitation, windSpeed } =
+    weatherData.hourly;
+  const reasons: string[] = [];
+  const weatherInfo = weatherService.getWeatherDescription(weatherCode[index]);
+
+  if (!weatherInfo.isGoodForOutdoor || precipitation[index] > 0.5) {
+    reasons.push(weatherInfo.description.toLowerCase());
+  }
+  if (temperature[index] < 10 || temperature[index] > 30) {
+    reasons.push(`${Math.round(temperature[index])}°C`);
+  }
+  if (windSpeed[index] > 40) {
+    reasons.push(`wind at ${Math.round(windSpeed[index])} km/h`);
+  }
+
+  return reasons.join(", ");
+};
+
+/**
+ * Checks weather-dependent activities against the hourly forecast for the
+ * hours they are planned in. Severity grows with the share of bad hours.
+ * @param day - The day the activities belong to
+ * @param activities - Scheduled activities of that day
+ * @param weatherData - The current forecast
+ * @param date - The calendar date of that day
+ * @returns One weather_conflict per activity with bad weather forecast
+ */
+export function detectWeatherConflicts(
+  day: WeekendDay,
+  activities: ScheduledActivity[],
+  weatherData: WeatherData,
+  date: Date
+): Conflict[] {
+  const conflicts: Conflict[] = [];
+  const { hourly } = weatherData;
+
+  activities
+    .filter((sa) => sa.activity.weatherDependent)
+    .forEach((sa) => {
+      const start = timeToMinutes(sa.startTime);
+      const end = timeToMinutes(sa.endTime);
+
+      const hours = hourly.time
+        .map((time, index) => ({ time, index }))
+        .filter(({ time }) => {
+          if (!isSameForecastDay(time, date)) return false;
+          const hourStart = time.getUTCHours() * 60;
+          return hourStart < end && hourStart + 60 > start;
+        });
+      if (hours.length === 0) return;
+
+      const badHours = hours.filter(
+        ({ index }) =>
+          !weatherService.isGoodWeatherForOutdoorActivities(
+            hourly.weatherCode[index],
+            hourly.temperature[index],
+            hourly.precipitation[index],
+            hourly.windSpeed[index]
+          )
+      );
+      if (badHours.length === 0) return;
+
+      const { title } = sa.activity;
+      const forecast = describeBadWeather(weatherData, badHours[0].index);
+      conflicts.push({
+        id: `weather_conflict-${sa.id}`,
+        type: "weather_conflict",
+        activities: [sa],
+        message: `${title} on ${capitalize(day)} ${
+          sa.timeSlot.period
+        } is an outdoor activity but the forecast shows ${forecast}. Consider an indoor alternative or another time.`,
+        severity: getSeverityForRatio(badHours.length / hours.length),
+      });
+    });
+
+  return conflicts;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Gets the straight-line distance between two points on the globe
+ * @param from - Start coordinates
+ * @param to - End coordinates
+ * @returns Distance in kilometres (haversine formula)
+ */
+export function getDistanceKm(
+  from: GeoCoordinates,
+  to: GeoCoordinates
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const deltaLatitude = toRadians(to.latitude - from.latitude);
+  const deltaLongitude = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(deltaLatitude / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(deltaLongitude / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Estimates how long it takes to get from one point to another
+ * @param from - Start coordinates
+ * @param to - End coordinates
+ * @param speedKmh - Average speed of the travel mode
+ * @returns Travel time in whole minutes
+ */
+export function estimateTravelMinutes(
+  from: GeoCoordinates,
+  to: GeoCoordinates,
+  speedKmh: number
+): number {
+  return Math.ceil((getDistanceKm(from, to) / Math.max(speedKmh, 1)) * 60);
+}
+
+/**
+ * Checks that consecutive activities at different places leave enough time to
+ * travel between them. Works offline from straight-line distances. Severity
+ * grows with how much of the journey does not fit in the gap.
+ * @param day - The day the activities belong to
+ * @param activities - Scheduled activities of that day
+ * @param travel - Default travel mode and average speed per mode
+ * @returns One location_conflict per unreachable pair of activities
+ */
+export function detectLocationConflicts(
+  day: WeekendDay,
+  activities: ScheduledActivity[],
+  travel: TravelSettings
+): Conflict[] {
+  const conflicts: Conflict[] = [];
+  const sorted = activities
+    .filter((sa) => sa.coordinates)
+    .sort((a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime));
+
+  for (let i = 1; i < sorted.length; i++) {
+    const from = sorted[i - 1];
+    const to = sorted[i];
+    const mode = to.travelMode ?? travel.defaultMode;
+    const travelMinutes = estimateTravelMinutes(
+      from.coordinates!,
+      to.coordinates!,
+      travel.speeds[mode]
+    );
+    const gap = timeToMinutes(to.startTime) - timeToMinutes(from.endTime);
+    if (gap >= travelMinutes) continue;
+
+    const shortfall = travelMinutes - Math.max(gap, 0);
+    const distance = getDistanceKm(from.coordinates!, to.coordinates!);
+    conflicts.push({
+      id: `location_conflict-${from.id}-${to.id}`,
+      type: "location_conflict",
+      activities: [from, to],
+      message: `Getting from ${from.activity.title} to ${
+        to.activity.title
+      } on ${capitalize(day)} takes about ${formatMinutes(
+        travelMinutes
+      )} by ${mode} (${distance.toFixed(1)} km) but only ${formatMinutes(
+        Math.max(gap, 0)
+      )} is planned. Leave ${formatMinutes(shortfall)} more between them.`,
+      severity: getSeverityForRatio(shortfall / travelMinutes),
+    });
+  }
+
+  return conflicts;
+}
+
+/**
+ * Checks the weekend's planned spend against its budget. Severity grows with
+ * how far over budget the plan is.
+ * @param weekend - The weekend schedule
+ * @returns A budget_exceeded conflict listing the paid activities, or nothing
+ * when there is no budget or the plan fits it
+ */
+export function detectBudgetConflicts(weekend: WeekendSchedule): Conflict[] {
+  if (weekend.budget === undefined) return [];
+
+  const paid = getWeekendActivities(weekend).filter(
+    (sa) => (sa.activity.cost ?? 0) > 0
+  );
+  const spend = getTotalCost(paid);
+  if (spend <= weekend.budget) return [];
+
+  const over = spend - weekend.budget;
+  return [
+    {
+      id: `budget_exceeded-${weekend.id}`,
+      type: "budget_exceeded",
+      activities: paid,
+      message: `Planned activities cost ${formatAmount(spend)}, ${formatAmount(
+        over
+      )} over the weekend budget of ${formatAmount(
+        weekend.budget
+      )}. Swap something for a free activity or raise the budget.`,
+      severity:
+        weekend.budget > 0
+          ? getSeverityForRatio(over / weekend.budget)
+          : "high",
+    },
+  ];
+}
+
+/**
+ * Checks each activity's attendees against how many people it needs and
+ * takes. Severity grows with how many people are missing or too many.
+ * @param day - The day the activities belong to
+ * @param activities - Scheduled activities of that day
+ * @param participants - Everyone going on the weekend; nothing is checked
+ * when no one is named
+ * @returns One participant_mismatch conflict per activity that does not fit
+ */
+export function detectParticipantConflicts(
+  day: WeekendDay,
+  activities: ScheduledActivity[],
+  participants: Participant[]
+): Conflict[] {
+  if (participants.length === 0) return [];
+
+  const conflicts: Conflict[] = [];
+  activities.forEach((sa) => {
+    const { title, minParticipants, maxParticipants } = sa.activity;
+    const going = getActivityParticipants(participants, sa).length;
+
+    if (minParticipants !== undefined && going < minParticipants) {
+      conflicts.push({
+        id: `participant_mismatch-${sa.id}`,
+        type: "participant_mismatch",
+        activities: [sa],
+        message: `${title} on ${capitalize(
+          day
+        )} needs at least ${minParticipants} people but ${going} ${
+          going === 1 ? "is" : "are"
+        } going. Invite ${minParticipants - going} more.`,
+        severity: getSeverityForRatio(
+          (minParticipants - going) / minParticipants
+        ),
+      });
+    } else if (maxParticipants !== undefined && going > maxParticipants) {
+      conflicts.push({
+        id: `participant_mismatch-${sa.id}`,
+        type: "participant_mismatch",
+        activities: [sa],
+        message: `${title} on ${capitalize(
+          day
+        )} takes at most ${maxParticipants} people but ${going} are going. ${
+          going - maxParticipants
+        } will need to sit this one out.`,
+        severity: getSeverityForRatio(
+          (going - maxParticipants) / maxParticipants
+        ),
+      });
+    }
+  });
+
+  return conflicts;
+}
+
+export interface ConflictSettings {
+  timePeriods: WeekendTimePeriods; // shared and per-day period boundaries
+  travel: TravelSettings;
+  weatherData: WeatherData | null;
+}
+
+/**
+ * Runs every conflict check over a weekend. The store and the auto-planner
+ * both use this, so new checks apply to both.
+ * @param weekend - The weekend schedule
+ * @param settings - The user's time periods and travel settings, and the
+ * forecast if there is one
+ * @returns Every conflict found, day by day and then for the whole weekend
+ */
+export function detectWeekendConflicts(
+  weekend: WeekendSchedule,
+  settings: ConflictSettings
+): Conflict[] {
+  const { timePeriods, travel, weatherData } = settings;
+  const conflicts: Conflict[] = [];
+
+  weekend.days.forEach((day) => {
+    const dayActivities = weekend[day];
+
+    // Check for activities whose actual time ranges overlap
+    conflicts.push(...detectTimeOverlaps(dayActivities));
+
+    // Check for periods holding more activity time than they last
+    conflicts.push(
+      ...detectPeriodOverflows(
+        day,
+        dayActivities,
+        getDayTimePeriods(timePeriods, day)
+      )
+    );
+
+    // Check how energy levels follow each other through the day
+    conflicts.push(...detectEnergyMismatches(day, dayActivities));
+
+    // Check each activity has the right number of people going
+    conflicts.push(
+      ...detectParticipantConflicts(
+        day,
+        dayActivities,
+        weekend.participants ?? []
+      )
+    );
+
+    // Check there is time to travel between consecutive activities
+    conflicts.push(...detectLocationConflicts(day, dayActivities, travel));
+
+    // Check outdoor activities against the forecast for their hours
+    if (weatherData) {
+      conflicts.push(
+        ...detectWeatherConflicts(
+          day,
+          dayActivities,
+          weatherData,
+          getWeekendDayDate(weekend.startDate, day)
+        )
+      );
+    }
+  });
+
+  // Check the weekend's spend against its budget
+  conflicts.push(...detectBudgetConflicts(weekend));
+
+  return conflicts;
+}
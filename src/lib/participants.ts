@@ -0,0 +1,72 @@
+/**
+ * Utility functions for who is going on a weekend and to which activities
+ */
+
+import type {
+  Activity,
+  Participant,
+  ScheduledActivity,
+  WeekendSchedule,
+} from "../types";
+
+/**
+ * Gets who is going to a scheduled activity
+ * @param participants - Everyone going on the weekend
+ * @param scheduledActivity - The scheduled activity
+ * @returns Its own attendees, or everyone when none were picked
+ */
+export function getActivityParticipants(
+  participants: Participant[],
+  scheduledActivity: ScheduledActivity
+): Participant[] {
+  const { participantIds } = scheduledActivity;
+  return participantIds
+    ? participants.filter((p) => participantIds.includes(p.id))
+    : participants;
+}
+
+/**
+ * Gets how many people share the weekend's costs
+ * @param weekend - The weekend schedule
+ * @returns The number of participants, or the group size set without names
+ */
+export function getGroupSize(weekend: WeekendSchedule): number | undefined {
+  return weekend.participants?.length || weekend.groupSize;
+}
+
+/**
+ * Checks an activity can be done by a group of a given size
+ * @param activity - The activity
+ * @param groupSize - Number of people, unset when not known
+ * @returns Whether the group is within the activity's limits; always true
+ * without a group size
+ */
+export function fitsGroupSize(activity: Activity, groupSize?: number): boolean {
+  return (
+    groupSize === undefined ||
+    (groupSize >= (activity.minParticipants ?? 1) &&
+      groupSize <= (activity.maxParticipants ?? Infinity))
+  );
+}
+
+/**
+ * Narrows a weekend down to what one person is attending
+ * @param weekend - The weekend schedule
+ * @param participantId - The person to show
+ * @returns The weekend with only that person's activities
+ */
+export function getParticipantSchedule(
+  weekend: WeekendSchedule,
+  participantId: string
+): WeekendSchedule {
+  const attends = (sa: ScheduledActivity) =>
+    !sa.participantIds || sa.participantIds.includes(participantId);
+
+  return {
+    ...weekend,
+    friday: weekend.friday.filter(attends),
+    saturday: weekend.saturday.filter(attends),
+    sunday: weekend.sunday.filter(attends),
+    monday: weekend.monday.filter(attends),
+  };
+}
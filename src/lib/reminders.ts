@@ -0,0 +1,59 @@
+/**
+ * Reminder notifications for upcoming weekends
+ */
+
+import { getWeekendDayDate } from "./timeUtils";
+import { DAY_LABELS, getWeekendActivities } from "./weekendDays";
+import type { WeekendSchedule } from "../types";
+
+// Reminders go out the evening before the weekend's first day
+const REMINDER_HOUR = 18;
+
+// Longest delay setTimeout supports; later reminders are scheduled on a
+// future visit instead
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * Gets when to remind about a weekend
+ * @param weekend - The weekend schedule
+ * @returns The evening before its first day
+ */
+export function getReminderTime(weekend: WeekendSchedule): Date {
+  const reminder = getWeekendDayDate(weekend.startDate, weekend.days[0]);
+  reminder.setDate(reminder.getDate() - 1);
+  reminder.setHours(REMINDER_HOUR);
+  return reminder;
+}
+
+/**
+ * Schedules a browser notification reminding about a weekend's plans.
+ * Nothing is scheduled without notification permission, when the reminder
+ * time has passed or when there is nothing planned.
+ * @param weekend - The weekend schedule
+ * @param now - Reference date, defaults to now
+ * @returns Cancels the pending reminder
+ */
+export function scheduleWeekendReminder(
+  weekend: WeekendSchedule,
+  now: Date = new Date()
+): () => void {
+  if (!("Notification" in window) || Notification.permission !== "granted") {
+    return () => {};
+  }
+
+  const delay = getReminderTime(weekend).getTime() - now.getTime();
+  const activityCount = getWeekendActivities(weekend).length;
+  if (delay <= 0 || delay > MAX_TIMEOUT_MS || activityCount === 0) {
+    return () => {};
+  }
+
+  const timeout = window.setTimeout(() => {
+    const firstDay = DAY_LABELS[weekend.days[0]];
+    new Notification(weekend.title, {
+      body: `${activityCount} activities planned, starting ${firstDay}`,
+      tag: `weekend-reminder-${weekend.id}`,
+    });
+  }, delay);
+
+  return () => window.clearTimeout(timeout);
+}
@@ -0,0 +1,141 @@
+/**
+ * Utility functions for weekend themes and filling a weekend from one
+ */
+
+import { timeToMinutes } from "./timeUtils";
+import type {
+  Activity,
+  EnergyLevel,
+  Mood,
+  TimePeriod,
+  TimeSlot,
+  WeekendDay,
+  WeekendSchedule,
+  WeekendTheme,
+} from "../types";
+
+/**
+ * Every mood a theme or plan can aim for
+ */
+export const MOODS: Mood[] = [
+  "happy",
+  "relaxed",
+  "energetic",
+  "social",
+  "contemplative",
+  "adventurous",
+  "creative",
+  "romantic",
+];
+
+/**
+ * Periods that suit each energy level, best first. Demanding activities go
+ * early in the day and quiet ones in the evening.
+ */
+export const ENERGY_PERIODS: Record<EnergyLevel, TimePeriod[]> = {
+  high: ["morning", "afternoon"],
+  medium: ["afternoon", "morning", "evening"],
+  low: ["evening", "afternoon", "morning", "night"],
+};
+
+/**
+ * Orders themes so the user's preferred ones come first
+ * @param themes - Theme catalogue
+ * @param preferredThemes - Preferred theme ids, most preferred first
+ * @returns Preferred themes in order of preference, then the rest in
+ * catalogue order
+ */
+export function orderThemesByPreference(
+  themes: WeekendTheme[],
+  preferredThemes: string[]
+): WeekendTheme[] {
+  const rank = (theme: WeekendTheme) => {
+    const index = preferredThemes.indexOf(theme.id);
+    return index === -1 ? preferredThemes.length : index;
+  };
+  return [...themes].sort((a, b) => rank(a) - rank(b));
+}
+
+export interface PlannedActivity {
+  activity: Activity;
+  timeSlot: TimeSlot;
+}
+
+/**
+ * Picks a time slot for each of a theme's suggested activities. Activities
+ * already on the weekend or missing from the catalogue are left out, and
+ * each one goes on the least busy day into the first suitable period with
+ * room for its duration. Periods get at most one high-energy activity.
+ * @param theme - The theme to apply
+ * @param activities - Catalogue the suggested ids are resolved against
+ * @param weekend - The weekend being filled
+ * @param timeSlots - Time slots of the weekend's days
+ * @returns The activities to schedule, in the theme's order
+ */
+export function planThemeActivities(
+  theme: WeekendTheme,
+  activities: Activity[],
+  weekend: WeekendSchedule,
+  timeSlots: TimeSlot[]
+): PlannedActivity[] {
+  const scheduledIds = new Set(
+    weekend.days.flatMap((day) => weekend[day].map((sa) => sa.activity.id))
+  );
+  const suggested = theme.suggestedActivities
+    .map((id) => activities.find((activity) => activity.id === id))
+    .filter(
+      (activity): activity is Activity =>
+        !!activity && !scheduledIds.has(activity.id)
+    );
+
+  // Minutes already taken in each slot and across each day
+  const slotKey = (day: WeekendDay, period: TimePeriod) => `${day}-${period}`;
+  const usedMinutes = new Map<string, number>();
+  const highEnergySlots = new Set<string>();
+  const dayMinutes = new Map<WeekendDay, number>();
+
+  const reserve = (day: WeekendDay, period: TimePeriod, activity: Activity) => {
+    const key = slotKey(day, period);
+    usedMinutes.set(key, (usedMinutes.get(key) ?? 0) + activity.duration);
+    dayMinutes.set(day, (dayMinutes.get(day) ?? 0) + activity.duration);
+    if (activity.energyLevel === "high") highEnergySlots.add(key);
+  };
+
+  weekend.days.forEach((day) =>
+    weekend[day].forEach((sa) => reserve(day, sa.timeSlot.period, sa.activity))
+  );
+
+  const planned: PlannedActivity[] = [];
+  suggested.forEach((activity) => {
+    const days = [...weekend.days].sort(
+      (a, b) => (dayMinutes.get(a) ?? 0) - (dayMinutes.get(b) ?? 0)
+    );
+
+    for (const day of days) {
+      const timeSlot = ENERGY_PERIODS[activity.energyLevel]
+        .map((period) =>
+          timeSlots.find((slot) => slot.day === day && slot.period === period)
+        )
+        .find((slot) => {
+          if (!slot) return false;
+          const key = slotKey(day, slot.period);
+          const free =
+            timeToMinutes(slot.endTime) -
+            timeToMinutes(slot.startTime) -
+            (usedMinutes.get(key) ?? 0);
+          return (
+            free >= activity.duration &&
+            !(activity.energyLevel === "high" && highEnergySlots.has(key))
+          );
+        });
+
+      if (timeSlot) {
+        reserve(day, timeSlot.period, activity);
+        planned.push({ activity, timeSlot });
+        return;
+      }
+    }
+  });
+
+  return planned;
+}
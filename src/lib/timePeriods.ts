@@ -0,0 +1,149 @@
+/**
+ * Utility functions for the user's time period boundaries
+ */
+
+import { timeToMinutes } from "./timeUtils";
+import { DAY_LABELS } from "./weekendDays";
+import type {
+  TimePeriod,
+  TimePeriodSettings,
+  UserPreferences,
+  WeekendDay,
+} from "../types";
+
+export type WeekendTimePeriods = Pick<
+  UserPreferences,
+  "timePeriods" | "dayTimePeriods"
+>;
+
+/**
+ * Every time period, in the order they run through the day
+ */
+export const TIME_PERIODS: TimePeriod[] = [
+  "morning",
+  "afternoon",
+  "evening",
+  "night",
+];
+
+/**
+ * Period boundaries used until the user customises them
+ */
+export const DEFAULT_TIME_PERIODS: TimePeriodSettings = {
+  morning: { start: "08:00", end: "12:00" },
+  afternoon: { start: "12:00", end: "17:00" },
+  evening: { start: "17:00", end: "22:00" },
+  night: { start: "22:00", end: "24:00" },
+};
+
+const PERIOD_LABELS: Record<TimePeriod, string> = {
+  morning: "Morning",
+  afternoon: "Afternoon",
+  evening: "Evening",
+  night: "Night",
+};
+
+/**
+ * Checks that every period ends after it starts and that the periods follow
+ * each other through the day without overlapping. Gaps between periods are
+ * allowed.
+ * @param timePeriods - Period boundaries to check
+ * @returns Problems to fix, empty when the periods are valid
+ */
+export function validateTimePeriods(timePeriods: TimePeriodSettings): string[] {
+  const errors: string[] = [];
+
+  TIME_PERIODS.forEach((period, index) => {
+    const { start, end } = timePeriods[period];
+    if (timeToMinutes(start) >= timeToMinutes(end)) {
+      errors.push(`${PERIOD_LABELS[period]} must end after it starts`);
+    }
+    if (timeToMinutes(end) > 24 * 60) {
+      errors.push(`${PERIOD_LABELS[period]} must end by midnight`);
+    }
+
+    const previous = TIME_PERIODS[index - 1];
+    if (
+      previous &&
+      timeToMinutes(start) < timeToMinutes(timePeriods[previous].end)
+    ) {
+      errors.push(
+        `${PERIOD_LABELS[period]} overlaps ${PERIOD_LABELS[
+          previous
+        ].toLowerCase()}`
+      );
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Gets the period boundaries of one day
+ * @param settings - Shared periods and per-day overrides
+ * @param day - The weekend day
+ * @returns The day's own periods, or the shared ones if it has none
+ */
+export function getDayTimePeriods(
+  settings: WeekendTimePeriods,
+  day: WeekendDay
+): TimePeriodSettings {
+  return settings.dayTimePeriods[day] ?? settings.timePeriods;
+}
+
+/**
+ * Changes one period, either on a single day or on every day
+ * @param settings - Shared periods and per-day overrides
+ * @param period - The period to change
+ * @param range - Its new start and end
+ * @param day - The only day to change, or undefined for every day
+ * @returns The updated periods
+ */
+export function withTimePeriod(
+  settings: WeekendTimePeriods,
+  period: TimePeriod,
+  range: { start: string; end: string },
+  day?: WeekendDay
+): WeekendTimePeriods {
+  if (day) {
+    return {
+      timePeriods: settings.timePeriods,
+      dayTimePeriods: {
+        ...settings.dayTimePeriods,
+        [day]: { ...getDayTimePeriods(settings, day), [period]: range },
+      },
+    };
+  }
+
+  // Days with their own periods take the change too
+  const dayTimePeriods: WeekendTimePeriods["dayTimePeriods"] = {};
+  (Object.keys(settings.dayTimePeriods) as WeekendDay[]).forEach((d) => {
+    const own = settings.dayTimePeriods[d];
+    if (own) dayTimePeriods[d] = { ...own, [period]: range };
+  });
+  return {
+    timePeriods: { ...settings.timePeriods, [period]: range },
+    dayTimePeriods,
+  };
+}
+
+/**
+ * Validates the shared periods and every day's own periods
+ * @param settings - Shared periods and per-day overrides
+ * @returns Problems to fix, naming the day for per-day periods
+ */
+export function validateWeekendTimePeriods(
+  settings: WeekendTimePeriods
+): string[] {
+  const dayErrors = (
+    Object.keys(settings.dayTimePeriods) as WeekendDay[]
+  ).flatMap((day) => {
+    const own = settings.dayTimePeriods[day];
+    return own
+      ? validateTimePeriods(own).map(
+          (error) => `${DAY_LABELS[day]}: ${error.toLowerCase()}`
+        )
+      : [];
+  });
+  return [...validateTimePeriods(settings.timePeriods), ...dayErrors];
+}
@@ -2,18 +2,17 @@
  * Utility functions for time formatting and manipulation
  */
 
+import type { WeekendDay } from "../types";
+
 /**
  * Converts 24-hour time format to 12-hour AM/PM format
  * @param time24 - Time in 24-hour format (e.g., "14:30", "09:00")
  * @returns Time in 12-hour AM/PM format (e.g., "2:30 PM", "9:00 AM")
  */
 export function formatTo12Hour(time24: string): string {
-  // Handle special case for "24:00" which represents end of day
-  if (time24 === "24:00") {
-    return "12:00 AM";
-  }
-
-  const [hours, minutes] = time24.split(":").map(Number);
+  const [dayHours, minutes] = time24.split(":").map(Number);
+  // Times from "24:00" on run past midnight into the next day
+  const hours = dayHours >= 24 && dayHours < 48 ? dayHours - 24 : dayHours;
 
   // Handle invalid input
   if (
@@ -80,6 +79,118 @@ export function formatTo24Hour(time12: string): string {
     .padStart(2, "0")}`;
 }
 
+/**
+ * Converts 24-hour time format to minutes since midnight
+ * @param time24 - Time in 24-hour format (e.g., "14:30", "24:00")
+ * @returns Minutes since midnight (e.g., 870, 1440)
+ */
+export function timeToMinutes(time24: string): number {
+  const [hours, minutes] = time24.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Converts minutes since midnight to 24-hour time format
+ * @param totalMinutes - Minutes since midnight; times past the end of the day
+ * are kept so callers can tell they run over
+ * @returns Time in 24-hour format (e.g., "14:30", "24:00", "25:15")
+ */
+export function minutesToTime(totalMinutes: number): string {
+  const rounded = Math.round(totalMinutes);
+  const hours = Math.floor(rounded / 60);
+  const minutes = rounded % 60;
+
+  return `${hours.toString().padStart(2, "0")}:${minutes
+    .toString()
+    .padStart(2, "0")}`;
+}
+
+/**
+ * Adds a number of minutes to a 24-hour time
+ * @param time24 - Time in 24-hour format (e.g., "12:00")
+ * @param minutes - Minutes to add
+ * @returns Time in 24-hour format (e.g., "13:30"), past "24:00" after midnight
+ */
+export function addMinutesToTime(time24: string, minutes: number): string {
+  return minutesToTime(timeToMinutes(time24) + minutes);
+}
+
+const DAYS_FROM_SATURDAY: Record<WeekendDay, number> = {
+  friday: -1,
+  saturday: 0,
+  sunday: 1,
+  monday: 2,
+};
+
+/**
+ * Gets the calendar date of a day of the coming weekend
+ * @param day - The weekend day
+ * @param from - Reference date, defaults to now
+ * @returns Local midnight of that day; on a Sunday the current weekend is used
+ */
+export function getUpcomingWeekendDate(
+  day: WeekendDay,
+  from: Date = new Date()
+): Date {
+  const date = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const weekday = date.getDay();
+  const daysUntilSaturday = weekday === 0 ? -1 : 6 - weekday;
+  date.setDate(date.getDate() + daysUntilSaturday + DAYS_FROM_SATURDAY[day]);
+  return date;
+}
+
+/**
+ * Formats a date as a local calendar day key
+ * @param date - The date
+ * @returns The day in YYYY-MM-DD format (e.g., "2025-06-14")
+ */
+export function formatDateKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parses a calendar day key into a date
+ * @param dateKey - Day in YYYY-MM-DD format
+ * @returns Local midnight of that day
+ */
+export function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Gets the Saturday of the weekend a date belongs to. Friday and the
+ * following Monday count as part of the weekend; midweek days move on to
+ * the coming Saturday.
+ * @param date - Any date
+ * @returns Local midnight of that weekend's Saturday
+ */
+export function getWeekendSaturday(date: Date): Date {
+  const saturday = new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate()
+  );
+  const weekday = saturday.getDay();
+  const offset = weekday === 0 ? -1 : weekday === 1 ? -2 : 6 - weekday;
+  saturday.setDate(saturday.getDate() + offset);
+  return saturday;
+}
+
+/**
+ * Gets the calendar date of a day of a dated weekend
+ * @param startDate - The weekend's Saturday in YYYY-MM-DD format
+ * @param day - The weekend day
+ * @returns Local midnight of that day
+ */
+export function getWeekendDayDate(startDate: string, day: WeekendDay): Date {
+  const date = parseDateKey(startDate);
+  date.setDate(date.getDate() + DAYS_FROM_SATURDAY[day]);
+  return date;
+}
+
 /**
  * Gets the display label for a time period with AM/PM formatting
  * @param period - The time period
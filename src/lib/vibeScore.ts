@@ -0,0 +1,63 @@
+/**
+ * Utility functions for scoring how balanced a plan feels
+ */
+
+import { getWeekendActivities } from "./weekendDays";
+import type { ScheduledActivity, WeekendSchedule } from "../types";
+
+/**
+ * Calculates the vibe score of one day's activities
+ * @param dayActivities - Activities scheduled on the day
+ * @returns Score from 0 to 100 rewarding energy balance, mood variety and a
+ * full but not overbooked day
+ */
+export function calculateVibeScore(dayActivities: ScheduledActivity[]): number {
+  let score = 50;
+
+  const totalDuration = dayActivities.reduce(
+    (total, sa) => total + sa.activity.duration,
+    0
+  );
+  const energyLevels = new Set(
+    dayActivities.map((sa) => sa.activity.energyLevel)
+  );
+  const uniqueMoods = new Set(dayActivities.flatMap((sa) => sa.activity.mood));
+
+  // Energy balance bonus
+  const hasLow = energyLevels.has("low");
+  const hasMedium = energyLevels.has("medium");
+  const hasHigh = energyLevels.has("high");
+
+  if (hasLow && hasMedium && hasHigh) score += 20; // Perfect balance
+  else if ((hasLow && hasMedium) || (hasMedium && hasHigh)) score += 10; // Good balance
+
+  // Mood variety bonus
+  score += Math.min(uniqueMoods.size * 5, 25); // Up to 25 points for mood variety
+
+  // Activity count bonus
+  if (dayActivities.length >= 3) score += 10;
+  if (dayActivities.length >= 5) score += 5;
+
+  // Prevent over-scheduling penalty
+  if (totalDuration > 600) score -= 10; // More than 10 hours
+  if (totalDuration > 720) score -= 10; // More than 12 hours
+
+  return Math.max(0, Math.min(100, score));
+}
+
+/**
+ * Calculates the vibe score of a whole weekend
+ * @param weekend - The weekend schedule
+ * @returns Average score of the days that have activities, or 0 when
+ * nothing is planned
+ */
+export function calculateWeekendVibeScore(weekend: WeekendSchedule): number {
+  if (getWeekendActivities(weekend).length === 0) return 0;
+
+  const dayScores = weekend.days
+    .filter((day) => weekend[day].length > 0)
+    .map((day) => calculateVibeScore(weekend[day]));
+  return Math.round(
+    dayScores.reduce((total, score) => total + score, 0) / dayScores.length
+  );
+}
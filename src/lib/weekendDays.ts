@@ -0,0 +1,202 @@
+/**
+ * Utility functions for the days a weekend spans
+ */
+
+import {
+  formatDateKey,
+  getUpcomingWeekendDate,
+  getWeekendDayDate,
+} from "./timeUtils";
+import type {
+  ScheduledActivity,
+  TimePeriod,
+  WeekendDay,
+  WeekendSchedule,
+} from "../types";
+
+/**
+ * Every day a weekend can include, in calendar order
+ */
+export const WEEKEND_DAYS: WeekendDay[] = [
+  "friday",
+  "saturday",
+  "sunday",
+  "monday",
+];
+
+/**
+ * Days of a regular weekend
+ */
+export const DEFAULT_WEEKEND_DAYS: WeekendDay[] = ["saturday", "sunday"];
+
+/**
+ * Days that may be added to or removed from a weekend
+ */
+export const OPTIONAL_WEEKEND_DAYS: WeekendDay[] = ["friday", "monday"];
+
+const ALL_PERIODS: TimePeriod[] = ["morning", "afternoon", "evening", "night"];
+
+/**
+ * Time periods that can be planned on each day. Friday only covers the
+ * evening after work.
+ */
+export const DAY_PERIODS: Record<WeekendDay, TimePeriod[]> = {
+  friday: ["evening", "night"],
+  saturday: ALL_PERIODS,
+  sunday: ALL_PERIODS,
+  monday: ALL_PERIODS,
+};
+
+export const DAY_LABELS: Record<WeekendDay, string> = {
+  friday: "Friday",
+  saturday: "Saturday",
+  sunday: "Sunday",
+  monday: "Monday",
+};
+
+/**
+ * Sorts days into calendar order and drops duplicates
+ * @param days - Days in any order
+ * @returns The same days from Friday to Monday
+ */
+export function sortWeekendDays(days: WeekendDay[]): WeekendDay[] {
+  return WEEKEND_DAYS.filter((day) => days.includes(day));
+}
+
+/**
+ * Gets every scheduled activity of a weekend, day by day
+ * @param weekend - The weekend schedule
+ * @returns Activities of all the weekend's days in order
+ */
+export function getWeekendActivities(
+  weekend: WeekendSchedule
+): ScheduledActivity[] {
+  return weekend.days.flatMap((day) => weekend[day]);
+}
+
+/**
+ * Lists the activities most recently scheduled across weekends
+ * @param weekends - Weekends to look through, in any order
+ * @param limit - Most activities to return
+ * @returns Activity ids, from the most recently edited weekend first and
+ * without duplicates
+ */
+export function getRecentActivityIds(
+  weekends: WeekendSchedule[],
+  limit = 5
+): string[] {
+  const ids = [...weekends]
+    .sort(
+      (a, b) =>
+        new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+    )
+    .flatMap((weekend) =>
+      getWeekendActivities(weekend).map((sa) => sa.activity.id)
+    );
+  return [...new Set(ids)].slice(0, limit);
+}
+
+/**
+ * Finds which day a scheduled activity is planned on
+ * @param weekend - The weekend schedule
+ * @param activityId - The scheduled activity id
+ * @returns The day, or undefined if the activity is not scheduled
+ */
+export function findActivityDay(
+  weekend: WeekendSchedule,
+  activityId: string
+): WeekendDay | undefined {
+  return weekend.days.find((day) =>
+    weekend[day].some((sa) => sa.id === activityId)
+  );
+}
+
+/**
+ * Applies an update to every scheduled activity of a weekend
+ * @param weekend - The weekend schedule
+ * @param update - Returns the updated activity
+ * @returns The per-day activity lists to spread into the weekend
+ */
+export function mapWeekendActivities(
+  weekend: WeekendSchedule,
+  update: (sa: ScheduledActivity) => ScheduledActivity
+): Record<WeekendDay, ScheduledActivity[]> {
+  return {
+    friday: weekend.friday.map(update),
+    saturday: weekend.saturday.map(update),
+    sunday: weekend.sunday.map(update),
+    monday: weekend.monday.map(update),
+  };
+}
+
+/**
+ * Fills in the day list and per-day arrays of weekends saved before long
+ * weekends were supported
+ * @param weekend - A weekend that may only have Saturday and Sunday
+ * @returns The weekend with every day field present
+ */
+export function withWeekendDays(
+  weekend: Omit<WeekendSchedule, "days" | "friday" | "monday"> &
+    Partial<Pick<WeekendSchedule, "days" | "friday" | "monday">>
+): WeekendSchedule {
+  return {
+    ...weekend,
+    days: sortWeekendDays(weekend.days ?? DEFAULT_WEEKEND_DAYS),
+    friday: weekend.friday ?? [],
+    monday: weekend.monday ?? [],
+  };
+}
+
+/**
+ * Dates weekends saved before they had a start date for the weekend
+ * following their creation
+ * @param weekend - A weekend that may have no start date
+ * @returns The weekend with a start date
+ */
+export function withStartDate(
+  weekend: Omit<WeekendSchedule, "startDate"> & { startDate?: string }
+): WeekendSchedule {
+  return {
+    ...weekend,
+    startDate:
+      weekend.startDate ??
+      formatDateKey(
+        getUpcomingWeekendDate("saturday", new Date(weekend.createdAt))
+      ),
+  };
+}
+
+/**
+ * Checks whether every day of a weekend is already over
+ * @param weekend - The weekend schedule
+ * @param now - Reference date, defaults to now
+ * @returns True once the weekend's last day has ended
+ */
+export function isWeekendPast(
+  weekend: Pick<WeekendSchedule, "startDate" | "days">,
+  now: Date = new Date()
+): boolean {
+  const lastDay = weekend.days[weekend.days.length - 1];
+  const dayAfter = getWeekendDayDate(weekend.startDate, lastDay);
+  dayAfter.setDate(dayAfter.getDate() + 1);
+  return now >= dayAfter;
+}
+
+/**
+ * Formats the dates a weekend spans
+ * @param weekend - The weekend schedule
+ * @returns The range of days (e.g., "Sat, Jun 14 – Sun, Jun 15")
+ */
+export function formatWeekendDates(
+  weekend: Pick<WeekendSchedule, "startDate" | "days">
+): string {
+  const format = (day: WeekendDay) =>
+    getWeekendDayDate(weekend.startDate, day).toLocaleDateString(undefined, {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    });
+  const first = weekend.days[0];
+  const last = weekend.days[weekend.days.length - 1];
+  return first === last ? format(first) : `${format(first)} – ${format(last)}`;
+}
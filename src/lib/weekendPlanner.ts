@@ -0,0 +1,236 @@
+/**
+ * Constraint-based planner that fills a weekend automatically
+ */
+
+import {
+  detectWeekendConflicts,
+  type ConflictSettings,
+} from "./conflictDetection";
+import { fitsGroupSize, getGroupSize } from "./participants";
+import { ENERGY_PERIODS } from "./themePlanner";
+import { minutesToTime, timeToMinutes } from "./timeUtils";
+import type {
+  Activity,
+  EnergyLevel,
+  Mood,
+  ScheduledActivity,
+  TimePeriod,
+  TimeSlot,
+  WeekendDay,
+  WeekendSchedule,
+} from "../types";
+
+export interface BlockedPeriod {
+  day: WeekendDay;
+  period: TimePeriod;
+}
+
+export interface PlannerConstraints {
+  moods: Mood[]; // activities must match one of these, empty for any
+  energyBudget: number; // energy points per day (low 1, medium 2, high 3)
+  maxCost?: number; // across the whole weekend, within its budget if set
+  mustInclude: string[]; // activity ids placed before anything else
+  blockedPeriods: BlockedPeriod[];
+}
+
+// Plans are checked against the same settings as the schedule's conflicts
+export interface PlannerContext extends ConflictSettings {
+  activities: Activity[];
+  weekend: WeekendSchedule; // its days and settings; activities are replaced
+  timeSlots: TimeSlot[];
+}
+
+export interface PlannedSlot {
+  activity: Activity;
+  timeSlot: TimeSlot;
+  startTime: string;
+  endTime: string;
+}
+
+export interface WeekendPlan {
+  planned: PlannedSlot[];
+  unplaced: Activity[]; // must-include activities that could not fit
+}
+
+export const ENERGY_POINTS: Record<EnergyLevel, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+};
+
+/**
+ * Creates a seeded pseudo-random generator (mulberry32)
+ * @param seed - Any integer
+ * @returns Function returning numbers in [0, 1), the same sequence per seed
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Plans a weekend within the given constraints. Must-include activities are
+ * placed first, then activities matching the moods in an order shuffled by
+ * the seed. Each placement must keep the weekend free of high-severity
+ * conflicts, as the schedule detects them, and within both its spending
+ * budget and the energy budget. Activities the group is too small or too
+ * large for are skipped, and weather-dependent activities are kept out of
+ * hours with bad weather forecast.
+ * @param constraints - What the plan has to respect
+ * @param context - Catalogue, days, time slots and settings to plan with
+ * @param seed - Seed for the shuffle, so each seed gives the same plan
+ * @returns The planned activities and the must-include ones left out
+ */
+export function planWeekend(
+  constraints: PlannerConstraints,
+  context: PlannerContext,
+  seed: number
+): WeekendPlan {
+  const random = createSeededRandom(seed);
+  const { activities, weekend, timeSlots } = context;
+  const { days } = weekend;
+
+  const mustInclude = constraints.mustInclude
+    .map((id) => activities.find((activity) => activity.id === id))
+    .filter((activity): activity is Activity => !!activity);
+
+  // Shuffle once per seed, then prefer activities sharing more of the moods
+  const optional = activities
+    .filter((activity) => !constraints.mustInclude.includes(activity.id))
+    .filter(
+      (activity) =>
+        constraints.moods.length === 0 ||
+        activity.mood.some((mood) => constraints.moods.includes(mood))
+    )
+    .map((activity) => ({ activity, order: random() }))
+    .sort((a, b) => {
+      const matches = (activity: Activity) =>
+        activity.mood.filter((mood) => constraints.moods.includes(mood)).length;
+      return matches(b.activity) - matches(a.activity) || a.order - b.order;
+    })
+    .map(({ activity }) => activity);
+
+  const isBlocked = (day: WeekendDay, period: TimePeriod) =>
+    constraints.blockedPeriods.some(
+      (blocked) => blocked.day === day && blocked.period === period
+    );
+
+  const schedule = new Map<WeekendDay, ScheduledActivity[]>(
+    days.map((day) => [day, []])
+  );
+  const energyUsed = new Map<WeekendDay, number>();
+  let cost = 0;
+
+  // Checks the plan so far with one day's activities swapped for a trial,
+  // using the same checks as the schedule itself
+  const getTrialConflicts = (
+    day: WeekendDay,
+    dayActivities: ScheduledActivity[]
+  ) =>
+    detectWeekendConflicts(
+      {
+        ...weekend,
+        friday: schedule.get("friday") ?? [],
+        saturday: schedule.get("saturday") ?? [],
+        sunday: schedule.get("sunday") ?? [],
+        monday: schedule.get("monday") ?? [],
+        [day]: dayActivities,
+      },
+      context
+    );
+
+  // The plan replaces every activity, so all of the budget is left for it
+  const costLimit = Math.min(
+    constraints.maxCost ?? Infinity,
+    weekend.budget ?? Infinity
+  );
+
+  // Planned activities include everyone going
+  const groupSize = getGroupSize(weekend);
+
+  const tryPlace = (activity: Activity): boolean => {
+    const activityCost = activity.cost ?? 0;
+    if (
+      cost + activityCost > costLimit ||
+      !fitsGroupSize(activity, groupSize)
+    ) {
+      return false;
+    }
+
+    const points = ENERGY_POINTS[activity.energyLevel];
+    const dayOrder = [...days].sort(
+      (a, b) => (energyUsed.get(a) ?? 0) - (energyUsed.get(b) ?? 0)
+    );
+
+    for (const day of dayOrder) {
+      if ((energyUsed.get(day) ?? 0) + points > constraints.energyBudget) {
+        continue;
+      }
+
+      for (const period of ENERGY_PERIODS[activity.energyLevel]) {
+        const timeSlot = timeSlots.find(
+          (slot) => slot.day === day && slot.period === period
+        );
+        if (!timeSlot || isBlocked(day, period)) continue;
+
+        // Start right after whatever is already planned in the period
+        const dayActivities = schedule.get(day) ?? [];
+        const periodEnd = dayActivities
+          .filter((sa) => sa.timeSlot.period === period)
+          .reduce(
+            (latest, sa) => Math.max(latest, timeToMinutes(sa.endTime)),
+            timeToMinutes(timeSlot.startTime)
+          );
+        if (periodEnd + activity.duration > timeToMinutes(timeSlot.endTime)) {
+          continue;
+        }
+
+        const candidate: ScheduledActivity = {
+          id: activity.id,
+          activity,
+          timeSlot,
+          startTime: minutesToTime(periodEnd),
+          endTime: minutesToTime(periodEnd + activity.duration),
+          completed: false,
+        };
+        const trial = [...dayActivities, candidate];
+        const conflicts = getTrialConflicts(day, trial);
+        const weatherClash = conflicts.some(
+          (c) =>
+            c.type === "weather_conflict" && c.activities[0].id === activity.id
+        );
+        if (weatherClash || conflicts.some((c) => c.severity === "high")) {
+          continue;
+        }
+
+        schedule.set(day, trial);
+        energyUsed.set(day, (energyUsed.get(day) ?? 0) + points);
+        cost += activityCost;
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const unplaced = mustInclude.filter((activity) => !tryPlace(activity));
+  optional.forEach(tryPlace);
+
+  const planned = days.flatMap((day) =>
+    (schedule.get(day) ?? []).map(
+      ({ activity, timeSlot, startTime, endTime }) => ({
+        activity,
+        timeSlot,
+        startTime,
+        endTime,
+      })
+    )
+  );
+
+  return { planned, unplaced };
+}
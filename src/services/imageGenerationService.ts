@@ -1,4 +1,5 @@
 import { GoogleGenAI } from "@google/genai";
+import { calculateVibeScore } from "../lib/vibeScore";
 import type { WeekendSchedule, WeekendDay } from "../types";
 
 interface ImageGenerationOptions {
@@ -67,28 +68,7 @@ class ImageGenerationService {
       return acc;
     }, {} as Record<string, number>);
 
-    const calculateVibeScore = () => {
-      let score = 50;
-      const hasLow = energyLevels.low > 0;
-      const hasMedium = energyLevels.medium > 0;
-      const hasHigh = energyLevels.high > 0;
-
-      if (hasLow && hasMedium && hasHigh) score += 20;
-      else if ((hasLow && hasMedium) || (hasMedium && hasHigh)) score += 10;
-
-      const uniqueMoods = Object.keys(moodCounts).length;
-      score += Math.min(uniqueMoods * 5, 25);
-
-      if (dayActivities.length >= 3) score += 10;
-      if (dayActivities.length >= 5) score += 5;
-
-      if (totalDuration > 600) score -= 10;
-      if (totalDuration > 720) score -= 10;
-
-      return Math.max(0, Math.min(100, score));
-    };
-
-    const vibeScore = calculateVibeScore();
+    const vibeScore = calculateVibeScore(dayActivities);
 
     const dominantMoods = Object.entries(moodCounts)
       .sort(([, a], [, b]) => b - a)
@@ -183,7 +163,11 @@ class ImageGenerationService {
       **The Creative Brief:**
       Design a visually striking social media card for a planned ${activeDay}. The plan is titled "${
       weekend.title
-    }". The overall goal is to create something that feels exciting, personal, and highly shareable.
+    }".${
+      weekend.theme
+        ? ` It follows the "${weekend.theme.name}" theme: ${weekend.theme.description}.`
+        : ""
+    } The overall goal is to create something that feels exciting, personal, and highly shareable.
 
       **The Weekend's Story & Vibe:**
       - **The Vibe Score is ${vibeScore}/100.** This is the main feeling of the day. The card's design should reflect this score: ${getVibeDescription(
@@ -308,7 +308,8 @@ export class WeatherService {
   isGoodWeatherForOutdoorActivities(
     weatherCode: number,
     temperature: number,
-    precipitation: number = 0
+    precipitation: number = 0,
+    windSpeed: number = 0
   ): boolean {
     const weatherInfo = this.getWeatherDescription(weatherCode);
 
@@ -328,6 +329,11 @@ export class WeatherService {
       return false;
     }
 
+    // Check wind (strong breeze and above, in km/h)
+    if (windSpeed > 40) {
+      return false;
+    }
+
     return true;
   }
 
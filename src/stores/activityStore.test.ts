@@ -1,15 +1,32 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { useActivityStore } from "./activityStore";
-import type { Activity } from "../types";
+import { activities as mockCatalog } from "../data/mockActivities";
+import type { Activity, ActivityDraft } from "../types";
+
+const loadActivities = vi.hoisted(() => vi.fn().mockResolvedValue([]));
+const saveActivities = vi.hoisted(() => vi.fn().mockResolvedValue(undefined));
+const deleteActivity = vi.hoisted(() => vi.fn().mockResolvedValue(undefined));
+const saveCategories = vi.hoisted(() => vi.fn().mockResolvedValue(undefined));
+const deleteCategory = vi.hoisted(() => vi.fn().mockResolvedValue(undefined));
+const reassignCategory = vi.hoisted(() => vi.fn().mockResolvedValue(0));
+const saveFilterPreset = vi.hoisted(() => vi.fn().mockResolvedValue(undefined));
+const deleteFilterPreset = vi.hoisted(() =>
+  vi.fn().mockResolvedValue(undefined)
+);
 
 // Mock the persistence store
 vi.mock("./persistenceStore", () => ({
   usePersistenceStore: {
     getState: () => ({
-      loadActivities: vi.fn().mockResolvedValue([]),
-      saveActivities: vi.fn().mockResolvedValue(undefined),
+      loadActivities,
+      saveActivities,
+      deleteActivity,
       loadCategories: vi.fn().mockResolvedValue([]),
-      saveCategories: vi.fn().mockResolvedValue(undefined),
+      saveCategories,
+      deleteCategory,
+      reassignCategory,
+      saveFilterPreset,
+      deleteFilterPreset,
     }),
   },
 }));
@@ -274,6 +291,48 @@ describe("ActivityStore", () => {
       expect(filtered[0].title).toBe("Evening Yoga");
     });
 
+    it("should filter activities by price range", () => {
+      useActivityStore.setState({
+        activities: [
+          { ...mockActivity, id: "free" },
+          { ...mockActivity, id: "cheap", cost: 10 },
+          { ...mockActivity, id: "pricey", cost: 80 },
+        ],
+      });
+      const { setFilters, getFilteredActivities } = useActivityStore.getState();
+      const ids = () => getFilteredActivities().map((a) => a.id);
+
+      setFilters({ cost: { min: 0, max: 0 } });
+      expect(ids()).toEqual(["free"]);
+
+      setFilters({ cost: { min: 5, max: 50 } });
+      expect(ids()).toEqual(["cheap"]);
+
+      setFilters({ cost: { min: 50 } });
+      expect(ids()).toEqual(["pricey"]);
+
+      setFilters({ cost: undefined, freeOnly: true });
+      expect(ids()).toEqual(["free"]);
+    });
+
+    it("should hide activities our group does not fit", () => {
+      useActivityStore.setState({
+        activities: [
+          { ...mockActivity, id: "any" },
+          { ...mockActivity, id: "couple", maxParticipants: 2 },
+          { ...mockActivity, id: "team", minParticipants: 4 },
+        ],
+      });
+      const { setFilters, getFilteredActivities } = useActivityStore.getState();
+      const ids = () => getFilteredActivities().map((a) => a.id);
+
+      setFilters({ groupSize: 1 });
+      expect(ids()).toEqual(["any", "couple"]);
+
+      setFilters({ groupSize: 6 });
+      expect(ids()).toEqual(["any", "team"]);
+    });
+
     it("should combine multiple filters", () => {
       const { setFilters, setSearchTerm, getFilteredActivities } =
         useActivityStore.getState();
@@ -291,6 +350,178 @@ describe("ActivityStore", () => {
     });
   });
 
+  describe("Search Ranking", () => {
+    const catalogActivity = (
+      id: string,
+      overrides: Partial<Activity>
+    ): Activity => ({ ...mockActivity, id, tags: [], ...overrides });
+
+    beforeEach(() => {
+      useActivityStore.setState({
+        activities: [
+          catalogActivity("walk", {
+            title: "Nature Walk",
+            description: "An easy stroll, a good warm-up for hiking",
+            cost: 0,
+          }),
+          catalogActivity("trail", {
+            title: "Trail Run",
+            description: "Run the forest trail",
+            tags: ["hiking", "outdoor"],
+            cost: 10,
+          }),
+          catalogActivity("hike", {
+            title: "Nature Hiking",
+            description: "A long day in the hills",
+            tags: ["outdoor"],
+            cost: 40,
+          }),
+          catalogActivity("museum", {
+            title: "Museum Visit",
+            description: "Art and history",
+            tags: ["indoor", "culture"],
+            weatherDependent: false,
+          }),
+        ],
+      });
+    });
+
+    const search = (term: string) => {
+      useActivityStore.getState().setSearchTerm(term);
+      return useActivityStore
+        .getState()
+        .getFilteredActivities()
+        .map((activity) => activity.id);
+    };
+
+    it("should rank title matches over tags over descriptions", () => {
+      expect(search("hiking")).toEqual(["hike", "trail", "walk"]);
+    });
+
+    it("should tolerate typos", () => {
+      expect(search("hikeing")).toEqual(["hike", "trail", "walk"]);
+      expect(search("musuem")).toEqual(["museum"]);
+    });
+
+    it("should match every word in any order", () => {
+      expect(search("walk nature")).toEqual(["walk"]);
+      expect(search("nature museum")).toEqual([]);
+    });
+
+    it("should match words as they are typed", () => {
+      expect(search("muse")).toEqual(["museum"]);
+    });
+
+    it("should filter by field prefixes", () => {
+      expect(search("tag:outdoor")).toEqual(["trail", "hike"]);
+      expect(search("tag:outdoor cost:<30")).toEqual(["trail"]);
+      expect(search("cost:0")).toEqual(["walk", "museum"]);
+      expect(search("nature cost:>=40")).toEqual(["hike"]);
+    });
+
+    it("should search prefixes it cannot read as plain words", () => {
+      expect(search("cost:cheap")).toEqual([]);
+      expect(search("visit:")).toEqual(["museum"]);
+    });
+
+    it("should still apply the other filters to ranked results", () => {
+      useActivityStore.getState().setFilters({ weatherDependent: true });
+
+      expect(search("hiking")).toEqual(["hike", "trail", "walk"]);
+      expect(search("museum")).toEqual([]);
+    });
+  });
+
+  describe("Filter Presets", () => {
+    beforeEach(() => {
+      useActivityStore.setState({ filterPresets: [] });
+      saveFilterPreset.mockClear();
+      deleteFilterPreset.mockClear();
+    });
+
+    it("should save the current filters and search as a preset", async () => {
+      const {
+        setFilters,
+        setSearchTerm,
+        saveFilterPreset: save,
+      } = useActivityStore.getState();
+      setFilters({ energyLevels: ["low"], weatherDependent: false });
+      setSearchTerm("cost:<20");
+
+      await save("Rainy day");
+
+      const [preset] = useActivityStore.getState().filterPresets;
+      expect(preset.name).toBe("Rainy day");
+      expect(preset.filters.energyLevels).toEqual(["low"]);
+      expect(preset.searchTerm).toBe("cost:<20");
+      expect(saveFilterPreset).toHaveBeenCalledWith(preset);
+    });
+
+    it("should update a preset saved again under the same name", async () => {
+      const { setFilters, saveFilterPreset: save } =
+        useActivityStore.getState();
+      await save("Rainy day");
+      const { id } = useActivityStore.getState().filterPresets[0];
+
+      setFilters({ moods: ["relaxed"] });
+      await save("rainy day");
+
+      const { filterPresets } = useActivityStore.getState();
+      expect(filterPresets).toHaveLength(1);
+      expect(filterPresets[0].id).toBe(id);
+      expect(filterPresets[0].filters.moods).toEqual(["relaxed"]);
+    });
+
+    it("should apply a preset to the shared filters in one step", async () => {
+      const {
+        setFilters,
+        saveFilterPreset: save,
+        clearFilters,
+      } = useActivityStore.getState();
+      setFilters({ weatherDependent: false });
+      await save("Indoors");
+      clearFilters();
+
+      const { id } = useActivityStore.getState().filterPresets[0];
+      useActivityStore.getState().applyFilterPreset(id);
+
+      expect(useActivityStore.getState().filters.weatherDependent).toBe(false);
+    });
+
+    it("should delete presets", async () => {
+      await useActivityStore.getState().saveFilterPreset("Indoors");
+      const { id } = useActivityStore.getState().filterPresets[0];
+
+      await useActivityStore.getState().deleteFilterPreset(id);
+
+      expect(deleteFilterPreset).toHaveBeenCalledWith(id);
+      expect(useActivityStore.getState().filterPresets).toEqual([]);
+    });
+
+    it("should share presets through export and import", async () => {
+      useActivityStore.getState().setFilters({ energyLevels: ["low"] });
+      await useActivityStore.getState().saveFilterPreset("Lazy");
+      const original = useActivityStore.getState().filterPresets[0];
+
+      const data = useActivityStore.getState().exportFilterPreset(original.id)!;
+      await useActivityStore.getState().importFilterPreset(data);
+
+      const [imported] = useActivityStore.getState().filterPresets;
+      expect(imported.id).not.toBe(original.id);
+      expect(imported.name).toBe("Lazy");
+      expect(imported.filters).toEqual(original.filters);
+    });
+
+    it("should reject text that is not a shared preset", async () => {
+      await useActivityStore.getState().importFilterPreset("not json");
+
+      expect(useActivityStore.getState().filterPresets).toEqual([]);
+      expect(useActivityStore.getState().error).toBe(
+        "That is not a shared filter preset"
+      );
+    });
+  });
+
   describe("Error Handling", () => {
     it("should set error state", () => {
       const { setError } = useActivityStore.getState();
@@ -374,4 +605,170 @@ describe("ActivityStore", () => {
       expect(result).toEqual([]);
     });
   });
+
+  describe("Custom Activities", () => {
+    const draft: ActivityDraft = {
+      title: "Pottery Class",
+      description: "Throw a bowl at the local studio",
+      category: mockActivity.category,
+      duration: 120,
+      energyLevel: "low",
+      mood: ["creative"],
+      weatherDependent: false,
+      tags: [" Crafts ", "indoor"],
+      cost: 35,
+    };
+
+    beforeEach(() => {
+      loadActivities.mockReset().mockResolvedValue([]);
+      saveActivities.mockClear();
+      deleteActivity.mockClear();
+    });
+
+    it("should create and persist a custom activity", async () => {
+      await useActivityStore.getState().saveCustomActivity(draft);
+
+      const [activity] = useActivityStore.getState().activities;
+      expect(activity).toMatchObject({
+        title: "Pottery Class",
+        tags: ["crafts", "indoor"],
+        icon: mockActivity.category.icon,
+        custom: true,
+      });
+      expect(activity.id).toMatch(/^custom-/);
+      expect(saveActivities).toHaveBeenCalledWith([activity]);
+    });
+
+    it("should edit a custom activity in place", async () => {
+      const { saveCustomActivity } = useActivityStore.getState();
+      await saveCustomActivity(draft);
+      const [{ id }] = useActivityStore.getState().activities;
+
+      await saveCustomActivity({ ...draft, duration: 90 }, id);
+
+      const { activities } = useActivityStore.getState();
+      expect(activities).toHaveLength(1);
+      expect(activities[0]).toMatchObject({ id, duration: 90 });
+    });
+
+    it("should reject invalid activities without saving them", async () => {
+      await useActivityStore
+        .getState()
+        .saveCustomActivity({ ...draft, title: " ", duration: 5 });
+
+      const state = useActivityStore.getState();
+      expect(state.activities).toHaveLength(0);
+      expect(state.error).toBe("Please give the activity a title");
+      expect(saveActivities).not.toHaveBeenCalled();
+    });
+
+    it("should delete custom activities but not built-in ones", async () => {
+      const custom = { ...mockActivity, id: "custom-1", custom: true };
+      useActivityStore.setState({ activities: [mockActivity, custom] });
+      const { deleteCustomActivity } = useActivityStore.getState();
+
+      await deleteCustomActivity(mockActivity.id);
+      await deleteCustomActivity(custom.id);
+
+      expect(deleteActivity).toHaveBeenCalledTimes(1);
+      expect(deleteActivity).toHaveBeenCalledWith(custom.id);
+      expect(useActivityStore.getState().activities).toEqual([mockActivity]);
+    });
+
+    it("should reseed the catalog while keeping custom activities", async () => {
+      const custom = { ...mockActivity, id: "custom-1", custom: true };
+      loadActivities.mockResolvedValue([custom]);
+
+      await useActivityStore.getState().loadActivities();
+
+      const { activities } = useActivityStore.getState();
+      expect(saveActivities).toHaveBeenCalledWith(mockCatalog);
+      expect(activities).toHaveLength(mockCatalog.length + 1);
+      expect(activities).toContainEqual(custom);
+    });
+
+    it("should not reseed when the catalog is stored", async () => {
+      loadActivities.mockResolvedValue([mockActivity]);
+
+      await useActivityStore.getState().loadActivities();
+
+      expect(saveActivities).not.toHaveBeenCalled();
+      expect(useActivityStore.getState().activities).toEqual([mockActivity]);
+    });
+  });
+
+  describe("Category Management", () => {
+    const fitness = mockActivity.category;
+    const outdoor = {
+      id: "outdoor",
+      name: "Outdoor",
+      icon: "mountain",
+      color: "#10b981",
+      description: "Nature",
+    };
+    const hike: Activity = { ...mockActivity, id: "2", category: outdoor };
+
+    beforeEach(() => {
+      saveCategories.mockClear();
+      deleteCategory.mockClear();
+      reassignCategory.mockClear();
+      useActivityStore.setState({
+        categories: [fitness, outdoor],
+        activities: [mockActivity, hike],
+      });
+    });
+
+    it("should add a category at the end of the list", async () => {
+      await useActivityStore.getState().addCategory({
+        name: " Crafts ",
+        description: "Making things",
+        icon: "palette",
+        color: "#ec4899",
+      });
+
+      const { categories } = useActivityStore.getState();
+      expect(categories).toHaveLength(3);
+      expect(categories[2]).toMatchObject({ name: "Crafts", order: 2 });
+      expect(saveCategories).toHaveBeenCalledWith([categories[2]]);
+    });
+
+    it("should rename and recolour a category on its activities", async () => {
+      await useActivityStore
+        .getState()
+        .updateCategory("fitness", { name: "Sport", color: "#000000" });
+
+      const { categories, activities } = useActivityStore.getState();
+      const updated = { ...fitness, name: "Sport", color: "#000000" };
+      expect(categories[0]).toEqual(updated);
+      expect(activities[0].category).toEqual(updated);
+      expect(activities[1].category).toEqual(outdoor);
+      expect(reassignCategory).toHaveBeenCalledWith("fitness", updated);
+    });
+
+    it("should reorder categories and persist their order", async () => {
+      await useActivityStore
+        .getState()
+        .reorderCategories(["outdoor", "fitness"]);
+
+      const { categories } = useActivityStore.getState();
+      expect(categories.map((c) => [c.id, c.order])).toEqual([
+        ["outdoor", 0],
+        ["fitness", 1],
+      ]);
+      expect(saveCategories).toHaveBeenCalledWith(categories);
+    });
+
+    it("should merge a category into another", async () => {
+      useActivityStore.getState().setFilters({ categories: ["fitness"] });
+
+      await useActivityStore.getState().mergeCategories("fitness", "outdoor");
+
+      const { categories, activities, filters } = useActivityStore.getState();
+      expect(categories).toEqual([outdoor]);
+      expect(activities.every((a) => a.category.id === "outdoor")).toBe(true);
+      expect(filters.categories).toEqual(["outdoor"]);
+      expect(reassignCategory).toHaveBeenCalledWith("fitness", outdoor);
+      expect(deleteCategory).toHaveBeenCalledWith("fitness");
+    });
+  });
 });
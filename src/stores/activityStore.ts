@@ -2,21 +2,58 @@ import { create } from "zustand";
 import { devtools } from "zustand/middleware";
 import { usePersistenceStore } from "./persistenceStore";
 import { cacheActivitiesOffline } from "../lib/serviceWorker";
-import type { Activity, ActivityStoreState, FilterState } from "../types";
+import { validateActivity } from "../lib/activityValidation";
+import {
+  DEFAULT_FILTERS,
+  filterActivities,
+  parseFilterPreset,
+  serializeFilterPreset,
+} from "../lib/activityFilters";
+import type {
+  Activity,
+  ActivityCategory,
+  ActivityDraft,
+  CategoryDraft,
+  ActivityStoreState,
+  FilterPreset,
+  FilterState,
+} from "../types";
 
 interface ActivityStoreActions {
   // Data loading
   loadActivities: () => Promise<void>;
   loadCategories: () => Promise<void>;
 
+  // Category management
+  addCategory: (draft: CategoryDraft) => Promise<void>;
+  updateCategory: (
+    categoryId: string,
+    changes: Partial<CategoryDraft>
+  ) => Promise<void>;
+  reorderCategories: (categoryIds: string[]) => Promise<void>;
+  mergeCategories: (sourceId: string, targetId: string) => Promise<void>;
+
   // Activity management
   selectActivity: (activity: Activity | null) => void;
+  saveCustomActivity: (
+    draft: ActivityDraft,
+    activityId?: string
+  ) => Promise<void>;
+  deleteCustomActivity: (activityId: string) => Promise<void>;
 
   // Search and filtering
   setSearchTerm: (term: string) => void;
   setFilters: (filters: Partial<FilterState>) => void;
   clearFilters: () => void;
 
+  // Filter presets
+  loadFilterPresets: () => Promise<void>;
+  saveFilterPreset: (name: string) => Promise<void>;
+  applyFilterPreset: (presetId: string) => void;
+  deleteFilterPreset: (presetId: string) => Promise<void>;
+  exportFilterPreset: (presetId: string) => string | null;
+  importFilterPreset: (data: string) => Promise<void>;
+
   // Computed getters
   getFilteredActivities: () => Activity[];
   getActivitiesByCategory: (categoryId: string) => Activity[];
@@ -28,14 +65,17 @@ interface ActivityStoreActions {
 
 type ActivityStore = ActivityStoreState & ActivityStoreActions;
 
-const initialFilters: FilterState = {
-  categories: [],
-  moods: [],
-  energyLevels: [],
-  duration: { min: 0, max: 480 }, // 8 hours max
-  weatherDependent: undefined,
-  tags: [],
-};
+// Activities fetched per page when loading the catalog
+const ACTIVITIES_PAGE_SIZE = 100;
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// Categories in list order; ones never reordered keep their stored order
+const sortCategories = (categories: ActivityCategory[]) =>
+  categories
+    .map((category, index) => ({ category, rank: category.order ?? index }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ category }) => category);
 
 export const useActivityStore = create<ActivityStore>()(
   devtools(
@@ -43,8 +83,9 @@ export const useActivityStore = create<ActivityStore>()(
       // Initial state
       activities: [],
       categories: [],
-      filters: initialFilters,
+      filters: DEFAULT_FILTERS,
       searchTerm: "",
+      filterPresets: [],
       selectedActivity: null,
       loading: false,
       error: null,
@@ -56,18 +97,29 @@ export const useActivityStore = create<ActivityStore>()(
           const persistenceStore = usePersistenceStore.getState();
 
           // Try to load from IndexedDB first
-          let activities = await persistenceStore.loadActivities();
+          let activities: Activity[] = [];
+          for (let offset = 0; ; offset += ACTIVITIES_PAGE_SIZE) {
+            const page = await persistenceStore.loadActivities(
+              ACTIVITIES_PAGE_SIZE,
+              offset
+            );
+            activities.push(...page);
+            if (page.length < ACTIVITIES_PAGE_SIZE) break;
+          }
 
-          // If no activities in IndexedDB, load from mock data and save
-          if (activities.length === 0) {
+          // If the built-in catalog is missing, load it from mock data and
+          // save it next to any custom activities, which have their own ids
+          if (!activities.some((activity) => !activity.custom)) {
             const mockActivities = await import("../data/mockActivities");
-            activities = mockActivities.activities;
+            const catalog = mockActivities.activities;
 
             // Save to IndexedDB for future use
-            await persistenceStore.saveActivities(activities);
+            await persistenceStore.saveActivities(catalog);
 
             // Cache for offline use
-            await cacheActivitiesOffline(activities);
+            await cacheActivitiesOffline(catalog);
+
+            activities = [...catalog, ...activities];
           }
 
           set({
@@ -101,7 +153,7 @@ export const useActivityStore = create<ActivityStore>()(
             await persistenceStore.saveCategories(categories);
           }
 
-          set({ categories });
+          set({ categories: sortCategories(categories) });
         } catch (error) {
           set({
             error:
@@ -112,10 +164,201 @@ export const useActivityStore = create<ActivityStore>()(
         }
       },
 
+      addCategory: async (draft) => {
+        if (!draft.name.trim()) {
+          set({ error: "Please give the category a name" });
+          return;
+        }
+
+        try {
+          const { categories } = get();
+          const category: ActivityCategory = {
+            ...draft,
+            name: draft.name.trim(),
+            id: `category-${generateId()}`,
+            order: categories.length,
+          };
+
+          await usePersistenceStore.getState().saveCategories([category]);
+          set({ categories: [...get().categories, category], error: null });
+        } catch (error) {
+          set({
+            error:
+              error instanceof Error ? error.message : "Failed to add category",
+          });
+        }
+      },
+
+      updateCategory: async (categoryId, changes) => {
+        const existing = get().categories.find((c) => c.id === categoryId);
+        if (!existing) return;
+        if (changes.name !== undefined && !changes.name.trim()) {
+          set({ error: "Please give the category a name" });
+          return;
+        }
+
+        try {
+          const category: ActivityCategory = {
+            ...existing,
+            ...changes,
+            name: (changes.name ?? existing.name).trim(),
+          };
+
+          // Activities embed their category, so rewrite them alongside it
+          const persistenceStore = usePersistenceStore.getState();
+          await persistenceStore.saveCategories([category]);
+          await persistenceStore.reassignCategory(categoryId, category);
+
+          const { categories, activities } = get();
+          set({
+            categories: categories.map((c) =>
+              c.id === categoryId ? category : c
+            ),
+            activities: activities.map((a) =>
+              a.category.id === categoryId ? { ...a, category } : a
+            ),
+            error: null,
+          });
+        } catch (error) {
+          set({
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to update category",
+          });
+        }
+      },
+
+      reorderCategories: async (categoryIds) => {
+        const { categories } = get();
+        const reordered = sortCategories(
+          categories.map((category) => {
+            const index = categoryIds.indexOf(category.id);
+            return {
+              ...category,
+              order: index === -1 ? categoryIds.length : index,
+            };
+          })
+        ).map((category, order) => ({ ...category, order }));
+
+        set({ categories: reordered });
+
+        try {
+          await usePersistenceStore.getState().saveCategories(reordered);
+        } catch (error) {
+          set({
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to reorder categories",
+          });
+        }
+      },
+
+      mergeCategories: async (sourceId, targetId) => {
+        const target = get().categories.find((c) => c.id === targetId);
+        if (sourceId === targetId || !target) return;
+
+        try {
+          const persistenceStore = usePersistenceStore.getState();
+          await persistenceStore.reassignCategory(sourceId, target);
+          await persistenceStore.deleteCategory(sourceId);
+
+          const { categories, activities, filters } = get();
+          set({
+            categories: categories.filter((c) => c.id !== sourceId),
+            activities: activities.map((a) =>
+              a.category.id === sourceId ? { ...a, category: target } : a
+            ),
+            filters: {
+              ...filters,
+              categories: filters.categories.includes(sourceId)
+                ? [
+                    ...new Set(
+                      filters.categories.map((id) =>
+                        id === sourceId ? targetId : id
+                      )
+                    ),
+                  ]
+                : filters.categories,
+            },
+            error: null,
+          });
+        } catch (error) {
+          set({
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to merge categories",
+          });
+        }
+      },
+
       selectActivity: (activity) => {
         set({ selectedActivity: activity });
       },
 
+      saveCustomActivity: async (draft, activityId) => {
+        const errors = validateActivity(draft);
+        if (errors.length > 0) {
+          set({ error: errors[0] });
+          return;
+        }
+
+        try {
+          const activity: Activity = {
+            ...draft,
+            title: draft.title.trim(),
+            tags: draft.tags.map((tag) => tag.trim().toLowerCase()),
+            id: activityId ?? `custom-${generateId()}`,
+            icon: draft.category.icon,
+            custom: true,
+          };
+
+          const persistenceStore = usePersistenceStore.getState();
+          await persistenceStore.saveActivities([activity]);
+
+          const { activities } = get();
+          set({
+            activities: activityId
+              ? activities.map((a) => (a.id === activityId ? activity : a))
+              : [...activities, activity],
+            error: null,
+          });
+        } catch (error) {
+          set({
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to save activity",
+          });
+        }
+      },
+
+      deleteCustomActivity: async (activityId) => {
+        const activity = get().activities.find((a) => a.id === activityId);
+        if (!activity?.custom) return;
+
+        try {
+          const persistenceStore = usePersistenceStore.getState();
+          await persistenceStore.deleteActivity(activityId);
+
+          const { activities, selectedActivity } = get();
+          set({
+            activities: activities.filter((a) => a.id !== activityId),
+            selectedActivity:
+              selectedActivity?.id === activityId ? null : selectedActivity,
+          });
+        } catch (error) {
+          set({
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to delete activity",
+          });
+        }
+      },
+
       setSearchTerm: (term) => {
         set({ searchTerm: term });
       },
@@ -127,77 +370,119 @@ export const useActivityStore = create<ActivityStore>()(
       },
 
       clearFilters: () => {
-        set({ filters: initialFilters, searchTerm: "" });
+        set({ filters: DEFAULT_FILTERS, searchTerm: "" });
       },
 
-      getFilteredActivities: () => {
-        const { activities, filters, searchTerm } = get();
+      loadFilterPresets: async () => {
+        try {
+          const persistenceStore = usePersistenceStore.getState();
+          const filterPresets = await persistenceStore.loadFilterPresets();
+          set({ filterPresets });
+        } catch (error) {
+          set({
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to load filter presets",
+          });
+        }
+      },
 
-        return activities.filter((activity) => {
-          // Search term filter
-          if (
-            searchTerm &&
-            !activity.title.toLowerCase().includes(searchTerm.toLowerCase()) &&
-            !activity.description
-              .toLowerCase()
-              .includes(searchTerm.toLowerCase()) &&
-            !activity.tags.some((tag) =>
-              tag.toLowerCase().includes(searchTerm.toLowerCase())
-            )
-          ) {
-            return false;
-          }
+      saveFilterPreset: async (name) => {
+        try {
+          const { filters, searchTerm, filterPresets } = get();
+          // Saving under an existing name updates that preset
+          const existing = filterPresets.find(
+            (p) => p.name.toLowerCase() === name.trim().toLowerCase()
+          );
+          const preset: FilterPreset = {
+            id: existing?.id ?? `preset-${generateId()}`,
+            name: name.trim(),
+            filters,
+            searchTerm,
+            createdAt: existing?.createdAt ?? new Date(),
+          };
 
-          // Category filter
-          if (
-            filters.categories.length > 0 &&
-            !filters.categories.includes(activity.category.id)
-          ) {
-            return false;
-          }
+          const persistenceStore = usePersistenceStore.getState();
+          await persistenceStore.saveFilterPreset(preset);
 
-          // Mood filter
-          if (
-            filters.moods.length > 0 &&
-            !filters.moods.some((mood) => activity.mood.includes(mood))
-          ) {
-            return false;
-          }
+          set({
+            filterPresets: existing
+              ? get().filterPresets.map((p) =>
+                  p.id === existing.id ? preset : p
+                )
+              : [preset, ...get().filterPresets],
+          });
+        } catch (error) {
+          set({
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to save filter preset",
+          });
+        }
+      },
 
-          // Energy level filter
-          if (
-            filters.energyLevels.length > 0 &&
-            !filters.energyLevels.includes(activity.energyLevel)
-          ) {
-            return false;
-          }
+      applyFilterPreset: (presetId) => {
+        const preset = get().filterPresets.find((p) => p.id === presetId);
+        if (!preset) return;
 
-          // Duration filter
-          if (
-            activity.duration < filters.duration.min ||
-            activity.duration > filters.duration.max
-          ) {
-            return false;
-          }
+        // Presets saved before a filter existed leave it at its default
+        set({
+          filters: { ...DEFAULT_FILTERS, ...preset.filters },
+          searchTerm: preset.searchTerm,
+        });
+      },
 
-          // Weather dependent filter
-          if (
-            filters.weatherDependent !== undefined &&
-            activity.weatherDependent !== filters.weatherDependent
-          ) {
-            return false;
-          }
+      deleteFilterPreset: async (presetId) => {
+        try {
+          const persistenceStore = usePersistenceStore.getState();
+          await persistenceStore.deleteFilterPreset(presetId);
 
-          // Tags filter
-          if (
-            filters.tags.length > 0 &&
-            !filters.tags.some((tag) => activity.tags.includes(tag))
-          ) {
-            return false;
-          }
+          set({
+            filterPresets: get().filterPresets.filter((p) => p.id !== presetId),
+          });
+        } catch (error) {
+          set({
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to delete filter preset",
+          });
+        }
+      },
 
-          return true;
-        });
+      exportFilterPreset: (presetId) => {
+        const preset = get().filterPresets.find((p) => p.id === presetId);
+        return preset ? serializeFilterPreset(preset) : null;
+      },
+
+      importFilterPreset: async (data) => {
+        try {
+          const shared = parseFilterPreset(data);
+          const preset: FilterPreset = {
+            ...shared,
+            id: `preset-${generateId()}`,
+            createdAt: new Date(),
+          };
+
+          const persistenceStore = usePersistenceStore.getState();
+          await persistenceStore.saveFilterPreset(preset);
+
+          set({ filterPresets: [preset, ...get().filterPresets] });
+        } catch (error) {
+          set({
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to import filter preset",
+          });
+        }
+      },
+
+      getFilteredActivities: () => {
+        const { activities, filters, searchTerm } = get();
+        return filterActivities(activities, filters, searchTerm);
       },
 
       getActivitiesByCategory: (categoryId) => {
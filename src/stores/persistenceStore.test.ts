@@ -0,0 +1,82 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { WeekendSchedule } from "../types";
+
+// Fresh stores on a fresh database for every test, since the store keeps its
+// connection open at module level
+const loadStores = async () => {
+  const { usePersistenceStore } = await import("./persistenceStore");
+  const { useScheduleStore } = await import("./scheduleStore");
+  return { usePersistenceStore, useScheduleStore };
+};
+
+// Mock data
+const createWeekend = (id: string, startDate: string): WeekendSchedule => ({
+  id,
+  title: `${id} weekend`,
+  startDate,
+  days: ["saturday", "sunday"],
+  friday: [],
+  saturday: [],
+  sunday: [],
+  monday: [],
+  createdAt: new Date(`${startDate}T09:00:00`),
+  updatedAt: new Date(`${startDate}T09:00:00`),
+});
+
+describe("PersistenceStore", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("Saved Weekends", () => {
+    it("should load no saved weekends from an empty database", async () => {
+      const { useScheduleStore } = await loadStores();
+
+      await useScheduleStore.getState().loadSavedWeekends();
+
+      const state = useScheduleStore.getState();
+      expect(state.savedWeekends).toEqual([]);
+      expect(state.savedWeekendsError).toBeNull();
+    });
+
+    it("should report a database that cannot be opened", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      vi.spyOn(indexedDB, "open").mockImplementation(() => {
+        throw new Error("Database blocked");
+      });
+      const { usePersistenceStore, useScheduleStore } = await loadStores();
+
+      await expect(
+        usePersistenceStore.getState().loadAllWeekends()
+      ).rejects.toThrow("Database blocked");
+
+      await useScheduleStore.getState().loadSavedWeekends();
+
+      const state = useScheduleStore.getState();
+      expect(state.savedWeekendsError).toBe("Database blocked");
+      expect(state.savedWeekendsLoading).toBe(false);
+    });
+  });
+
+  describe("Export and Import", () => {
+    it("should keep the weekend history through an export and import", async () => {
+      const { usePersistenceStore } = await loadStores();
+      const { saveHistory, exportData, importData } =
+        usePersistenceStore.getState();
+      await saveHistory([createWeekend("past", "2026-09-05")]);
+
+      await importData(await exportData());
+
+      const history = await usePersistenceStore.getState().loadHistory();
+      expect(history.map((w) => w.id)).toEqual(["past"]);
+      expect(history[0].startDate).toBe("2026-09-05");
+    });
+  });
+});
@@ -4,10 +4,14 @@ import { openDB, type IDBPDatabase } from "idb";
 import type {
   PersistenceStoreState,
   WeekendSchedule,
+  WeekendTemplate,
   UserPreferences,
   Activity,
   ActivityCategory,
+  WeekendTheme,
+  FilterPreset,
 } from "../types";
+import { withStartDate, withWeekendDays } from "../lib/weekendDays";
 
 interface PersistenceStoreActions {
   // Database initialization
@@ -23,15 +27,34 @@ interface PersistenceStoreActions {
   deleteWeekend: (weekendId: string) => Promise<void>;
   bulkSaveWeekends: (weekends: WeekendSchedule[]) => Promise<void>;
 
+  // Template persistence
+  saveTemplate: (template: WeekendTemplate) => Promise<void>;
+  loadTemplates: () => Promise<WeekendTemplate[]>;
+  deleteTemplate: (templateId: string) => Promise<void>;
+
   // Activity persistence (for performance with 50+ activities)
   saveActivities: (activities: Activity[]) => Promise<void>;
   loadActivities: (limit?: number, offset?: number) => Promise<Activity[]>;
+  deleteActivity: (activityId: string) => Promise<void>;
   saveCategories: (categories: ActivityCategory[]) => Promise<void>;
   loadCategories: () => Promise<ActivityCategory[]>;
+  deleteCategory: (categoryId: string) => Promise<void>;
+  reassignCategory: (
+    fromCategoryId: string,
+    category: ActivityCategory
+  ) => Promise<number>;
+  saveThemes: (themes: WeekendTheme[]) => Promise<void>;
+  loadThemes: () => Promise<WeekendTheme[]>;
+  deleteTheme: (themeId: string) => Promise<void>;
+  saveFilterPreset: (preset: FilterPreset) => Promise<void>;
+  loadFilterPresets: () => Promise<FilterPreset[]>;
+  deleteFilterPreset: (presetId: string) => Promise<void>;
 
   // User preferences persistence
   savePreferences: (preferences: UserPreferences) => Promise<void>;
   loadPreferences: () => Promise<UserPreferences | null>;
+  saveHistory: (weekends: WeekendSchedule[]) => Promise<void>;
+  loadHistory: () => Promise<WeekendSchedule[]>;
 
   // Cache management for performance
   getCachedData: <T>(key: string) => T | null;
@@ -63,11 +86,15 @@ interface PersistenceStoreActions {
 type PersistenceStore = PersistenceStoreState & PersistenceStoreActions;
 
 const DB_NAME = "weekendly-db";
-const DB_VERSION = 2; // Increased version for new features
+const DB_VERSION = 7; // Filter presets
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes default TTL
 
 let dbInstance: IDBPDatabase | null = null;
 
+// Version the database was at before this session upgraded it, so the data
+// migration can run once the connection is open
+let upgradedFromVersion: number | null = null;
+
 // In-memory cache for performance
 const cache = new Map<string, { data: any; timestamp: number; ttl: number }>();
 
@@ -75,7 +102,7 @@ const initDB = async (): Promise<IDBPDatabase> => {
   if (dbInstance) return dbInstance;
 
   dbInstance = await openDB(DB_NAME, DB_VERSION, {
-    upgrade(db, oldVersion, newVersion) {
+    async upgrade(db, oldVersion, newVersion, transaction) {
       // Weekends store
       if (!db.objectStoreNames.contains("weekends")) {
         const weekendStore = db.createObjectStore("weekends", {
@@ -84,6 +111,20 @@ const initDB = async (): Promise<IDBPDatabase> => {
         weekendStore.createIndex("createdAt", "createdAt");
         weekendStore.createIndex("updatedAt", "updatedAt");
         weekendStore.createIndex("title", "title");
+        weekendStore.createIndex("startDate", ["startDate", "updatedAt"]);
+      } else if (oldVersion < 4) {
+        // Order weekends by the date they are planned for
+        transaction
+          .objectStore("weekends")
+          .createIndex("startDate", ["startDate", "updatedAt"]);
+      }
+
+      // Templates store, reusable plans kept next to weekends
+      if (!db.objectStoreNames.contains("templates")) {
+        const templateStore = db.createObjectStore("templates", {
+          keyPath: "id",
+        });
+        templateStore.createIndex("createdAt", "createdAt");
       }
 
       // Activities store (new for performance)
@@ -104,6 +145,21 @@ const initDB = async (): Promise<IDBPDatabase> => {
         });
       }
 
+      // Themes store
+      if (!db.objectStoreNames.contains("themes")) {
+        db.createObjectStore("themes", {
+          keyPath: "id",
+        });
+      }
+
+      // Filter presets store
+      if (!db.objectStoreNames.contains("filterPresets")) {
+        const presetStore = db.createObjectStore("filterPresets", {
+          keyPath: "id",
+        });
+        presetStore.createIndex("createdAt", "createdAt");
+      }
+
       // User preferences store
       if (!db.objectStoreNames.contains("preferences")) {
         db.createObjectStore("preferences", {
@@ -129,6 +185,9 @@ const initDB = async (): Promise<IDBPDatabase> => {
       }
 
       // Migration logic
+      if (oldVersion > 0) {
+        upgradedFromVersion = oldVersion;
+      }
       if (oldVersion < 2) {
         // Migrate existing data if needed
         console.log(
@@ -138,6 +197,16 @@ const initDB = async (): Promise<IDBPDatabase> => {
           newVersion
         );
       }
+
+      if (oldVersion > 0 && oldVersion < 4) {
+        // Date existing weekends here rather than in migrateData so none is
+        // missing from the startDate index when it is first read
+        let cursor = await transaction.objectStore("weekends").openCursor();
+        while (cursor) {
+          await cursor.update(withStartDate(cursor.value));
+          cursor = await cursor.continue();
+        }
+      }
     },
   });
 
@@ -159,6 +228,13 @@ const isValidCache = (item: { timestamp: number; ttl: number }) => {
   return Date.now() - item.timestamp < item.ttl;
 };
 
+// Drops cached pages of a list so it reflects a save or delete
+const clearListCache = (prefix: string) => {
+  for (const key of cache.keys()) {
+    if (key.startsWith(prefix)) cache.delete(key);
+  }
+};
+
 export const usePersistenceStore = create<PersistenceStore>()(
   devtools(
     (set, get) => ({
@@ -173,6 +249,13 @@ export const usePersistenceStore = create<PersistenceStore>()(
         try {
           await initDB();
 
+          // Bring data saved by an older version up to date
+          if (upgradedFromVersion !== null) {
+            const fromVersion = upgradedFromVersion;
+            upgradedFromVersion = null;
+            await get().migrateData(fromVersion, DB_VERSION);
+          }
+
           // Set up online/offline listeners
           const handleOnline = () => {
             set({ isOnline: true });
@@ -200,6 +283,7 @@ export const usePersistenceStore = create<PersistenceStore>()(
         try {
           const db = await initDB();
           await db.put("weekends", weekend);
+          clearListCache("weekends");
 
           // Add to sync queue if offline
           if (!get().isOnline) {
@@ -234,10 +318,10 @@ export const usePersistenceStore = create<PersistenceStore>()(
 
           const db = await initDB();
           const tx = db.transaction("weekends", "readonly");
-          const index = tx.store.index("updatedAt");
+          const index = tx.store.index("startDate");
 
           let weekends: WeekendSchedule[] = [];
-          let cursor = await index.openCursor(null, "prev"); // Most recent first
+          let cursor = await index.openCursor(null, "prev"); // Latest weekend first
           let count = 0;
           let skipped = 0;
 
@@ -257,7 +341,8 @@ export const usePersistenceStore = create<PersistenceStore>()(
           return weekends;
         } catch (error) {
           console.error("Failed to load weekends:", error);
-          return [];
+          // Let callers tell a broken database from having no weekends
+          throw error;
         }
       },
 
@@ -299,7 +384,7 @@ export const usePersistenceStore = create<PersistenceStore>()(
           await tx.done;
 
           // Clear activities cache
-          cache.delete("activities");
+          clearListCache("activities");
 
           // Add to sync queue if offline
           if (!get().isOnline) {
@@ -349,6 +434,26 @@ export const usePersistenceStore = create<PersistenceStore>()(
         }
       },
 
+      deleteActivity: async (activityId) => {
+        try {
+          const db = await initDB();
+          await db.delete("activities", activityId);
+          clearListCache("activities");
+
+          // Add to sync queue if offline
+          if (!get().isOnline) {
+            get().addPendingChange({
+              type: "delete_activity",
+              data: { id: activityId },
+              timestamp: Date.now(),
+            });
+          }
+        } catch (error) {
+          console.error("Failed to delete activity:", error);
+          throw error;
+        }
+      },
+
       saveCategories: async (categories) => {
         try {
           const db = await initDB();
@@ -395,6 +500,185 @@ export const usePersistenceStore = create<PersistenceStore>()(
         }
       },
 
+      deleteCategory: async (categoryId) => {
+        try {
+          const db = await initDB();
+          await db.delete("categories", categoryId);
+          cache.delete("categories");
+
+          // Add to sync queue if offline
+          if (!get().isOnline) {
+            get().addPendingChange({
+              type: "delete_category",
+              data: { id: categoryId },
+              timestamp: Date.now(),
+            });
+          }
+        } catch (error) {
+          console.error("Failed to delete category:", error);
+          throw error;
+        }
+      },
+
+      reassignCategory: async (fromCategoryId, category) => {
+        try {
+          const db = await initDB();
+          const tx = db.transaction("activities", "readwrite");
+
+          // Walk the category index so only affected activities are rewritten
+          let updated = 0;
+          let cursor = await tx.store
+            .index("category")
+            .openCursor(IDBKeyRange.only(fromCategoryId));
+          while (cursor) {
+            await cursor.update({ ...cursor.value, category });
+            updated++;
+            cursor = await cursor.continue();
+          }
+
+          await tx.done;
+          clearListCache("activities");
+
+          // Add to sync queue if offline
+          if (!get().isOnline) {
+            get().addPendingChange({
+              type: "reassign_category",
+              data: { from: fromCategoryId, category },
+              timestamp: Date.now(),
+            });
+          }
+
+          return updated;
+        } catch (error) {
+          console.error("Failed to reassign category:", error);
+          throw error;
+        }
+      },
+
+      saveThemes: async (themes) => {
+        try {
+          const db = await initDB();
+          const tx = db.transaction("themes", "readwrite");
+
+          await Promise.all(themes.map((theme) => tx.store.put(theme)));
+
+          await tx.done;
+
+          // Clear themes cache
+          cache.delete("themes");
+
+          // Add to sync queue if offline
+          if (!get().isOnline) {
+            get().addPendingChange({
+              type: "save_themes",
+              data: themes,
+              timestamp: Date.now(),
+            });
+          }
+        } catch (error) {
+          console.error("Failed to save themes:", error);
+          throw error;
+        }
+      },
+
+      loadThemes: async () => {
+        try {
+          const cached = get().getCachedData<WeekendTheme[]>("themes");
+          if (cached) return cached;
+
+          const db = await initDB();
+          const themes = await db.getAll("themes");
+
+          // Cache the result
+          get().setCachedData("themes", themes, CACHE_TTL);
+
+          return themes;
+        } catch (error) {
+          console.error("Failed to load themes:", error);
+          return [];
+        }
+      },
+
+      deleteTheme: async (themeId) => {
+        try {
+          const db = await initDB();
+          await db.delete("themes", themeId);
+          cache.delete("themes");
+
+          // Add to sync queue if offline
+          if (!get().isOnline) {
+            get().addPendingChange({
+              type: "delete_theme",
+              data: { id: themeId },
+              timestamp: Date.now(),
+            });
+          }
+        } catch (error) {
+          console.error("Failed to delete theme:", error);
+          throw error;
+        }
+      },
+
+      saveFilterPreset: async (preset) => {
+        try {
+          const db = await initDB();
+          await db.put("filterPresets", preset);
+          cache.delete("filterPresets");
+
+          // Add to sync queue if offline
+          if (!get().isOnline) {
+            get().addPendingChange({
+              type: "save_filter_preset",
+              data: preset,
+              timestamp: Date.now(),
+            });
+          }
+        } catch (error) {
+          console.error("Failed to save filter preset:", error);
+          throw error;
+        }
+      },
+
+      loadFilterPresets: async () => {
+        try {
+          const cached = get().getCachedData<FilterPreset[]>("filterPresets");
+          if (cached) return cached;
+
+          const db = await initDB();
+          const presets = (
+            await db.getAllFromIndex("filterPresets", "createdAt")
+          ).reverse();
+
+          // Cache the result
+          get().setCachedData("filterPresets", presets, CACHE_TTL);
+
+          return presets;
+        } catch (error) {
+          console.error("Failed to load filter presets:", error);
+          return [];
+        }
+      },
+
+      deleteFilterPreset: async (presetId) => {
+        try {
+          const db = await initDB();
+          await db.delete("filterPresets", presetId);
+          cache.delete("filterPresets");
+
+          // Add to sync queue if offline
+          if (!get().isOnline) {
+            get().addPendingChange({
+              type: "delete_filter_preset",
+              data: { id: presetId },
+              timestamp: Date.now(),
+            });
+          }
+        } catch (error) {
+          console.error("Failed to delete filter preset:", error);
+          throw error;
+        }
+      },
+
       getCachedData: <T>(key: string): T | null => {
         const item = cache.get(key);
         if (!item) return null;
@@ -435,6 +719,18 @@ export const usePersistenceStore = create<PersistenceStore>()(
             }
           }
 
+          if (fromVersion < 3 && toVersion >= 3) {
+            // Weekends were always Saturday and Sunday; give them a day list
+            // and empty Friday/Monday schedules
+            const weekends = await db.getAll("weekends");
+            const tx = db.transaction("weekends", "readwrite");
+            await Promise.all(
+              weekends.map((weekend) => tx.store.put(withWeekendDays(weekend)))
+            );
+            await tx.done;
+            get().clearCache();
+          }
+
           // Update version in metadata
           await db.put("metadata", { key: "version", value: toVersion });
         } catch (error) {
@@ -447,22 +743,38 @@ export const usePersistenceStore = create<PersistenceStore>()(
         try {
           const db = await initDB();
 
-          const [weekends, activities, categories, preferences] =
-            await Promise.all([
-              db.getAll("weekends"),
-              db.getAll("activities"),
-              db.getAll("categories"),
-              db.get("preferences", "user_preferences"),
-            ]);
+          const [
+            weekends,
+            templates,
+            activities,
+            categories,
+            themes,
+            filterPresets,
+            preferences,
+            history,
+          ] = await Promise.all([
+            db.getAll("weekends"),
+            db.getAll("templates"),
+            db.getAll("activities"),
+            db.getAll("categories"),
+            db.getAll("themes"),
+            db.getAll("filterPresets"),
+            db.get("preferences", "user_preferences"),
+            db.get("preferences", "weekend_history"),
+          ]);
 
           const exportData = {
             version: DB_VERSION,
             timestamp: new Date().toISOString(),
             data: {
               weekends,
+              templates,
               activities,
               categories,
+              themes,
+              filterPresets,
               preferences,
+              history: history?.weekends,
             },
           };
 
@@ -480,24 +792,73 @@ export const usePersistenceStore = create<PersistenceStore>()(
 
           // Clear existing data
           const tx = db.transaction(
-            ["weekends", "activities", "categories", "preferences"],
+            [
+              "weekends",
+              "templates",
+              "activities",
+              "categories",
+              "themes",
+              "filterPresets",
+              "preferences",
+            ],
             "readwrite"
           );
           await Promise.all([
             tx.objectStore("weekends").clear(),
+            tx.objectStore("templates").clear(),
             tx.objectStore("activities").clear(),
             tx.objectStore("categories").clear(),
+            tx.objectStore("themes").clear(),
+            tx.objectStore("filterPresets").clear(),
             tx.objectStore("preferences").clear(),
           ]);
 
           // Import new data
-          const { weekends, activities, categories, preferences } =
-            importData.data;
-
-          if (weekends) await get().bulkSaveWeekends(weekends);
+          const {
+            weekends,
+            templates,
+            activities,
+            categories,
+            themes,
+            filterPresets,
+            preferences,
+            history,
+          } = importData.data;
+
+          // Older exports may lack the day list or start date
+          if (weekends)
+            await get().bulkSaveWeekends(
+              weekends.map((weekend: WeekendSchedule) =>
+                withStartDate(withWeekendDays(weekend))
+              )
+            );
+          if (templates) {
+            for (const template of templates as WeekendTemplate[]) {
+              await get().saveTemplate({
+                ...template,
+                createdAt: new Date(template.createdAt),
+              });
+            }
+          }
           if (activities) await get().saveActivities(activities);
           if (categories) await get().saveCategories(categories);
+          if (themes) await get().saveThemes(themes);
+          if (filterPresets) {
+            for (const preset of filterPresets as FilterPreset[]) {
+              await get().saveFilterPreset({
+                ...preset,
+                createdAt: new Date(preset.createdAt),
+              });
+            }
+          }
           if (preferences) await get().savePreferences(preferences);
+          // History shares the preferences store cleared above
+          if (history)
+            await get().saveHistory(
+              history.map((weekend: WeekendSchedule) =>
+                withStartDate(withWeekendDays(weekend))
+              )
+            );
 
           // Clear cache
           get().clearCache();
@@ -563,6 +924,7 @@ export const usePersistenceStore = create<PersistenceStore>()(
         try {
           const db = await initDB();
           await db.delete("weekends", weekendId);
+          clearListCache("weekends");
 
           // Add to sync queue if offline
           if (!get().isOnline) {
@@ -578,6 +940,66 @@ export const usePersistenceStore = create<PersistenceStore>()(
         }
       },
 
+      saveTemplate: async (template) => {
+        try {
+          const db = await initDB();
+          await db.put("templates", template);
+          cache.delete("templates");
+
+          // Add to sync queue if offline
+          if (!get().isOnline) {
+            get().addPendingChange({
+              type: "save_template",
+              data: template,
+              timestamp: Date.now(),
+            });
+          }
+        } catch (error) {
+          console.error("Failed to save template:", error);
+          throw error;
+        }
+      },
+
+      loadTemplates: async () => {
+        try {
+          const cached = get().getCachedData<WeekendTemplate[]>("templates");
+          if (cached) return cached;
+
+          const db = await initDB();
+          const templates = (
+            await db.getAllFromIndex("templates", "createdAt")
+          ).reverse();
+
+          // Cache the result
+          get().setCachedData("templates", templates, CACHE_TTL);
+
+          return templates;
+        } catch (error) {
+          console.error("Failed to load templates:", error);
+          return [];
+        }
+      },
+
+      deleteTemplate: async (templateId) => {
+        try {
+          const db = await initDB();
+          await db.delete("templates", templateId);
+          cache.delete("templates");
+
+          // Add to sync queue if offline
+          if (!get().isOnline) {
+            get().addPendingChange({
+              type: "delete_template",
+              data: { id: templateId },
+              timestamp: Date.now(),
+            });
+          }
+        } catch (error) {
+          console.error("Failed to delete template:", error);
+          throw error;
+        }
+      },
+
       savePreferences: async (preferences) => {
         try {
           const db = await initDB();
@@ -615,6 +1037,28 @@ export const usePersistenceStore = create<PersistenceStore>()(
         }
       },
 
+      saveHistory: async (weekends) => {
+        try {
+          // Kept next to the preferences record, under its own key
+          const db = await initDB();
+          await db.put("preferences", { id: "weekend_history", weekends });
+        } catch (error) {
+          console.error("Failed to save history:", error);
+          throw error;
+        }
+      },
+
+      loadHistory: async () => {
+        try {
+          const db = await initDB();
+          const result = await db.get("preferences", "weekend_history");
+          return (result?.weekends as WeekendSchedule[]) ?? [];
+        } catch (error) {
+          console.error("Failed to load history:", error);
+          return [];
+        }
+      },
+
       syncData: async () => {
         const { isOnline, pendingChanges, syncInProgress } = get();
 
@@ -0,0 +1,1515 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { useScheduleStore } from "./scheduleStore";
+import { useWeatherStore } from "./weatherStore";
+import { useActivityStore } from "./activityStore";
+import { useUserStore } from "./userStore";
+import { DEFAULT_TIME_PERIODS } from "../lib/timePeriods";
+import {
+  formatDateKey,
+  formatTimeRange,
+  getUpcomingWeekendDate,
+} from "../lib/timeUtils";
+import { getRecentActivityIds } from "../lib/weekendDays";
+import {
+  getParticipantCosts,
+  getPerPersonCost,
+  getWeekendCost,
+} from "../lib/budget";
+import { getGroupSize, getParticipantSchedule } from "../lib/participants";
+import type { WeatherData } from "../services/weatherService";
+import type { PlannerConstraints } from "../lib/weekendPlanner";
+import type { Activity, TimeSlot, WeekendTheme } from "../types";
+
+const saveWeekend = vi.hoisted(() => vi.fn().mockResolvedValue(undefined));
+const deleteWeekend = vi.hoisted(() => vi.fn().mockResolvedValue(undefined));
+const loadAllWeekends = vi.hoisted(() => vi.fn().mockResolvedValue([]));
+const saveTemplate = vi.hoisted(() => vi.fn().mockResolvedValue(undefined));
+
+// Mock the persistence store
+vi.mock("./persistenceStore", () => ({
+  usePersistenceStore: {
+    getState: () => ({
+      saveWeekend,
+      deleteWeekend,
+      loadWeekend: vi.fn().mockResolvedValue(null),
+      loadAllWeekends,
+      saveTemplate,
+      deleteTemplate: vi.fn().mockResolvedValue(undefined),
+      savePreferences: vi.fn().mockResolvedValue(undefined),
+      saveHistory: vi.fn().mockResolvedValue(undefined),
+    }),
+  },
+}));
+
+// Mock data
+const createActivity = (
+  id: string,
+  duration: number,
+  overrides: Partial<Activity> = {}
+): Activity => ({
+  id,
+  title: id,
+  description: `${id} description`,
+  category: {
+    id: "fitness",
+    name: "Fitness",
+    icon: "🏃",
+    color: "#10B981",
+    description: "Physical activities",
+  },
+  duration,
+  energyLevel: "medium",
+  mood: ["happy"],
+  weatherDependent: false,
+  icon: "activity",
+  tags: [],
+  ...overrides,
+});
+
+const afternoon: TimeSlot = {
+  id: "saturday-afternoon",
+  day: "saturday",
+  startTime: "12:00",
+  endTime: "17:00",
+  period: "afternoon",
+};
+
+const getSaturday = () => useScheduleStore.getState().currentWeekend!.saturday;
+
+describe("ScheduleStore", () => {
+  beforeEach(() => {
+    useWeatherStore.setState({ weatherData: null });
+    useScheduleStore.setState({ currentWeekend: null, conflicts: [] });
+    useScheduleStore.getState().createNewWeekend("Test Weekend");
+  });
+
+  describe("Activity Times", () => {
+    it("should start the first activity at the beginning of the period", () => {
+      const { addActivity } = useScheduleStore.getState();
+
+      addActivity(createActivity("lunch", 90), afternoon);
+
+      const [lunch] = getSaturday();
+      expect(lunch.startTime).toBe("12:00");
+      expect(lunch.endTime).toBe("13:30");
+    });
+
+    it("should schedule added activities after the previous one", () => {
+      const { addActivity } = useScheduleStore.getState();
+
+      addActivity(createActivity("lunch", 90), afternoon);
+      addActivity(createActivity("museum", 120), afternoon);
+
+      const [, museum] = getSaturday();
+      expect(museum.startTime).toBe("13:30");
+      expect(museum.endTime).toBe("15:30");
+    });
+
+    it("should re-time activities when they are reordered", () => {
+      const { addActivity, reorderActivities } = useScheduleStore.getState();
+
+      addActivity(createActivity("lunch", 90), afternoon);
+      addActivity(createActivity("museum", 120), afternoon);
+      const [lunch, museum] = getSaturday();
+
+      reorderActivities("saturday", "afternoon", [museum.id, lunch.id]);
+
+      const reordered = getSaturday();
+      expect(reordered.map((sa) => sa.activity.id)).toEqual([
+        "museum",
+        "lunch",
+      ]);
+      expect(reordered[0].startTime).toBe("12:00");
+      expect(reordered[1].startTime).toBe("14:00");
+      expect(reordered[1].endTime).toBe("15:30");
+    });
+
+    it("should cascade later activities when a start time is changed", () => {
+      const { addActivity, updateActivityTime } = useScheduleStore.getState();
+
+      addActivity(createActivity("lunch", 60), afternoon);
+      addActivity(createActivity("museum", 60), afternoon);
+      addActivity(createActivity("coffee", 30), afternoon);
+      const [lunch] = getSaturday();
+
+      updateActivityTime(lunch.id, "12:30");
+
+      const [updatedLunch, museum, coffee] = getSaturday();
+      expect(updatedLunch.endTime).toBe("13:30");
+      expect(museum.startTime).toBe("13:30");
+      expect(coffee.startTime).toBe("14:30");
+      expect(coffee.endTime).toBe("15:00");
+    });
+
+    it("should keep changed start times within the activity's period", () => {
+      const { addActivity, updateActivityTime } = useScheduleStore.getState();
+      addActivity(createActivity("lunch", 60), afternoon);
+      const [lunch] = getSaturday();
+
+      updateActivityTime(lunch.id, "08:00");
+      expect(getSaturday()[0]).toMatchObject({
+        startTime: "12:00",
+        endTime: "13:00",
+      });
+
+      updateActivityTime(lunch.id, "19:00");
+      expect(getSaturday()[0]).toMatchObject({
+        startTime: "16:59",
+        endTime: "17:59",
+      });
+    });
+
+    it("should place moved activities at the end of the target period", () => {
+      const { addActivity, moveActivity } = useScheduleStore.getState();
+      const evening: TimeSlot = {
+        id: "saturday-evening",
+        day: "saturday",
+        startTime: "17:00",
+        endTime: "22:00",
+        period: "evening",
+      };
+
+      addActivity(createActivity("dinner", 120), evening);
+      addActivity(createActivity("movie", 150), afternoon);
+      const movie = getSaturday().find((sa) => sa.activity.id === "movie")!;
+
+      moveActivity(movie.id, evening);
+
+      const moved = getSaturday().find((sa) => sa.id === movie.id)!;
+      expect(moved.timeSlot.period).toBe("evening");
+      expect(moved.startTime).toBe("19:00");
+      expect(moved.endTime).toBe("21:30");
+    });
+
+    it("should keep activities running past midnight and flag the overflow", () => {
+      const { addActivity, updateActivityTime } = useScheduleStore.getState();
+      const night: TimeSlot = {
+        id: "saturday-night",
+        day: "saturday",
+        startTime: "22:00",
+        endTime: "24:00",
+        period: "night",
+      };
+
+      addActivity(createActivity("drinks", 60), night);
+      expect(useScheduleStore.getState().conflicts).toHaveLength(0);
+      updateActivityTime(getSaturday()[0].id, "23:30");
+
+      const [drinks] = getSaturday();
+      expect(drinks.endTime).toBe("24:30");
+      expect(formatTimeRange(drinks.startTime, drinks.endTime)).toBe(
+        "11:30 PM - 12:30 AM"
+      );
+      const [overflow] = useScheduleStore
+        .getState()
+        .conflicts.filter((c) => c.type === "period_overflow");
+      expect(overflow.message).toBe(
+        "drinks runs 30m past the end of Saturday night"
+      );
+    });
+  });
+
+  describe("Time Periods", () => {
+    beforeEach(() => {
+      useUserStore.getState().updatePreferences({
+        timePeriods: DEFAULT_TIME_PERIODS,
+        dayTimePeriods: {},
+      });
+    });
+
+    it("should generate time slots from the user's periods", () => {
+      useUserStore.getState().updateTimePeriod("morning", "07:00", "11:30");
+
+      useScheduleStore.getState().generateTimeSlots();
+
+      const morning = useScheduleStore
+        .getState()
+        .getAvailableTimeSlots("saturday")
+        .find((slot) => slot.period === "morning");
+      expect(morning).toMatchObject({ startTime: "07:00", endTime: "11:30" });
+    });
+
+    it("should re-time planned activities when a period moves", () => {
+      const { addActivity } = useScheduleStore.getState();
+      addActivity(createActivity("lunch", 90), afternoon);
+      addActivity(createActivity("museum", 120), afternoon);
+      saveWeekend.mockClear();
+
+      useUserStore.getState().updateTimePeriod("afternoon", "12:30", "17:00");
+      useScheduleStore.getState().applyTimePeriods();
+
+      const [lunch, museum] = getSaturday();
+      expect(lunch).toMatchObject({ startTime: "12:30", endTime: "14:00" });
+      expect(museum).toMatchObject({ startTime: "14:00", endTime: "16:00" });
+      expect(lunch.timeSlot).toMatchObject({
+        startTime: "12:30",
+        endTime: "17:00",
+      });
+      expect(saveWeekend).toHaveBeenCalledTimes(1);
+    });
+
+    it("should flag activities starting before their period", () => {
+      useScheduleStore
+        .getState()
+        .addActivity(createActivity("lunch", 60), afternoon);
+
+      useUserStore.getState().updateTimePeriod("afternoon", "12:30", "17:00");
+      useScheduleStore.getState().detectConflicts();
+
+      const [early] = useScheduleStore
+        .getState()
+        .conflicts.filter((c) => c.type === "period_overflow");
+      expect(early.message).toBe(
+        "lunch starts 30m before Saturday afternoon begins"
+      );
+    });
+
+    it("should leave the weekend alone when periods are unchanged", () => {
+      useScheduleStore.getState().addActivity(createActivity("lunch", 90), {
+        ...afternoon,
+        id: "saturday-12:00-17:00",
+      });
+      const before = useScheduleStore.getState().currentWeekend;
+
+      useScheduleStore.getState().applyTimePeriods();
+
+      expect(useScheduleStore.getState().currentWeekend).toBe(before);
+    });
+
+    it("should reject periods that overlap", () => {
+      useUserStore.getState().updateTimePeriod("afternoon", "11:00", "17:00");
+
+      const { preferences, error } = useUserStore.getState();
+      expect(preferences.timePeriods.afternoon).toEqual(
+        DEFAULT_TIME_PERIODS.afternoon
+      );
+      expect(error).toBe("Afternoon overlaps morning");
+    });
+
+    it("should give a day its own periods", () => {
+      useUserStore
+        .getState()
+        .updateTimePeriod("morning", "10:00", "12:00", "sunday");
+      useScheduleStore.getState().generateTimeSlots();
+
+      const { getAvailableTimeSlots } = useScheduleStore.getState();
+      const morningOf = (day: "saturday" | "sunday") =>
+        getAvailableTimeSlots(day).find((slot) => slot.period === "morning");
+      expect(morningOf("sunday")).toMatchObject({ startTime: "10:00" });
+      expect(morningOf("saturday")).toMatchObject({ startTime: "08:00" });
+    });
+
+    it("should change days with their own periods when editing every day", () => {
+      const { updateTimePeriod } = useUserStore.getState();
+      updateTimePeriod("morning", "10:00", "12:00", "sunday");
+
+      updateTimePeriod("evening", "18:00", "22:00");
+
+      const { timePeriods, dayTimePeriods } =
+        useUserStore.getState().preferences;
+      expect(timePeriods.evening.start).toBe("18:00");
+      expect(dayTimePeriods.sunday?.evening.start).toBe("18:00");
+      expect(dayTimePeriods.sunday?.morning.start).toBe("10:00");
+    });
+
+    it("should check a day's activities against that day's periods", () => {
+      useUserStore
+        .getState()
+        .updateTimePeriod("afternoon", "12:00", "14:00", "saturday");
+      useScheduleStore.getState().applyTimePeriods();
+
+      useScheduleStore
+        .getState()
+        .addActivity(createActivity("museum", 180), afternoon);
+
+      const overflows = useScheduleStore
+        .getState()
+        .conflicts.filter((c) => c.type === "period_overflow");
+      expect(overflows).toHaveLength(1);
+    });
+
+    it("should go back to the shared periods when a day is reset", () => {
+      const { updateTimePeriod, resetDayTimePeriods } = useUserStore.getState();
+      updateTimePeriod("morning", "10:00", "12:00", "sunday");
+
+      resetDayTimePeriods("sunday");
+
+      expect(useUserStore.getState().preferences.dayTimePeriods).toEqual({});
+    });
+  });
+
+  describe("Conflict Detection", () => {
+    it("should not flag back-to-back activities in the same period", () => {
+      const { addActivity } = useScheduleStore.getState();
+
+      addActivity(createActivity("coffee", 30), afternoon);
+      addActivity(createActivity("walk", 30), afternoon);
+
+      expect(useScheduleStore.getState().conflicts).toEqual([]);
+    });
+
+    it("should flag activities whose time ranges overlap", () => {
+      const { addActivity, updateActivityTime } = useScheduleStore.getState();
+
+      addActivity(createActivity("hike", 300), afternoon);
+      addActivity(createActivity("lunch", 120), {
+        ...afternoon,
+        id: "saturday-morning",
+        period: "morning",
+        startTime: "08:00",
+        endTime: "12:00",
+      });
+      const lunch = getSaturday().find((sa) => sa.activity.id === "lunch")!;
+
+      updateActivityTime(lunch.id, "11:00");
+
+      const overlaps = useScheduleStore
+        .getState()
+        .conflicts.filter((c) => c.type === "time_overlap");
+      expect(overlaps).toHaveLength(1);
+      expect(overlaps[0].severity).toBe("high");
+      expect(overlaps[0].message).toContain("1h");
+    });
+
+    it("should scale overlap severity with the amount of overlap", () => {
+      const { addActivity, updateActivityTime } = useScheduleStore.getState();
+
+      addActivity(createActivity("brunch", 120), afternoon);
+      addActivity(createActivity("nap", 120), {
+        ...afternoon,
+        id: "saturday-morning",
+        period: "morning",
+        startTime: "08:00",
+        endTime: "12:00",
+      });
+      const nap = getSaturday().find((sa) => sa.activity.id === "nap")!;
+
+      updateActivityTime(nap.id, "10:10");
+
+      const [overlap] = useScheduleStore.getState().conflicts;
+      expect(overlap.type).toBe("time_overlap");
+      expect(overlap.severity).toBe("low");
+    });
+
+    it("should flag periods whose activities exceed the period length", () => {
+      const { addActivity } = useScheduleStore.getState();
+
+      addActivity(createActivity("hike", 240), afternoon);
+      addActivity(createActivity("museum", 120), afternoon);
+
+      const overflows = useScheduleStore
+        .getState()
+        .conflicts.filter((c) => c.type === "period_overflow");
+      expect(overflows).toHaveLength(1);
+      expect(overflows[0].activities).toHaveLength(2);
+      expect(overflows[0].severity).toBe("medium");
+    });
+  });
+
+  describe("Energy Conflicts", () => {
+    const morning: TimeSlot = {
+      id: "saturday-morning",
+      day: "saturday",
+      startTime: "08:00",
+      endTime: "12:00",
+      period: "morning",
+    };
+
+    const getEnergyConflicts = () =>
+      useScheduleStore
+        .getState()
+        .conflicts.filter((c) => c.type === "energy_mismatch");
+
+    it("should flag three high-energy activities in a row", () => {
+      const { addActivity } = useScheduleStore.getState();
+
+      addActivity(createActivity("run", 60, { energyLevel: "high" }), morning);
+      addActivity(
+        createActivity("climb", 60, { energyLevel: "high" }),
+        morning
+      );
+      addActivity(createActivity("swim", 60, { energyLevel: "high" }), morning);
+      addActivity(createActivity("read", 60, { energyLevel: "low" }), morning);
+
+      const [streak] = getEnergyConflicts();
+      expect(streak.activities.map((sa) => sa.activity.id)).toEqual([
+        "run",
+        "climb",
+        "swim",
+      ]);
+      expect(streak.message).toContain("run, climb and swim");
+    });
+
+    it("should not count activities separated by a rest as a streak", () => {
+      const { addActivity, updateActivityTime } = useScheduleStore.getState();
+
+      addActivity(createActivity("run", 60, { energyLevel: "high" }), morning);
+      addActivity(
+        createActivity("climb", 60, { energyLevel: "high" }),
+        morning
+      );
+      addActivity(
+        createActivity("swim", 60, { energyLevel: "high" }),
+        afternoon
+      );
+      addActivity(createActivity("nap", 60, { energyLevel: "low" }), {
+        id: "saturday-evening",
+        day: "saturday",
+        startTime: "17:00",
+        endTime: "22:00",
+        period: "evening",
+      });
+      const swim = getSaturday().find((sa) => sa.activity.id === "swim")!;
+
+      updateActivityTime(swim.id, "15:00");
+
+      expect(getEnergyConflicts()).toEqual([]);
+    });
+
+    it("should flag high-energy activities at night", () => {
+      const { addActivity } = useScheduleStore.getState();
+
+      addActivity(createActivity("nap", 60, { energyLevel: "low" }), morning);
+      addActivity(createActivity("dance", 90, { energyLevel: "high" }), {
+        id: "saturday-night",
+        day: "saturday",
+        startTime: "22:00",
+        endTime: "24:00",
+        period: "night",
+      });
+
+      const [night] = getEnergyConflicts();
+      expect(night.activities[0].activity.id).toBe("dance");
+      expect(night.message).toContain("Saturday night");
+    });
+
+    it("should flag days without any low-energy recovery time", () => {
+      const { addActivity } = useScheduleStore.getState();
+
+      addActivity(
+        createActivity("hike", 120, { energyLevel: "high" }),
+        morning
+      );
+      addActivity(createActivity("lunch", 60), afternoon);
+
+      const [recovery] = getEnergyConflicts();
+      expect(recovery.id).toBe("energy_mismatch-recovery-saturday");
+      expect(recovery.severity).toBe("low");
+    });
+  });
+
+  describe("Weather Conflicts", () => {
+    // Hourly forecast for the coming Saturday, in the shifted-UTC form the
+    // weather service produces
+    const createForecast = (
+      hourly: (hour: number) => {
+        weatherCode: number;
+        temperature: number;
+        precipitation: number;
+        windSpeed: number;
+      }
+    ): WeatherData => {
+      const saturday = getUpcomingWeekendDate("saturday");
+      const hours = Array.from({ length: 24 }, (_, hour) => hour);
+      const values = hours.map(hourly);
+      return {
+        latitude: 0,
+        longitude: 0,
+        elevation: 0,
+        timezone: "auto",
+        current: {
+          temperature: 20,
+          weatherCode: 0,
+          windSpeed: 5,
+          humidity: 50,
+          precipitation: 0,
+        },
+        hourly: {
+          time: hours.map(
+            (hour) =>
+              new Date(
+                Date.UTC(
+                  saturday.getFullYear(),
+                  saturday.getMonth(),
+                  saturday.getDate(),
+                  hour
+                )
+              )
+          ),
+          temperature: values.map((v) => v.temperature),
+          weatherCode: values.map((v) => v.weatherCode),
+          precipitation: values.map((v) => v.precipitation),
+          windSpeed: values.map((v) => v.windSpeed),
+        },
+        daily: {
+          time: [],
+          temperatureMax: [],
+          temperatureMin: [],
+          weatherCode: [],
+          precipitationSum: [],
+        },
+      };
+    };
+
+    const rainyAfternoon = createForecast((hour) =>
+      hour >= 12
+        ? { weatherCode: 63, temperature: 14, precipitation: 3, windSpeed: 10 }
+        : { weatherCode: 0, temperature: 18, precipitation: 0, windSpeed: 10 }
+    );
+
+    const getWeatherConflicts = () =>
+      useScheduleStore
+        .getState()
+        .conflicts.filter((c) => c.type === "weather_conflict");
+
+    it("should keep planned outdoor activities out of the rain", () => {
+      useWeatherStore.setState({ weatherData: rainyAfternoon });
+      useActivityStore.setState({
+        activities: [createActivity("picnic", 120, { weatherDependent: true })],
+      });
+
+      useScheduleStore.getState().autoPlanWeekend(
+        {
+          moods: [],
+          energyBudget: 10,
+          mustInclude: ["picnic"],
+          blockedPeriods: [],
+        },
+        1
+      );
+
+      const [picnic] = getSaturday();
+      expect(picnic.timeSlot.period).toBe("morning");
+      expect(getWeatherConflicts()).toHaveLength(0);
+    });
+
+    it("should flag outdoor activities planned during rain", () => {
+      const { addActivity } = useScheduleStore.getState();
+      useWeatherStore.setState({ weatherData: rainyAfternoon });
+
+      addActivity(
+        createActivity("picnic", 120, { weatherDependent: true }),
+        afternoon
+      );
+      addActivity(createActivity("cinema", 120), afternoon);
+
+      const conflicts = getWeatherConflicts();
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0].activities[0].activity.id).toBe("picnic");
+      expect(conflicts[0].message).toContain("moderate rain");
+      expect(conflicts[0].severity).toBe("high");
+    });
+
+    it("should re-evaluate when the forecast is refreshed", () => {
+      const { addActivity } = useScheduleStore.getState();
+
+      addActivity(
+        createActivity("picnic", 120, { weatherDependent: true }),
+        afternoon
+      );
+      expect(getWeatherConflicts()).toHaveLength(0);
+
+      useWeatherStore.setState({ weatherData: rainyAfternoon });
+      expect(getWeatherConflicts()).toHaveLength(1);
+
+      useWeatherStore.setState({
+        weatherData: createForecast(() => ({
+          weatherCode: 1,
+          temperature: 22,
+          precipitation: 0,
+          windSpeed: 55,
+        })),
+      });
+      expect(getWeatherConflicts()[0].message).toContain("wind at 55 km/h");
+    });
+
+    it("should use the forecast for the weekend's own dates", () => {
+      const { addActivity, updateWeekendStartDate } =
+        useScheduleStore.getState();
+      useWeatherStore.setState({ weatherData: rainyAfternoon });
+      addActivity(
+        createActivity("picnic", 120, { weatherDependent: true }),
+        afternoon
+      );
+      expect(getWeatherConflicts()).toHaveLength(1);
+
+      const nextWeek = getUpcomingWeekendDate("saturday");
+      nextWeek.setDate(nextWeek.getDate() + 7);
+      updateWeekendStartDate(formatDateKey(nextWeek));
+
+      expect(getWeatherConflicts()).toHaveLength(0);
+    });
+  });
+
+  describe("Location Conflicts", () => {
+    // Roughly 10 km apart
+    const museum = { latitude: 51.5194, longitude: -0.127 };
+    const park = { latitude: 51.4295, longitude: -0.1455 };
+
+    const getLocationConflicts = () =>
+      useScheduleStore
+        .getState()
+        .conflicts.filter((c) => c.type === "location_conflict");
+
+    it("should flag back-to-back activities too far apart to travel", () => {
+      const { addActivity, updateActivityLocation } =
+        useScheduleStore.getState();
+
+      addActivity(createActivity("museum", 60), afternoon);
+      addActivity(createActivity("park", 60), afternoon);
+      const [first, second] = getSaturday();
+
+      updateActivityLocation(first.id, museum);
+      updateActivityLocation(second.id, park, "walking");
+
+      const [conflict] = getLocationConflicts();
+      expect(conflict.activities.map((sa) => sa.activity.id)).toEqual([
+        "museum",
+        "park",
+      ]);
+      expect(conflict.message).toContain("by walking");
+      expect(conflict.severity).toBe("high");
+    });
+
+    it("should accept a gap long enough for the travel mode", () => {
+      const { addActivity, updateActivityLocation, updateActivityTime } =
+        useScheduleStore.getState();
+
+      addActivity(createActivity("museum", 60), afternoon);
+      addActivity(createActivity("park", 60), afternoon);
+      const [first, second] = getSaturday();
+
+      updateActivityLocation(first.id, museum);
+      updateActivityLocation(second.id, park, "driving");
+      updateActivityTime(second.id, "13:30");
+
+      expect(getLocationConflicts()).toEqual([]);
+    });
+
+    it("should ignore activities without coordinates", () => {
+      const { addActivity, updateActivityLocation } =
+        useScheduleStore.getState();
+
+      addActivity(createActivity("museum", 60), afternoon);
+      addActivity(createActivity("park", 60), afternoon);
+      const [first] = getSaturday();
+
+      updateActivityLocation(first.id, museum);
+
+      expect(getLocationConflicts()).toEqual([]);
+    });
+  });
+
+  describe("Budget", () => {
+    const budgetConflicts = () =>
+      useScheduleStore
+        .getState()
+        .conflicts.filter((c) => c.type === "budget_exceeded");
+
+    it("should total the spend of every day", () => {
+      const { addActivity } = useScheduleStore.getState();
+      addActivity(createActivity("lunch", 60, { cost: 30 }), afternoon);
+      addActivity(createActivity("walk", 60), {
+        ...afternoon,
+        id: "sunday-afternoon",
+        day: "sunday",
+      });
+      addActivity(createActivity("cinema", 60, { cost: 12.5 }), {
+        ...afternoon,
+        id: "sunday-afternoon",
+        day: "sunday",
+      });
+
+      const weekend = useScheduleStore.getState().currentWeekend!;
+      expect(getWeekendCost(weekend)).toBe(42.5);
+      expect(getPerPersonCost(42.5, 2)).toBe(21.25);
+      expect(getPerPersonCost(42.5)).toBeUndefined();
+    });
+
+    it("should raise a conflict when the plan goes over budget", () => {
+      const { addActivity, setWeekendBudget } = useScheduleStore.getState();
+      addActivity(createActivity("lunch", 60, { cost: 30 }), afternoon);
+      addActivity(createActivity("walk", 60), afternoon);
+      setWeekendBudget(50);
+      expect(budgetConflicts()).toHaveLength(0);
+
+      addActivity(createActivity("spa", 60, { cost: 45 }), afternoon);
+
+      const [conflict] = budgetConflicts();
+      expect(conflict.activities.map((sa) => sa.activity.id)).toEqual([
+        "lunch",
+        "spa",
+      ]);
+      expect(conflict.message).toContain("25 over the weekend budget of 50");
+      expect(conflict.severity).toBe("high");
+    });
+
+    it("should clear the conflict when the budget is removed", () => {
+      const { addActivity, setWeekendBudget } = useScheduleStore.getState();
+      addActivity(createActivity("lunch", 60, { cost: 30 }), afternoon);
+      setWeekendBudget(28);
+      expect(budgetConflicts()[0].severity).toBe("low");
+
+      setWeekendBudget(undefined);
+
+      expect(budgetConflicts()).toHaveLength(0);
+      expect(useScheduleStore.getState().currentWeekend!.budget).toBe(
+        undefined
+      );
+    });
+
+    it("should save the group size on the weekend", () => {
+      const { setWeekendGroupSize } = useScheduleStore.getState();
+
+      setWeekendGroupSize(3);
+      expect(useScheduleStore.getState().currentWeekend!.groupSize).toBe(3);
+
+      setWeekendGroupSize(0);
+      expect(
+        useScheduleStore.getState().currentWeekend!.groupSize
+      ).toBeUndefined();
+    });
+
+    it("should ignore budget and group size edits that change nothing", () => {
+      const { setWeekendBudget, setWeekendGroupSize } =
+        useScheduleStore.getState();
+      setWeekendBudget(50);
+      setWeekendGroupSize(3);
+      saveWeekend.mockClear();
+      const { past } = useScheduleStore.getState();
+
+      setWeekendBudget(50);
+      setWeekendGroupSize(2.6);
+
+      expect(useScheduleStore.getState().past).toBe(past);
+      expect(saveWeekend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Participants", () => {
+    const participantConflicts = () =>
+      useScheduleStore
+        .getState()
+        .conflicts.filter((c) => c.type === "participant_mismatch");
+    const getParticipants = () =>
+      useScheduleStore.getState().currentWeekend!.participants ?? [];
+
+    beforeEach(() => {
+      const { addParticipant } = useScheduleStore.getState();
+      ["Ana", "Ben", "Cleo"].forEach((name) => addParticipant(name));
+    });
+
+    it("should split costs between the people going", () => {
+      const { setWeekendGroupSize } = useScheduleStore.getState();
+      setWeekendGroupSize(5);
+
+      const weekend = useScheduleStore.getState().currentWeekend!;
+      expect(getParticipants().map((p) => p.name)).toEqual([
+        "Ana",
+        "Ben",
+        "Cleo",
+      ]);
+      expect(getGroupSize(weekend)).toBe(3);
+    });
+
+    it("should split each activity's cost between its own people", () => {
+      const { addActivity, setActivityParticipants } =
+        useScheduleStore.getState();
+      addActivity(createActivity("tennis", 60, { cost: 30 }), afternoon);
+      addActivity(createActivity("picnic", 60, { cost: 30 }), afternoon);
+      const [ana, ben, cleo] = getParticipants();
+      setActivityParticipants(getSaturday()[0].id, [ana.id, ben.id]);
+
+      expect(getParticipantCosts(getSaturday(), getParticipants())).toEqual({
+        [ana.id]: 25,
+        [ben.id]: 25,
+        [cleo.id]: 10,
+      });
+    });
+
+    it("should flag activities with too few or too many people", () => {
+      const { addActivity, setActivityParticipants } =
+        useScheduleStore.getState();
+      addActivity(
+        createActivity("tennis", 60, {
+          minParticipants: 2,
+          maxParticipants: 2,
+        }),
+        afternoon
+      );
+      const [tennis] = getSaturday();
+
+      const [tooMany] = participantConflicts();
+      expect(tooMany.activities[0].id).toBe(tennis.id);
+      expect(tooMany.message).toContain("takes at most 2 people");
+      expect(tooMany.severity).toBe("high");
+
+      const [ana, ben] = getParticipants();
+      setActivityParticipants(tennis.id, [ana.id, ben.id]);
+      expect(participantConflicts()).toHaveLength(0);
+
+      setActivityParticipants(tennis.id, [ana.id]);
+      const [tooFew] = participantConflicts();
+      expect(tooFew.message).toContain("needs at least 2 people");
+      expect(tooFew.severity).toBe("high");
+    });
+
+    it("should take removed people off their activities", () => {
+      const { addActivity, setActivityParticipants, removeParticipant } =
+        useScheduleStore.getState();
+      addActivity(createActivity("tennis", 60), afternoon);
+      const [ana, ben] = getParticipants();
+      setActivityParticipants(getSaturday()[0].id, [ana.id, ben.id]);
+
+      removeParticipant(ben.id);
+
+      expect(getParticipants().map((p) => p.name)).toEqual(["Ana", "Cleo"]);
+      expect(getSaturday()[0].participantIds).toEqual([ana.id]);
+    });
+
+    it("should include everyone again when an activity's only person leaves", () => {
+      const { addActivity, setActivityParticipants, removeParticipant } =
+        useScheduleStore.getState();
+      addActivity(createActivity("tennis", 60), afternoon);
+      const [ana] = getParticipants();
+      setActivityParticipants(getSaturday()[0].id, [ana.id]);
+
+      removeParticipant(ana.id);
+
+      expect(getSaturday()[0].participantIds).toBeUndefined();
+      expect(participantConflicts()).toHaveLength(0);
+    });
+
+    it("should show only what one person attends", () => {
+      const { addActivity, setActivityParticipants } =
+        useScheduleStore.getState();
+      addActivity(createActivity("tennis", 60), afternoon);
+      addActivity(createActivity("lunch", 60), afternoon);
+      const [ana, ben] = getParticipants();
+      setActivityParticipants(getSaturday()[0].id, [ana.id]);
+
+      const weekend = useScheduleStore.getState().currentWeekend!;
+      expect(
+        getParticipantSchedule(weekend, ana.id).saturday.map(
+          (sa) => sa.activity.id
+        )
+      ).toEqual(["tennis", "lunch"]);
+      expect(
+        getParticipantSchedule(weekend, ben.id).saturday.map(
+          (sa) => sa.activity.id
+        )
+      ).toEqual(["lunch"]);
+    });
+  });
+
+  describe("Undo and Redo", () => {
+    it("should undo and redo schedule edits", () => {
+      const { addActivity, removeActivity } = useScheduleStore.getState();
+
+      addActivity(createActivity("lunch", 60), afternoon);
+      const [lunch] = getSaturday();
+      removeActivity(lunch.id);
+      expect(getSaturday()).toHaveLength(0);
+
+      useScheduleStore.getState().undo();
+      expect(getSaturday().map((sa) => sa.id)).toEqual([lunch.id]);
+
+      useScheduleStore.getState().undo();
+      expect(getSaturday()).toHaveLength(0);
+
+      useScheduleStore.getState().redo();
+      expect(getSaturday().map((sa) => sa.id)).toEqual([lunch.id]);
+    });
+
+    it("should persist the weekend that undo restores", () => {
+      const { addActivity, updateWeekendTitle } = useScheduleStore.getState();
+
+      addActivity(createActivity("lunch", 60), afternoon);
+      updateWeekendTitle("Renamed");
+      saveWeekend.mockClear();
+
+      useScheduleStore.getState().undo();
+
+      const restored = useScheduleStore.getState().currentWeekend!;
+      expect(restored.title).toBe("Test Weekend");
+      expect(saveWeekend).toHaveBeenCalledWith(restored);
+    });
+
+    it("should drop redo steps after a new edit", () => {
+      const { addActivity } = useScheduleStore.getState();
+
+      addActivity(createActivity("lunch", 60), afternoon);
+      useScheduleStore.getState().undo();
+      expect(useScheduleStore.getState().future).toHaveLength(1);
+
+      addActivity(createActivity("museum", 60), afternoon);
+
+      expect(useScheduleStore.getState().future).toHaveLength(0);
+    });
+
+    it("should keep a bounded number of undo steps", () => {
+      const { updateWeekendTitle } = useScheduleStore.getState();
+
+      for (let i = 0; i < 60; i++) {
+        updateWeekendTitle(`Title ${i}`);
+      }
+
+      expect(useScheduleStore.getState().past).toHaveLength(50);
+    });
+  });
+
+  describe("Weekend Dates", () => {
+    const getStartDate = () =>
+      useScheduleStore.getState().currentWeekend!.startDate;
+
+    it("should plan new weekends for the coming Saturday by default", () => {
+      expect(getStartDate()).toBe(
+        formatDateKey(getUpcomingWeekendDate("saturday"))
+      );
+    });
+
+    it("should snap a picked midweek date to the following Saturday", () => {
+      // Wednesday
+      useScheduleStore
+        .getState()
+        .createNewWeekend("Dated", undefined, "2025-06-11");
+
+      expect(getStartDate()).toBe("2025-06-14");
+    });
+
+    it("should keep a picked holiday Monday with its own weekend", () => {
+      useScheduleStore
+        .getState()
+        .createNewWeekend(
+          "Bank Holiday",
+          ["saturday", "sunday", "monday"],
+          "2025-05-26"
+        );
+
+      expect(getStartDate()).toBe("2025-05-24");
+    });
+  });
+
+  describe("Long Weekends", () => {
+    const fridayEvening: TimeSlot = {
+      id: "friday-evening",
+      day: "friday",
+      startTime: "17:00",
+      endTime: "22:00",
+      period: "evening",
+    };
+
+    const getWeekend = () => useScheduleStore.getState().currentWeekend!;
+
+    it("should start with a regular Saturday and Sunday weekend", () => {
+      expect(getWeekend().days).toEqual(["saturday", "sunday"]);
+    });
+
+    it("should keep added days in calendar order", () => {
+      const { setWeekendDays } = useScheduleStore.getState();
+
+      setWeekendDays(["monday", "saturday", "sunday", "friday"]);
+
+      expect(getWeekend().days).toEqual([
+        "friday",
+        "saturday",
+        "sunday",
+        "monday",
+      ]);
+    });
+
+    it("should only offer evening slots on Friday", () => {
+      const { setWeekendDays } = useScheduleStore.getState();
+
+      setWeekendDays(["friday", "saturday", "sunday"]);
+
+      const fridaySlots = useScheduleStore
+        .getState()
+        .getAvailableTimeSlots("friday");
+      expect(fridaySlots.map((slot) => slot.period)).toEqual([
+        "evening",
+        "night",
+      ]);
+    });
+
+    it("should move activities between any days of the weekend", () => {
+      const { setWeekendDays, addActivity } = useScheduleStore.getState();
+      setWeekendDays(["friday", "saturday", "sunday", "monday"]);
+      addActivity(createActivity("dinner", 90), fridayEvening);
+      const [dinner] = getWeekend().friday;
+
+      useScheduleStore.getState().moveActivity(dinner.id, {
+        ...afternoon,
+        id: "monday-afternoon",
+        day: "monday",
+      });
+
+      expect(getWeekend().friday).toHaveLength(0);
+      expect(getWeekend().monday.map((sa) => sa.id)).toEqual([dinner.id]);
+    });
+
+    it("should drop a removed day's activities until undone", () => {
+      const { setWeekendDays, addActivity } = useScheduleStore.getState();
+      setWeekendDays(["friday", "saturday", "sunday"]);
+      addActivity(createActivity("dinner", 90), fridayEvening);
+
+      useScheduleStore.getState().setWeekendDays(["saturday", "sunday"]);
+      expect(getWeekend().friday).toHaveLength(0);
+
+      useScheduleStore.getState().undo();
+      expect(getWeekend().days).toContain("friday");
+      expect(getWeekend().friday).toHaveLength(1);
+    });
+
+    it("should detect conflicts on added days", () => {
+      const { setWeekendDays, addActivity, updateActivityTime } =
+        useScheduleStore.getState();
+      setWeekendDays(["friday", "saturday", "sunday"]);
+      addActivity(createActivity("dinner", 90), fridayEvening);
+      addActivity(createActivity("movie", 120), fridayEvening);
+      const [, movie] = getWeekend().friday;
+
+      updateActivityTime(movie.id, "18:00");
+
+      expect(
+        useScheduleStore
+          .getState()
+          .conflicts.some((c) => c.type === "time_overlap")
+      ).toBe(true);
+    });
+
+    it("should refuse to remove every day", () => {
+      useScheduleStore.getState().setWeekendDays([]);
+
+      expect(getWeekend().days).toEqual(["saturday", "sunday"]);
+    });
+  });
+
+  describe("Saved Weekends", () => {
+    it("should duplicate a weekend with fresh ids and no completions", async () => {
+      const { addActivity, toggleActivityCompletion } =
+        useScheduleStore.getState();
+      addActivity(createActivity("lunch", 60), afternoon);
+      const [lunch] = getSaturday();
+      toggleActivityCompletion(lunch.id);
+      const original = useScheduleStore.getState().currentWeekend!;
+      saveWeekend.mockClear();
+
+      await useScheduleStore.getState().duplicateWeekend(original.id);
+
+      const copy = saveWeekend.mock.calls[0][0];
+      expect(copy.id).not.toBe(original.id);
+      expect(copy.title).toBe("Test Weekend (copy)");
+      expect(copy.startDate).toBe(original.startDate);
+      expect(copy.saturday[0].id).not.toBe(lunch.id);
+      expect(copy.saturday[0].completed).toBe(false);
+      expect(useScheduleStore.getState().currentWeekend).toBe(original);
+    });
+
+    it("should rename the open weekend through the schedule", async () => {
+      const { id } = useScheduleStore.getState().currentWeekend!;
+
+      await useScheduleStore.getState().renameWeekend(id, "Renamed");
+
+      expect(useScheduleStore.getState().currentWeekend!.title).toBe("Renamed");
+      expect(useScheduleStore.getState().past).toHaveLength(1);
+    });
+
+    it("should move on to another weekend when the open one is deleted", async () => {
+      const { id } = useScheduleStore.getState().currentWeekend!;
+
+      await useScheduleStore.getState().deleteWeekend(id);
+
+      expect(deleteWeekend).toHaveBeenCalledWith(id);
+      const next = useScheduleStore.getState().currentWeekend!;
+      expect(next.id).not.toBe(id);
+      expect(next.title).toBe("My Weekend Plan");
+    });
+
+    it("should keep saved weekend failures out of the planner's state", async () => {
+      loadAllWeekends.mockRejectedValueOnce(new Error("Database closed"));
+
+      await useScheduleStore.getState().loadSavedWeekends();
+
+      const state = useScheduleStore.getState();
+      expect(state.savedWeekendsError).toBe("Database closed");
+      expect(state.savedWeekendsLoading).toBe(false);
+      expect(state.error).toBeNull();
+      expect(state.loading).toBe(false);
+    });
+
+    it("should record finished weekends in the history once", async () => {
+      const { addActivity } = useScheduleStore.getState();
+      addActivity(createActivity("lunch", 60), afternoon);
+      const upcoming = useScheduleStore.getState().currentWeekend!;
+      const finished = { ...upcoming, id: "finished", startDate: "2024-03-02" };
+      const empty = {
+        ...finished,
+        id: "empty",
+        saturday: [],
+        startDate: "2024-03-09",
+      };
+      useUserStore.setState({ weekendHistory: [] });
+      loadAllWeekends
+        .mockResolvedValueOnce([upcoming, finished, empty])
+        .mockResolvedValueOnce([upcoming, finished, empty]);
+
+      await useScheduleStore.getState().loadSavedWeekends();
+      const { weekendHistory } = useUserStore.getState();
+      await useScheduleStore.getState().loadSavedWeekends();
+
+      expect(weekendHistory.map((w) => w.id)).toEqual(["finished"]);
+      expect(useUserStore.getState().weekendHistory).toBe(weekendHistory);
+    });
+
+    it("should list recently scheduled activities newest weekend first", () => {
+      const { addActivity } = useScheduleStore.getState();
+      addActivity(createActivity("lunch", 60), afternoon);
+      addActivity(createActivity("museum", 60), afternoon);
+      const older = {
+        ...useScheduleStore.getState().currentWeekend!,
+        updatedAt: new Date("2024-01-01"),
+      };
+
+      useScheduleStore.getState().createNewWeekend("Newer Weekend");
+      addActivity(createActivity("museum", 60), afternoon);
+      addActivity(createActivity("cinema", 60), afternoon);
+      const newer = useScheduleStore.getState().currentWeekend!;
+
+      expect(getRecentActivityIds([older, newer])).toEqual([
+        "museum",
+        "cinema",
+        "lunch",
+      ]);
+      expect(getRecentActivityIds([older, newer], 2)).toEqual([
+        "museum",
+        "cinema",
+      ]);
+    });
+  });
+
+  describe("Templates", () => {
+    it("should save a template without ids or completion state", async () => {
+      const { addActivity, toggleActivityCompletion } =
+        useScheduleStore.getState();
+      addActivity(createActivity("lunch", 60), afternoon);
+      toggleActivityCompletion(getSaturday()[0].id);
+      const weekend = useScheduleStore.getState().currentWeekend!;
+
+      await useScheduleStore.getState().saveAsTemplate(weekend, "Lazy Sunday");
+
+      const template = saveTemplate.mock.calls[0][0];
+      expect(template.name).toBe("Lazy Sunday");
+      expect(template.days).toEqual(["saturday", "sunday"]);
+      expect(template.saturday[0].activity.id).toBe("lunch");
+      expect(template.saturday[0].startTime).toBe("12:00");
+      expect(template.saturday[0]).not.toHaveProperty("id");
+      expect(template.saturday[0]).not.toHaveProperty("completed");
+      expect(useScheduleStore.getState().templates[0]).toBe(template);
+    });
+
+    it("should create a weekend from a template with fresh ids", async () => {
+      const { addActivity } = useScheduleStore.getState();
+      addActivity(createActivity("lunch", 60), afternoon);
+      const weekend = useScheduleStore.getState().currentWeekend!;
+      await useScheduleStore.getState().saveAsTemplate(weekend, "Lazy Sunday");
+      const [template] = useScheduleStore.getState().templates;
+
+      useScheduleStore
+        .getState()
+        .createWeekendFromTemplate(template.id, "Next Weekend", "2025-06-14");
+
+      const created = useScheduleStore.getState().currentWeekend!;
+      expect(created.id).not.toBe(weekend.id);
+      expect(created.title).toBe("Next Weekend");
+      expect(created.startDate).toBe("2025-06-14");
+      expect(created.saturday).toHaveLength(1);
+      expect(created.saturday[0].id).not.toBe(weekend.saturday[0].id);
+      expect(created.saturday[0].completed).toBe(false);
+      expect(created.saturday[0].startTime).toBe("12:00");
+      expect(useScheduleStore.getState().past).toHaveLength(0);
+    });
+  });
+
+  describe("Themes", () => {
+    const theme: WeekendTheme = {
+      id: "mixed",
+      name: "Mixed Weekend",
+      description: "A bit of everything",
+      icon: "palette",
+      color: "#a78bfa",
+      suggestedActivities: ["hike", "brunch", "reading", "climbing", "missing"],
+      moodProfile: ["happy"],
+    };
+
+    beforeEach(() => {
+      useActivityStore.setState({
+        activities: [
+          createActivity("hike", 180, { energyLevel: "high" }),
+          createActivity("brunch", 90),
+          createActivity("reading", 60, { energyLevel: "low" }),
+          createActivity("climbing", 120, { energyLevel: "high" }),
+        ],
+      });
+    });
+
+    it("should place suggested activities by energy across both days", () => {
+      const added = useScheduleStore.getState().applyTheme(theme);
+
+      const weekend = useScheduleStore.getState().currentWeekend!;
+      const placed = [...weekend.saturday, ...weekend.sunday];
+      expect(added).toBe(4);
+      expect(weekend.theme).toBe(theme);
+      expect(weekend.saturday.length).toBeGreaterThan(0);
+      expect(weekend.sunday.length).toBeGreaterThan(0);
+      placed
+        .filter((sa) => sa.activity.energyLevel === "high")
+        .forEach((sa) =>
+          expect(["morning", "afternoon"]).toContain(sa.timeSlot.period)
+        );
+      expect(
+        placed.find((sa) => sa.activity.id === "reading")!.timeSlot.period
+      ).toBe("evening");
+      expect(
+        useScheduleStore
+          .getState()
+          .conflicts.filter((c) => c.severity === "high")
+      ).toHaveLength(0);
+    });
+
+    it("should skip activities already planned and record one undo step", () => {
+      useScheduleStore
+        .getState()
+        .addActivity(createActivity("brunch", 90), afternoon);
+
+      const added = useScheduleStore.getState().applyTheme(theme);
+
+      const weekend = useScheduleStore.getState().currentWeekend!;
+      expect(added).toBe(3);
+      expect(
+        [...weekend.saturday, ...weekend.sunday].filter(
+          (sa) => sa.activity.id === "brunch"
+        )
+      ).toHaveLength(1);
+
+      useScheduleStore.getState().undo();
+      expect(useScheduleStore.getState().currentWeekend!.theme).toBeUndefined();
+    });
+
+    it("should leave out activities that do not fit the free time", () => {
+      useActivityStore.setState({
+        activities: [createActivity("hike", 600, { energyLevel: "high" })],
+      });
+
+      const added = useScheduleStore.getState().applyTheme(theme);
+
+      expect(added).toBe(0);
+      expect(useScheduleStore.getState().currentWeekend!.theme).toBe(theme);
+    });
+  });
+
+  describe("Auto Planner", () => {
+    const catalogue = [
+      createActivity("hike", 180, {
+        energyLevel: "high",
+        mood: ["adventurous"],
+        cost: 0,
+      }),
+      createActivity("climbing", 120, {
+        energyLevel: "high",
+        mood: ["energetic", "adventurous"],
+        cost: 40,
+      }),
+      createActivity("brunch", 90, { mood: ["social", "happy"], cost: 25 }),
+      createActivity("museum", 120, { mood: ["contemplative"], cost: 15 }),
+      createActivity("market", 60, { mood: ["happy"], cost: 10 }),
+      createActivity("reading", 60, {
+        energyLevel: "low",
+        mood: ["relaxed"],
+      }),
+      createActivity("spa", 120, {
+        energyLevel: "low",
+        mood: ["relaxed"],
+        cost: 80,
+      }),
+      createActivity("movie", 150, {
+        energyLevel: "low",
+        mood: ["happy", "relaxed"],
+        cost: 12,
+      }),
+    ];
+
+    const constraints: PlannerConstraints = {
+      moods: [],
+      energyBudget: 7,
+      mustInclude: [],
+      blockedPeriods: [],
+    };
+
+    const planIds = () => {
+      const weekend = useScheduleStore.getState().currentWeekend!;
+      return [...weekend.saturday, ...weekend.sunday].map(
+        (sa) => `${sa.timeSlot.day}-${sa.activity.id}-${sa.startTime}`
+      );
+    };
+
+    const getPlanned = () => {
+      const weekend = useScheduleStore.getState().currentWeekend!;
+      return [...weekend.saturday, ...weekend.sunday];
+    };
+
+    beforeEach(() => {
+      useActivityStore.setState({ activities: catalogue });
+    });
+
+    it("should give the same plan for the same seed", () => {
+      const { autoPlanWeekend } = useScheduleStore.getState();
+
+      autoPlanWeekend(constraints, 42);
+      const first = planIds();
+      autoPlanWeekend(constraints, 42);
+
+      expect(first.length).toBeGreaterThan(0);
+      expect(planIds()).toEqual(first);
+    });
+
+    it("should offer alternatives for other seeds", () => {
+      const { autoPlanWeekend } = useScheduleStore.getState();
+      const plans = new Set(
+        [1, 2, 3, 4, 5].map((seed) => {
+          autoPlanWeekend({ ...constraints, energyBudget: 4 }, seed);
+          return planIds().join(",");
+        })
+      );
+
+      expect(plans.size).toBeGreaterThan(1);
+    });
+
+    it("should respect moods, budget, cost and blocked periods", () => {
+      useScheduleStore.getState().autoPlanWeekend(
+        {
+          moods: ["relaxed", "happy"],
+          energyBudget: 3,
+          maxCost: 30,
+          mustInclude: [],
+          blockedPeriods: [{ day: "saturday", period: "evening" }],
+        },
+        7
+      );
+
+      const planned = getPlanned();
+      expect(planned.length).toBeGreaterThan(0);
+      planned.forEach((sa) =>
+        expect(
+          sa.activity.mood.some((mood) => ["relaxed", "happy"].includes(mood))
+        ).toBe(true)
+      );
+      expect(
+        planned.reduce((total, sa) => total + (sa.activity.cost ?? 0), 0)
+      ).toBeLessThanOrEqual(30);
+      (["saturday", "sunday"] as const).forEach((day) => {
+        const energy = planned
+          .filter((sa) => sa.timeSlot.day === day)
+          .reduce(
+            (total, sa) =>
+              total + { low: 1, medium: 2, high: 3 }[sa.activity.energyLevel],
+            0
+          );
+        expect(energy).toBeLessThanOrEqual(3);
+      });
+      expect(
+        planned.some(
+          (sa) =>
+            sa.timeSlot.day === "saturday" && sa.timeSlot.period === "evening"
+        )
+      ).toBe(false);
+    });
+
+    it("should place must-include activities and avoid high-severity conflicts", () => {
+      const unplaced = useScheduleStore
+        .getState()
+        .autoPlanWeekend(
+          { ...constraints, moods: ["relaxed"], mustInclude: ["climbing"] },
+          3
+        );
+
+      expect(unplaced).toHaveLength(0);
+      expect(getPlanned().some((sa) => sa.activity.id === "climbing")).toBe(
+        true
+      );
+
+      // Check the plan the way the schedule does, not just the planner
+      useScheduleStore.getState().detectConflicts();
+      expect(
+        useScheduleStore
+          .getState()
+          .conflicts.filter((c) => c.severity === "high")
+      ).toHaveLength(0);
+    });
+
+    it("should keep the plan within the weekend budget", () => {
+      const { setWeekendBudget, autoPlanWeekend } = useScheduleStore.getState();
+      setWeekendBudget(20);
+
+      autoPlanWeekend({ ...constraints, energyBudget: 10 }, 1);
+
+      const planned = getPlanned();
+      expect(planned.length).toBeGreaterThan(0);
+      expect(
+        planned.reduce((total, sa) => total + (sa.activity.cost ?? 0), 0)
+      ).toBeLessThanOrEqual(20);
+      expect(
+        useScheduleStore
+          .getState()
+          .conflicts.filter((c) => c.type === "budget_exceeded")
+      ).toHaveLength(0);
+    });
+
+    it("should skip activities the group is too small for", () => {
+      useActivityStore.setState({
+        activities: [
+          ...catalogue,
+          createActivity("book-club", 90, { minParticipants: 5 }),
+        ],
+      });
+      const { addParticipant, autoPlanWeekend } = useScheduleStore.getState();
+      // One short is only a medium conflict, but still not something to plan
+      ["Ana", "Ben", "Cleo", "Dev"].forEach((name) => addParticipant(name));
+
+      const unplaced = autoPlanWeekend(
+        { ...constraints, mustInclude: ["book-club"] },
+        1
+      );
+
+      expect(unplaced.map((a) => a.id)).toEqual(["book-club"]);
+      expect(getPlanned().length).toBeGreaterThan(0);
+      expect(
+        useScheduleStore
+          .getState()
+          .conflicts.filter((c) => c.type === "participant_mismatch")
+      ).toHaveLength(0);
+    });
+
+    it("should report must-include activities that cannot fit", () => {
+      const unplaced = useScheduleStore
+        .getState()
+        .autoPlanWeekend(
+          { ...constraints, energyBudget: 2, mustInclude: ["hike"] },
+          1
+        );
+
+      expect(unplaced.map((a) => a.id)).toEqual(["hike"]);
+    });
+
+    it("should replace the existing plan as one undo step", () => {
+      const { addActivity, autoPlanWeekend } = useScheduleStore.getState();
+      addActivity(createActivity("lunch", 60), afternoon);
+
+      autoPlanWeekend(constraints, 1);
+      expect(getPlanned().some((sa) => sa.activity.id === "lunch")).toBe(false);
+
+      useScheduleStore.getState().undo();
+      expect(getSaturday().map((sa) => sa.activity.id)).toEqual(["lunch"]);
+    });
+  });
+});
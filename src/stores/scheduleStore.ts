@@ -1,24 +1,97 @@
 import { create } from "zustand";
 import { devtools } from "zustand/middleware";
+import { useActivityStore } from "./activityStore";
 import { usePersistenceStore } from "./persistenceStore";
+import { useUserStore } from "./userStore";
+import { useWeatherStore } from "./weatherStore";
+import {
+  addMinutesToTime,
+  formatDateKey,
+  getUpcomingWeekendDate,
+  getWeekendSaturday,
+  minutesToTime,
+  parseDateKey,
+  timeToMinutes,
+} from "../lib/timeUtils";
+import { detectWeekendConflicts } from "../lib/conflictDetection";
+import {
+  DAY_PERIODS,
+  DEFAULT_WEEKEND_DAYS,
+  findActivityDay,
+  getWeekendActivities,
+  isWeekendPast,
+  mapWeekendActivities,
+  sortWeekendDays,
+  withStartDate,
+  withWeekendDays,
+} from "../lib/weekendDays";
+import { planThemeActivities } from "../lib/themePlanner";
+import { getDayTimePeriods, type WeekendTimePeriods } from "../lib/timePeriods";
+import { planWeekend, type PlannerConstraints } from "../lib/weekendPlanner";
 import type {
   Activity,
   TimeSlot,
   ScheduledActivity,
   WeekendSchedule,
-  Conflict,
+  WeekendTemplate,
+  WeekendTheme,
+  TemplateActivity,
   ScheduleStoreState,
   WeekendDay,
   TimePeriod,
+  GeoCoordinates,
+  TravelMode,
 } from "../types";
 
 interface ScheduleStoreActions {
   // Weekend management
-  createNewWeekend: (title?: string) => void;
+  createNewWeekend: (
+    title?: string,
+    days?: WeekendDay[],
+    startDate?: string
+  ) => void;
   loadWeekend: (weekendId: string) => Promise<void>;
   loadMostRecentWeekend: () => Promise<void>;
   initializeWeekends: () => Promise<void>;
   updateWeekendTitle: (title: string) => void;
+  updateWeekendStartDate: (startDate: string) => void;
+  setWeekendBudget: (budget: number | undefined) => void;
+  setWeekendGroupSize: (groupSize: number | undefined) => void;
+
+  // Participants
+  addParticipant: (name: string) => void;
+  removeParticipant: (participantId: string) => void;
+  setActivityParticipants: (
+    activityId: string,
+    participantIds: string[] | undefined
+  ) => void;
+  applyTheme: (theme: WeekendTheme) => number;
+  autoPlanWeekend: (
+    constraints: PlannerConstraints,
+    seed: number
+  ) => Activity[];
+
+  // Saved weekends
+  loadSavedWeekends: () => Promise<void>;
+  duplicateWeekend: (weekendId: string) => Promise<void>;
+  renameWeekend: (weekendId: string, title: string) => Promise<void>;
+  deleteWeekend: (weekendId: string) => Promise<void>;
+  setWeekendDays: (days: WeekendDay[]) => void;
+
+  // Templates
+  loadTemplates: () => Promise<void>;
+  saveAsTemplate: (weekend: WeekendSchedule, name: string) => Promise<void>;
+  createWeekendFromTemplate: (
+    templateId: string,
+    title?: string,
+    startDate?: string
+  ) => void;
+  deleteTemplate: (templateId: string) => Promise<void>;
+
+  // Undo/redo
+  undo: () => void;
+  redo: () => void;
+  clearHistory: () => void;
 
   // Activity scheduling
   addActivity: (activity: Activity, timeSlot: TimeSlot) => void;
@@ -29,12 +102,19 @@ interface ScheduleStoreActions {
     period: TimePeriod,
     activityIds: string[]
   ) => void;
+  updateActivityTime: (activityId: string, startTime: string) => void;
+  updateActivityLocation: (
+    activityId: string,
+    coordinates: GeoCoordinates | undefined,
+    travelMode?: TravelMode
+  ) => void;
   updateActivityNotes: (activityId: string, notes: string) => void;
   toggleActivityCompletion: (activityId: string) => void;
 
   // Time slot management
   selectTimeSlot: (timeSlot: TimeSlot | null) => void;
   generateTimeSlots: () => void;
+  applyTimePeriods: () => void;
   getAvailableTimeSlots: (day: WeekendDay) => TimeSlot[];
 
   // Conflict detection
@@ -52,6 +132,22 @@ interface ScheduleStoreActions {
 
 type ScheduleStore = ScheduleStoreState & ScheduleStoreActions;
 
+// Number of weekend snapshots kept for undo
+const MAX_HISTORY = 50;
+
+// Weekends fetched per page when listing every saved weekend
+const SAVED_WEEKENDS_PAGE_SIZE = 50;
+
+// Snapshots the current weekend before a mutation replaces it, dropping any
+// redo steps since they no longer follow from the new state
+const recordHistory = (state: ScheduleStoreState) =>
+  state.currentWeekend
+    ? {
+        past: [...state.past, state.currentWeekend].slice(-MAX_HISTORY),
+        future: [],
+      }
+    : {};
+
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
 const createTimeSlot = (
@@ -67,37 +163,259 @@ const createTimeSlot = (
   period,
 });
 
-const generateDefaultTimeSlots = (): TimeSlot[] => {
-  const slots: TimeSlot[] = [];
+// Slots follow the period boundaries the user has set for each day
+const generateDefaultTimeSlots = (
+  days: WeekendDay[] = DEFAULT_WEEKEND_DAYS,
+  settings: WeekendTimePeriods = useUserStore.getState().preferences
+): TimeSlot[] =>
+  days.flatMap((day) => {
+    const timePeriods = getDayTimePeriods(settings, day);
+    return DAY_PERIODS[day].map((period) =>
+      createTimeSlot(
+        day,
+        timePeriods[period].start,
+        timePeriods[period].end,
+        period
+      )
+    );
+  });
+
+// Moves scheduled activities onto new time slots, shifting each by as much as
+// the start of its period moved so gaps between activities are kept
+const retimeActivities = (
+  dayActivities: ScheduledActivity[],
+  timeSlots: TimeSlot[]
+): ScheduledActivity[] =>
+  dayActivities.map((sa) => {
+    const timeSlot = timeSlots.find(
+      (slot) =>
+        slot.day === sa.timeSlot.day && slot.period === sa.timeSlot.period
+    );
+    if (
+      !timeSlot ||
+      (timeSlot.startTime === sa.timeSlot.startTime &&
+        timeSlot.endTime === sa.timeSlot.endTime)
+    ) {
+      return sa;
+    }
+
+    const shift =
+      timeToMinutes(timeSlot.startTime) - timeToMinutes(sa.timeSlot.startTime);
+    return {
+      ...sa,
+      timeSlot,
+      startTime: addMinutesToTime(sa.startTime, shift),
+      endTime: addMinutesToTime(sa.endTime, shift),
+    };
+  });
+
+const getScheduledDuration = (scheduledActivity: ScheduledActivity) => {
+  const { startTime, endTime, activity } = scheduledActivity;
+  if (startTime && endTime) {
+    const duration = timeToMinutes(endTime) - timeToMinutes(startTime);
+    if (duration > 0) return duration;
+  }
+  return activity.duration;
+};
+
+// Lays activities out back-to-back starting at the given time
+const packActivities = (
+  activities: ScheduledActivity[],
+  fromTime: string
+): ScheduledActivity[] => {
+  let cursor = timeToMinutes(fromTime);
+  return activities.map((sa) => {
+    const duration = getScheduledDuration(sa);
+    const startTime = minutesToTime(cursor);
+    cursor += duration;
+    return { ...sa, startTime, endTime: minutesToTime(cursor) };
+  });
+};
+
+// Pushes every activity after `fromIndex` forward so that none of them starts
+// before the previous one has ended
+const cascadeActivities = (
+  activities: ScheduledActivity[],
+  fromIndex: number
+): ScheduledActivity[] => {
+  const result = [...activities];
+  for (let i = fromIndex + 1; i < result.length; i++) {
+    const previousEnd = result[i - 1].endTime;
+    if (timeToMinutes(result[i].startTime) >= timeToMinutes(previousEnd)) {
+      break;
+    }
+    result[i] = {
+      ...result[i],
+      startTime: previousEnd,
+      endTime: addMinutesToTime(previousEnd, getScheduledDuration(result[i])),
+    };
+  }
+  return result;
+};
 
-  // Saturday slots
-  slots.push(
-    createTimeSlot("saturday", "08:00", "12:00", "morning"),
-    createTimeSlot("saturday", "12:00", "17:00", "afternoon"),
-    createTimeSlot("saturday", "17:00", "22:00", "evening"),
-    createTimeSlot("saturday", "22:00", "24:00", "night")
+// Swaps the activities of one period in a day for an updated list of the
+// same length, keeping the positions of the other periods
+const replacePeriodActivities = (
+  dayActivities: ScheduledActivity[],
+  period: TimePeriod,
+  periodActivities: ScheduledActivity[]
+): ScheduledActivity[] => {
+  let index = 0;
+  return dayActivities.map((sa) =>
+    sa.timeSlot.period === period ? periodActivities[index++] : sa
   );
+};
 
-  // Sunday slots
-  slots.push(
-    createTimeSlot("sunday", "08:00", "12:00", "morning"),
-    createTimeSlot("sunday", "12:00", "17:00", "afternoon"),
-    createTimeSlot("sunday", "17:00", "22:00", "evening"),
-    createTimeSlot("sunday", "22:00", "24:00", "night")
+// Creates a scheduled activity that starts right after the last activity
+// already planned in the same period
+const scheduleAtEndOfPeriod = (
+  dayActivities: ScheduledActivity[],
+  scheduledActivity: Omit<ScheduledActivity, "startTime" | "endTime">
+): ScheduledActivity => {
+  const { timeSlot } = scheduledActivity;
+  const periodActivities = dayActivities.filter(
+    (sa) => sa.timeSlot.period === timeSlot.period
   );
+  const lastActivity = periodActivities[periodActivities.length - 1];
+  const startTime =
+    lastActivity &&
+    timeToMinutes(lastActivity.endTime) > timeToMinutes(timeSlot.startTime)
+      ? lastActivity.endTime
+      : timeSlot.startTime;
+
+  return {
+    ...scheduledActivity,
+    startTime,
+    endTime: addMinutesToTime(startTime, scheduledActivity.activity.duration),
+  };
+};
 
-  return slots;
+// Adds weekends that are over to the user's history, oldest first so the
+// latest ends up on top. Unchanged weekends already there are skipped.
+const recordFinishedWeekends = (weekends: WeekendSchedule[]) => {
+  const { weekendHistory, addToHistory } = useUserStore.getState();
+  weekends
+    .filter(
+      (weekend) =>
+        isWeekendPast(weekend) &&
+        getWeekendActivities(weekend).length > 0 &&
+        !weekendHistory.some(
+          (w) =>
+            w.id === weekend.id &&
+            new Date(w.updatedAt).getTime() ===
+              new Date(weekend.updatedAt).getTime()
+        )
+    )
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    .forEach(addToHistory);
 };
 
-const createEmptyWeekend = (title: string = "My Weekend"): WeekendSchedule => ({
+// Weekends saved before activities had their own times get them laid out
+// from the start of their period
+const withActivityTimes = (weekend: WeekendSchedule): WeekendSchedule => {
+  const timeDay = (dayActivities: ScheduledActivity[]) => {
+    const periods = new Set(dayActivities.map((sa) => sa.timeSlot.period));
+    let result = dayActivities;
+    periods.forEach((period) => {
+      const periodActivities = result.filter(
+        (sa) => sa.timeSlot.period === period
+      );
+      if (periodActivities.some((sa) => !sa.startTime || !sa.endTime)) {
+        result = replacePeriodActivities(
+          result,
+          period,
+          packActivities(
+            periodActivities,
+            periodActivities[0].timeSlot.startTime
+          )
+        );
+      }
+    });
+    return result;
+  };
+
+  const withDays = withStartDate(withWeekendDays(weekend));
+  return {
+    ...withDays,
+    friday: timeDay(withDays.friday),
+    saturday: timeDay(withDays.saturday),
+    sunday: timeDay(withDays.sunday),
+    monday: timeDay(withDays.monday),
+  };
+};
+
+// Snaps any picked date to the Saturday of its weekend
+const toWeekendStartDate = (date: string) =>
+  formatDateKey(getWeekendSaturday(parseDateKey(date)));
+
+const createEmptyWeekend = (
+  title: string = "My Weekend",
+  days: WeekendDay[] = DEFAULT_WEEKEND_DAYS,
+  startDate: string = formatDateKey(getUpcomingWeekendDate("saturday"))
+): WeekendSchedule => ({
   id: generateId(),
   title,
+  startDate: toWeekendStartDate(startDate),
+  days: sortWeekendDays(days),
+  friday: [],
   saturday: [],
   sunday: [],
+  monday: [],
   createdAt: new Date(),
   updatedAt: new Date(),
 });
 
+// Copies a weekend under a new id with fresh ids for its scheduled
+// activities, so the copy can be edited independently
+const copyWeekend = (
+  weekend: WeekendSchedule,
+  title: string
+): WeekendSchedule => ({
+  ...weekend,
+  ...mapWeekendActivities(weekend, (sa) => ({
+    ...sa,
+    id: generateId(),
+    completed: false,
+  })),
+  id: generateId(),
+  title,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+// Keeps what a template needs to recreate an activity, leaving out its id
+// and whether it was completed
+const toTemplateActivity = (sa: ScheduledActivity): TemplateActivity => ({
+  activity: sa.activity,
+  timeSlot: sa.timeSlot,
+  startTime: sa.startTime,
+  endTime: sa.endTime,
+  coordinates: sa.coordinates,
+  travelMode: sa.travelMode,
+  customNotes: sa.customNotes,
+});
+
+const fromTemplateActivity = (ta: TemplateActivity): ScheduledActivity => ({
+  ...ta,
+  id: generateId(),
+  completed: false,
+});
+
+const createTemplate = (
+  weekend: WeekendSchedule,
+  name: string
+): WeekendTemplate => ({
+  id: generateId(),
+  name,
+  theme: weekend.theme,
+  days: weekend.days,
+  friday: weekend.friday.map(toTemplateActivity),
+  saturday: weekend.saturday.map(toTemplateActivity),
+  sunday: weekend.sunday.map(toTemplateActivity),
+  monday: weekend.monday.map(toTemplateActivity),
+  createdAt: new Date(),
+});
+
 export const useScheduleStore = create<ScheduleStore>()(
   devtools(
     (set, get) => ({
@@ -106,16 +424,25 @@ export const useScheduleStore = create<ScheduleStore>()(
       selectedTimeSlot: null,
       conflicts: [],
       availableTimeSlots: generateDefaultTimeSlots(),
+      past: [],
+      future: [],
+      savedWeekends: [],
+      savedWeekendsLoading: false,
+      savedWeekendsError: null,
+      templates: [],
       loading: false,
       error: null,
 
       // Actions
-      createNewWeekend: (title) => {
-        const newWeekend = createEmptyWeekend(title);
+      createNewWeekend: (title, days, startDate) => {
+        const newWeekend = createEmptyWeekend(title, days, startDate);
         set({
           currentWeekend: newWeekend,
+          availableTimeSlots: generateDefaultTimeSlots(newWeekend.days),
           conflicts: [],
           selectedTimeSlot: null,
+          past: [],
+          future: [],
         });
 
         // Auto-save the new weekend
@@ -130,8 +457,12 @@ export const useScheduleStore = create<ScheduleStore>()(
           const weekend = await persistenceStore.loadWeekend(weekendId);
 
           if (weekend) {
+            const loadedWeekend = withActivityTimes(weekend);
             set({
-              currentWeekend: weekend,
+              currentWeekend: loadedWeekend,
+              availableTimeSlots: generateDefaultTimeSlots(loadedWeekend.days),
+              past: [],
+              future: [],
               loading: false,
             });
 
@@ -156,12 +487,20 @@ export const useScheduleStore = create<ScheduleStore>()(
         set({ loading: true, error: null });
         try {
           const persistenceStore = usePersistenceStore.getState();
-          const weekends = await persistenceStore.loadAllWeekends(1, 0); // Get most recent
+          const weekends = (await persistenceStore.loadAllWeekends()).map(
+            withActivityTimes
+          ); // Latest dates first
 
           if (weekends.length > 0) {
-            const mostRecent = weekends[0];
+            // Open the soonest weekend that is not over yet, falling back to
+            // the latest past one
+            const upcoming = weekends.filter((w) => !isWeekendPast(w));
+            const mostRecent = upcoming[upcoming.length - 1] ?? weekends[0];
             set({
               currentWeekend: mostRecent,
+              availableTimeSlots: generateDefaultTimeSlots(mostRecent.days),
+              past: [],
+              future: [],
               loading: false,
             });
 
@@ -198,7 +537,7 @@ export const useScheduleStore = create<ScheduleStore>()(
             updatedAt: new Date(),
           };
 
-          set({ currentWeekend: updatedWeekend });
+          set({ currentWeekend: updatedWeekend, ...recordHistory(get()) });
 
           // Auto-save the updated weekend
           const persistenceStore = usePersistenceStore.getState();
@@ -206,24 +545,525 @@ export const useScheduleStore = create<ScheduleStore>()(
         }
       },
 
-      addActivity: (activity, timeSlot) => {
+      loadSavedWeekends: async () => {
+        set({ savedWeekendsLoading: true, savedWeekendsError: null });
+        try {
+          const persistenceStore = usePersistenceStore.getState();
+          const savedWeekends: WeekendSchedule[] = [];
+
+          // Page through until a short page shows everything is loaded
+          for (let offset = 0; ; offset += SAVED_WEEKENDS_PAGE_SIZE) {
+            const page = await persistenceStore.loadAllWeekends(
+              SAVED_WEEKENDS_PAGE_SIZE,
+              offset
+            );
+            savedWeekends.push(...page.map(withActivityTimes));
+            if (page.length < SAVED_WEEKENDS_PAGE_SIZE) break;
+          }
+
+          set({ savedWeekends, savedWeekendsLoading: false });
+          recordFinishedWeekends(savedWeekends);
+        } catch (error) {
+          set({
+            savedWeekendsError:
+              error instanceof Error
+                ? error.message
+                : "Failed to load saved weekends",
+            savedWeekendsLoading: false,
+          });
+        }
+      },
+
+      duplicateWeekend: async (weekendId) => {
+        try {
+          const { currentWeekend } = get();
+          const persistenceStore = usePersistenceStore.getState();
+          const source =
+            currentWeekend?.id === weekendId
+              ? currentWeekend
+              : await persistenceStore.loadWeekend(weekendId);
+          if (!source) return;
+
+          const copy = copyWeekend(
+            withActivityTimes(source),
+            `${source.title} (copy)`
+          );
+          await persistenceStore.saveWeekend(copy);
+
+          await get().loadSavedWeekends();
+        } catch (error) {
+          set({
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to duplicate weekend",
+          });
+        }
+      },
+
+      renameWeekend: async (weekendId, title) => {
+        try {
+          if (get().currentWeekend?.id === weekendId) {
+            get().updateWeekendTitle(title);
+          } else {
+            const persistenceStore = usePersistenceStore.getState();
+            const weekend = await persistenceStore.loadWeekend(weekendId);
+            if (!weekend) return;
+            await persistenceStore.saveWeekend({
+              ...weekend,
+              title,
+              updatedAt: new Date(),
+            });
+          }
+
+          set({
+            savedWeekends: get().savedWeekends.map((w) =>
+              w.id === weekendId ? { ...w, title } : w
+            ),
+          });
+        } catch (error) {
+          set({
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to rename weekend",
+          });
+        }
+      },
+
+      deleteWeekend: async (weekendId) => {
+        try {
+          const persistenceStore = usePersistenceStore.getState();
+          await persistenceStore.deleteWeekend(weekendId);
+
+          set({
+            savedWeekends: get().savedWeekends.filter(
+              (w) => w.id !== weekendId
+            ),
+          });
+
+          // Move on to another weekend when the open one is deleted
+          if (get().currentWeekend?.id === weekendId) {
+            set({ currentWeekend: null, past: [], future: [] });
+            await get().loadMostRecentWeekend();
+          }
+        } catch (error) {
+          set({
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to delete weekend",
+          });
+        }
+      },
+
+      loadTemplates: async () => {
+        try {
+          const persistenceStore = usePersistenceStore.getState();
+          const templates = await persistenceStore.loadTemplates();
+          set({ templates });
+        } catch (error) {
+          set({
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to load templates",
+          });
+        }
+      },
+
+      saveAsTemplate: async (weekend, name) => {
+        try {
+          const template = createTemplate(weekend, name);
+          const persistenceStore = usePersistenceStore.getState();
+          await persistenceStore.saveTemplate(template);
+
+          set({ templates: [template, ...get().templates] });
+        } catch (error) {
+          set({
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to save template",
+          });
+        }
+      },
+
+      createWeekendFromTemplate: (templateId, title, startDate) => {
+        const template = get().templates.find((t) => t.id === templateId);
+        if (!template) return;
+
+        const newWeekend: WeekendSchedule = {
+          ...createEmptyWeekend(
+            title ?? template.name,
+            template.days,
+            startDate
+          ),
+          theme: template.theme,
+          friday: template.friday.map(fromTemplateActivity),
+          saturday: template.saturday.map(fromTemplateActivity),
+          sunday: template.sunday.map(fromTemplateActivity),
+          monday: template.monday.map(fromTemplateActivity),
+        };
+        set({
+          currentWeekend: newWeekend,
+          availableTimeSlots: generateDefaultTimeSlots(newWeekend.days),
+          conflicts: [],
+          selectedTimeSlot: null,
+          past: [],
+          future: [],
+        });
+
+        // Auto-save the new weekend
+        const persistenceStore = usePersistenceStore.getState();
+        persistenceStore.saveWeekend(newWeekend).catch(console.error);
+
+        get().detectConflicts();
+      },
+
+      deleteTemplate: async (templateId) => {
+        try {
+          const persistenceStore = usePersistenceStore.getState();
+          await persistenceStore.deleteTemplate(templateId);
+
+          set({
+            templates: get().templates.filter((t) => t.id !== templateId),
+          });
+        } catch (error) {
+          set({
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to delete template",
+          });
+        }
+      },
+
+      applyTheme: (theme) => {
+        const { currentWeekend, availableTimeSlots } = get();
+        if (!currentWeekend) return 0;
+
+        const planned = planThemeActivities(
+          theme,
+          useActivityStore.getState().activities,
+          currentWeekend,
+          availableTimeSlots
+        );
+
+        const updatedWeekend = planned.reduce<WeekendSchedule>(
+          (weekend, { activity, timeSlot }) => ({
+            ...weekend,
+            [timeSlot.day]: [
+              ...weekend[timeSlot.day],
+              scheduleAtEndOfPeriod(weekend[timeSlot.day], {
+                id: generateId(),
+                activity,
+                timeSlot,
+                completed: false,
+              }),
+            ],
+          }),
+          { ...currentWeekend, theme, updatedAt: new Date() }
+        );
+
+        set({ currentWeekend: updatedWeekend, ...recordHistory(get()) });
+        useUserStore.getState().setCurrentTheme(theme);
+
+        // Auto-save the updated weekend
+        const persistenceStore = usePersistenceStore.getState();
+        persistenceStore.saveWeekend(updatedWeekend).catch(console.error);
+
+        get().detectConflicts();
+        return planned.length;
+      },
+
+      autoPlanWeekend: (constraints, seed) => {
+        const { currentWeekend, availableTimeSlots } = get();
+        if (!currentWeekend) return [];
+
+        const { timePeriods, dayTimePeriods, travel } =
+          useUserStore.getState().preferences;
+        const { planned, unplaced } = planWeekend(
+          constraints,
+          {
+            activities: useActivityStore.getState().activities,
+            weekend: currentWeekend,
+            timeSlots: availableTimeSlots,
+            timePeriods: { timePeriods, dayTimePeriods },
+            travel,
+            weatherData: useWeatherStore.getState().weatherData,
+          },
+          seed
+        );
+
+        // The plan replaces everything on the weekend's days
+        const updatedWeekend = planned.reduce<WeekendSchedule>(
+          (weekend, slot) => ({
+            ...weekend,
+            [slot.timeSlot.day]: [
+              ...weekend[slot.timeSlot.day],
+              { ...slot, id: generateId(), completed: false },
+            ],
+          }),
+          {
+            ...currentWeekend,
+            friday: [],
+            saturday: [],
+            sunday: [],
+            monday: [],
+            updatedAt: new Date(),
+          }
+        );
+
+        set({ currentWeekend: updatedWeekend, ...recordHistory(get()) });
+
+        // Auto-save the updated weekend
+        const persistenceStore = usePersistenceStore.getState();
+        persistenceStore.saveWeekend(updatedWeekend).catch(console.error);
+
+        get().detectConflicts();
+        return unplaced;
+      },
+
+      updateWeekendStartDate: (startDate) => {
+        const { currentWeekend } = get();
+        if (!currentWeekend) return;
+
+        const updatedWeekend = {
+          ...currentWeekend,
+          startDate: toWeekendStartDate(startDate),
+          updatedAt: new Date(),
+        };
+
+        set({ currentWeekend: updatedWeekend, ...recordHistory(get()) });
+
+        // Auto-save the updated weekend
+        const persistenceStore = usePersistenceStore.getState();
+        persistenceStore.saveWeekend(updatedWeekend).catch(console.error);
+
+        // The forecast now applies to different days
+        get().detectConflicts();
+      },
+
+      setWeekendBudget: (budget) => {
+        const { currentWeekend } = get();
+        if (!currentWeekend) return;
+
+        const normalized =
+          budget !== undefined && budget >= 0 ? budget : undefined;
+        // Leaving the field untouched shouldn't add an undo step or a save
+        if (normalized === currentWeekend.budget) return;
+
+        const updatedWeekend = {
+          ...currentWeekend,
+          budget: normalized,
+          updatedAt: new Date(),
+        };
+
+        set({ currentWeekend: updatedWeekend, ...recordHistory(get()) });
+
+        // Auto-save the updated weekend
+        const persistenceStore = usePersistenceStore.getState();
+        persistenceStore.saveWeekend(updatedWeekend).catch(console.error);
+
+        get().detectConflicts();
+      },
+
+      setWeekendGroupSize: (groupSize) => {
+        const { currentWeekend } = get();
+        if (!currentWeekend) return;
+
+        const normalized =
+          groupSize !== undefined && groupSize > 0
+            ? Math.round(groupSize)
+            : undefined;
+        // Leaving the field untouched shouldn't add an undo step or a save
+        if (normalized === currentWeekend.groupSize) return;
+
+        const updatedWeekend = {
+          ...currentWeekend,
+          groupSize: normalized,
+          updatedAt: new Date(),
+        };
+
+        set({ currentWeekend: updatedWeekend, ...recordHistory(get()) });
+
+        // Auto-save the updated weekend
+        const persistenceStore = usePersistenceStore.getState();
+        persistenceStore.saveWeekend(updatedWeekend).catch(console.error);
+
+        get().detectConflicts();
+      },
+
+      addParticipant: (name) => {
+        const { currentWeekend } = get();
+        if (!currentWeekend || !name.trim()) return;
+
+        const updatedWeekend = {
+          ...currentWeekend,
+          participants: [
+            ...(currentWeekend.participants ?? []),
+            { id: generateId(), name: name.trim() },
+          ],
+          updatedAt: new Date(),
+        };
+
+        set({ currentWeekend: updatedWeekend, ...recordHistory(get()) });
+
+        // Auto-save the updated weekend
+        const persistenceStore = usePersistenceStore.getState();
+        persistenceStore.saveWeekend(updatedWeekend).catch(console.error);
+
+        get().detectConflicts();
+      },
+
+      removeParticipant: (participantId) => {
         const { currentWeekend } = get();
         if (!currentWeekend) return;
 
-        const scheduledActivity: ScheduledActivity = {
-          id: generateId(),
-          activity,
-          timeSlot,
-          completed: false,
+        // Take them off every activity they were picked for too; activities
+        // left with no one go back to including everyone
+        const updatedWeekend = {
+          ...currentWeekend,
+          ...mapWeekendActivities(currentWeekend, (sa) => {
+            if (!sa.participantIds) return sa;
+            const participantIds = sa.participantIds.filter(
+              (id) => id !== participantId
+            );
+            return {
+              ...sa,
+              participantIds:
+                participantIds.length > 0 ? participantIds : undefined,
+            };
+          }),
+          participants: (currentWeekend.participants ?? []).filter(
+            (p) => p.id !== participantId
+          ),
+          updatedAt: new Date(),
+        };
+
+        set({ currentWeekend: updatedWeekend, ...recordHistory(get()) });
+
+        // Auto-save the updated weekend
+        const persistenceStore = usePersistenceStore.getState();
+        persistenceStore.saveWeekend(updatedWeekend).catch(console.error);
+
+        get().detectConflicts();
+      },
+
+      setActivityParticipants: (activityId, participantIds) => {
+        const { currentWeekend } = get();
+        if (!currentWeekend) return;
+
+        const updatedWeekend = {
+          ...currentWeekend,
+          ...mapWeekendActivities(currentWeekend, (sa) =>
+            sa.id === activityId ? { ...sa, participantIds } : sa
+          ),
+          updatedAt: new Date(),
+        };
+
+        set({ currentWeekend: updatedWeekend, ...recordHistory(get()) });
+
+        // Auto-save the updated weekend
+        const persistenceStore = usePersistenceStore.getState();
+        persistenceStore.saveWeekend(updatedWeekend).catch(console.error);
+
+        get().detectConflicts();
+      },
+
+      setWeekendDays: (days) => {
+        const { currentWeekend } = get();
+        const orderedDays = sortWeekendDays(days);
+        if (!currentWeekend || orderedDays.length === 0) return;
+
+        // Activities planned on a day that is dropped go with it; undo brings
+        // them back
+        const updatedWeekend = {
+          ...currentWeekend,
+          days: orderedDays,
+          friday: orderedDays.includes("friday") ? currentWeekend.friday : [],
+          monday: orderedDays.includes("monday") ? currentWeekend.monday : [],
+          updatedAt: new Date(),
         };
 
+        set({
+          currentWeekend: updatedWeekend,
+          availableTimeSlots: generateDefaultTimeSlots(orderedDays),
+          ...recordHistory(get()),
+        });
+
+        // Auto-save the updated weekend
+        const persistenceStore = usePersistenceStore.getState();
+        persistenceStore.saveWeekend(updatedWeekend).catch(console.error);
+
+        // Detect conflicts after changing the days
+        get().detectConflicts();
+      },
+
+      undo: () => {
+        const { currentWeekend, past, future } = get();
+        if (!currentWeekend || past.length === 0) return;
+
+        const previousWeekend = past[past.length - 1];
+        set({
+          currentWeekend: previousWeekend,
+          availableTimeSlots: generateDefaultTimeSlots(previousWeekend.days),
+          past: past.slice(0, -1),
+          future: [currentWeekend, ...future].slice(0, MAX_HISTORY),
+        });
+
+        // Persist so the stored weekend matches what is shown
+        const persistenceStore = usePersistenceStore.getState();
+        persistenceStore.saveWeekend(previousWeekend).catch(console.error);
+
+        get().detectConflicts();
+      },
+
+      redo: () => {
+        const { currentWeekend, past, future } = get();
+        if (!currentWeekend || future.length === 0) return;
+
+        const [nextWeekend, ...remainingFuture] = future;
+        set({
+          currentWeekend: nextWeekend,
+          availableTimeSlots: generateDefaultTimeSlots(nextWeekend.days),
+          past: [...past, currentWeekend].slice(-MAX_HISTORY),
+          future: remainingFuture,
+        });
+
+        // Persist so the stored weekend matches what is shown
+        const persistenceStore = usePersistenceStore.getState();
+        persistenceStore.saveWeekend(nextWeekend).catch(console.error);
+
+        get().detectConflicts();
+      },
+
+      clearHistory: () => {
+        set({ past: [], future: [] });
+      },
+
+      addActivity: (activity, timeSlot) => {
+        const { currentWeekend } = get();
+        if (!currentWeekend) return;
+
+        const scheduledActivity = scheduleAtEndOfPeriod(
+          currentWeekend[timeSlot.day],
+          {
+            id: generateId(),
+            activity,
+            timeSlot,
+            completed: false,
+          }
+        );
+
         const updatedWeekend = {
           ...currentWeekend,
           [timeSlot.day]: [...currentWeekend[timeSlot.day], scheduledActivity],
           updatedAt: new Date(),
         };
 
-        set({ currentWeekend: updatedWeekend });
+        set({ currentWeekend: updatedWeekend, ...recordHistory(get()) });
 
         // Auto-save the updated weekend
         const persistenceStore = usePersistenceStore.getState();
@@ -237,16 +1077,16 @@ export const useScheduleStore = create<ScheduleStore>()(
         const { currentWeekend } = get();
         if (!currentWeekend) return;
 
+        const day = findActivityDay(currentWeekend, activityId);
+        if (!day) return;
+
         const updatedWeekend = {
           ...currentWeekend,
-          saturday: currentWeekend.saturday.filter(
-            (sa) => sa.id !== activityId
-          ),
-          sunday: currentWeekend.sunday.filter((sa) => sa.id !== activityId),
+          [day]: currentWeekend[day].filter((sa) => sa.id !== activityId),
           updatedAt: new Date(),
         };
 
-        set({ currentWeekend: updatedWeekend });
+        set({ currentWeekend: updatedWeekend, ...recordHistory(get()) });
 
         // Auto-save the updated weekend
         const persistenceStore = usePersistenceStore.getState();
@@ -260,47 +1100,36 @@ export const useScheduleStore = create<ScheduleStore>()(
         const { currentWeekend } = get();
         if (!currentWeekend) return;
 
-        // Find the activity in either day
-        let activityToMove: ScheduledActivity | undefined;
-        const saturdayActivities = currentWeekend.saturday.filter((sa) => {
-          if (sa.id === activityId) {
-            activityToMove = sa;
-            return false;
-          }
-          return true;
-        });
-
-        const sundayActivities = currentWeekend.sunday.filter((sa) => {
-          if (sa.id === activityId) {
-            activityToMove = sa;
-            return false;
-          }
-          return true;
-        });
+        // Find the activity on whichever day it is planned
+        const fromDay = findActivityDay(currentWeekend, activityId);
+        if (!fromDay) return;
 
-        if (!activityToMove) return;
+        const activityToMove = currentWeekend[fromDay].find(
+          (sa) => sa.id === activityId
+        )!;
+        const withoutActivity = {
+          ...currentWeekend,
+          [fromDay]: currentWeekend[fromDay].filter(
+            (sa) => sa.id !== activityId
+          ),
+        };
 
-        // Update the activity with new time slot
-        const updatedActivity = {
+        // Update the activity with new time slot, starting after whatever is
+        // already planned there
+        const toDay = newTimeSlot.day;
+        const updatedActivity = scheduleAtEndOfPeriod(withoutActivity[toDay], {
           ...activityToMove,
           timeSlot: newTimeSlot,
-        };
+        });
 
         // Add to the new day
         const updatedWeekend = {
-          ...currentWeekend,
-          saturday:
-            newTimeSlot.day === "saturday"
-              ? [...saturdayActivities, updatedActivity]
-              : saturdayActivities,
-          sunday:
-            newTimeSlot.day === "sunday"
-              ? [...sundayActivities, updatedActivity]
-              : sundayActivities,
+          ...withoutActivity,
+          [toDay]: [...withoutActivity[toDay], updatedActivity],
           updatedAt: new Date(),
         };
 
-        set({ currentWeekend: updatedWeekend });
+        set({ currentWeekend: updatedWeekend, ...recordHistory(get()) });
 
         // Auto-save the updated weekend
         const persistenceStore = usePersistenceStore.getState();
@@ -310,38 +1139,107 @@ export const useScheduleStore = create<ScheduleStore>()(
         get().detectConflicts();
       },
 
-      updateActivityNotes: (activityId, notes) => {
+      updateActivityTime: (activityId, startTime) => {
         const { currentWeekend } = get();
         if (!currentWeekend) return;
 
-        const updateActivityInArray = (activities: ScheduledActivity[]) =>
-          activities.map((sa) =>
-            sa.id === activityId ? { ...sa, customNotes: notes } : sa
+        const day = findActivityDay(currentWeekend, activityId);
+        if (!day) return;
+
+        const dayActivities = currentWeekend[day];
+        const target = dayActivities.find((sa) => sa.id === activityId)!;
+        const { period } = target.timeSlot;
+
+        // Start within the activity's period, however far it then runs
+        const periodStart = timeToMinutes(target.timeSlot.startTime);
+        const periodEnd = timeToMinutes(target.timeSlot.endTime);
+        const clampedStart = minutesToTime(
+          Math.min(
+            Math.max(timeToMinutes(startTime), periodStart),
+            periodEnd - 1
+          )
+        );
+
+        // Keep the activity's length, re-sort the period chronologically and
+        // push anything after it forward
+        const updatedTarget = {
+          ...target,
+          startTime: clampedStart,
+          endTime: addMinutesToTime(clampedStart, getScheduledDuration(target)),
+        };
+        const periodActivities = dayActivities
+          .filter((sa) => sa.timeSlot.period === period)
+          .map((sa) => (sa.id === activityId ? updatedTarget : sa))
+          .sort(
+            (a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime)
           );
+        const cascaded = cascadeActivities(
+          periodActivities,
+          periodActivities.findIndex((sa) => sa.id === activityId)
+        );
 
         const updatedWeekend = {
           ...currentWeekend,
-          saturday: updateActivityInArray(currentWeekend.saturday),
-          sunday: updateActivityInArray(currentWeekend.sunday),
+          [day]: replacePeriodActivities(dayActivities, period, cascaded),
           updatedAt: new Date(),
         };
 
-        set({ currentWeekend: updatedWeekend });
+        set({ currentWeekend: updatedWeekend, ...recordHistory(get()) });
+
+        // Auto-save the updated weekend
+        const persistenceStore = usePersistenceStore.getState();
+        persistenceStore.saveWeekend(updatedWeekend).catch(console.error);
+
+        // Detect conflicts after re-timing
+        get().detectConflicts();
       },
 
-      toggleActivityCompletion: (activityId) => {
+      updateActivityLocation: (activityId, coordinates, travelMode) => {
         const { currentWeekend } = get();
         if (!currentWeekend) return;
 
-        const updateActivityInArray = (activities: ScheduledActivity[]) =>
-          activities.map((sa) =>
-            sa.id === activityId ? { ...sa, completed: !sa.completed } : sa
-          );
+        const updatedWeekend = {
+          ...currentWeekend,
+          ...mapWeekendActivities(currentWeekend, (sa) =>
+            sa.id === activityId ? { ...sa, coordinates, travelMode } : sa
+          ),
+          updatedAt: new Date(),
+        };
+
+        set({ currentWeekend: updatedWeekend, ...recordHistory(get()) });
+
+        // Auto-save the updated weekend
+        const persistenceStore = usePersistenceStore.getState();
+        persistenceStore.saveWeekend(updatedWeekend).catch(console.error);
+
+        // Detect conflicts after changing where the activity happens
+        get().detectConflicts();
+      },
+
+      updateActivityNotes: (activityId, notes) => {
+        const { currentWeekend } = get();
+        if (!currentWeekend) return;
 
         const updatedWeekend = {
           ...currentWeekend,
-          saturday: updateActivityInArray(currentWeekend.saturday),
-          sunday: updateActivityInArray(currentWeekend.sunday),
+          ...mapWeekendActivities(currentWeekend, (sa) =>
+            sa.id === activityId ? { ...sa, customNotes: notes } : sa
+          ),
+          updatedAt: new Date(),
+        };
+
+        set({ currentWeekend: updatedWeekend, ...recordHistory(get()) });
+      },
+
+      toggleActivityCompletion: (activityId) => {
+        const { currentWeekend } = get();
+        if (!currentWeekend) return;
+
+        const updatedWeekend = {
+          ...currentWeekend,
+          ...mapWeekendActivities(currentWeekend, (sa) =>
+            sa.id === activityId ? { ...sa, completed: !sa.completed } : sa
+          ),
           updatedAt: new Date(),
         };
 
@@ -372,10 +1270,23 @@ export const useScheduleStore = create<ScheduleStore>()(
           .map((id) => activityMap.get(id))
           .filter((sa): sa is ScheduledActivity => sa !== undefined);
 
+        // Re-time them in their new order from the earliest start in the period
+        const periodStart =
+          periodActivities.length > 0
+            ? minutesToTime(
+                Math.min(
+                  ...periodActivities.map((sa) => timeToMinutes(sa.startTime))
+                )
+              )
+            : undefined;
+        const retimedPeriodActivities = periodStart
+          ? packActivities(reorderedPeriodActivities, periodStart)
+          : reorderedPeriodActivities;
+
         // Combine with other activities
         const updatedDayActivities = [
           ...otherActivities,
-          ...reorderedPeriodActivities,
+          ...retimedPeriodActivities,
         ];
 
         const updatedWeekend = {
@@ -384,7 +1295,14 @@ export const useScheduleStore = create<ScheduleStore>()(
           updatedAt: new Date(),
         };
 
-        set({ currentWeekend: updatedWeekend });
+        set({ currentWeekend: updatedWeekend, ...recordHistory(get()) });
+
+        // Auto-save the updated weekend
+        const persistenceStore = usePersistenceStore.getState();
+        persistenceStore.saveWeekend(updatedWeekend).catch(console.error);
+
+        // Detect conflicts after reordering
+        get().detectConflicts();
       },
 
       selectTimeSlot: (timeSlot) => {
@@ -392,8 +1310,40 @@ export const useScheduleStore = create<ScheduleStore>()(
       },
 
       generateTimeSlots: () => {
-        const timeSlots = generateDefaultTimeSlots();
+        const timeSlots = generateDefaultTimeSlots(get().currentWeekend?.days);
+        set({ availableTimeSlots: timeSlots });
+      },
+
+      applyTimePeriods: () => {
+        const { currentWeekend } = get();
+        const timeSlots = generateDefaultTimeSlots(currentWeekend?.days);
         set({ availableTimeSlots: timeSlots });
+        if (!currentWeekend) return;
+
+        const retimed = mapWeekendActivities(currentWeekend, (sa) => sa);
+        let changed = false;
+        currentWeekend.days.forEach((day) => {
+          retimed[day] = retimeActivities(currentWeekend[day], timeSlots);
+          changed ||= retimed[day].some(
+            (sa, i) => sa !== currentWeekend[day][i]
+          );
+        });
+        if (!changed) return;
+
+        // Periods are a preference rather than an edit, so this is not undoable
+        const updatedWeekend = {
+          ...currentWeekend,
+          ...retimed,
+          updatedAt: new Date(),
+        };
+        set({ currentWeekend: updatedWeekend });
+
+        // Auto-save the updated weekend
+        const persistenceStore = usePersistenceStore.getState();
+        persistenceStore.saveWeekend(updatedWeekend).catch(console.error);
+
+        // Re-check conflicts against the new period boundaries
+        get().detectConflicts();
       },
 
       getAvailableTimeSlots: (day) => {
@@ -408,33 +1358,15 @@ export const useScheduleStore = create<ScheduleStore>()(
           return;
         }
 
-        const conflicts: Conflict[] = [];
-
-        // Check for time overlaps within the same day
-        const checkDayConflicts = (activities: ScheduledActivity[]) => {
-          for (let i = 0; i < activities.length; i++) {
-            for (let j = i + 1; j < activities.length; j++) {
-              const activity1 = activities[i];
-              const activity2 = activities[j];
-
-              // Simple overlap check based on time slots
-              if (activity1.timeSlot.id === activity2.timeSlot.id) {
-                conflicts.push({
-                  id: generateId(),
-                  type: "time_overlap",
-                  activities: [activity1, activity2],
-                  message: `Time conflict: ${activity1.activity.title} and ${activity2.activity.title} are scheduled for the same time slot`,
-                  severity: "high",
-                });
-              }
-            }
-          }
-        };
-
-        checkDayConflicts(currentWeekend.saturday);
-        checkDayConflicts(currentWeekend.sunday);
-
-        set({ conflicts });
+        const { timePeriods, dayTimePeriods, travel } =
+          useUserStore.getState().preferences;
+        set({
+          conflicts: detectWeekendConflicts(currentWeekend, {
+            timePeriods: { timePeriods, dayTimePeriods },
+            travel,
+            weatherData: useWeatherStore.getState().weatherData,
+          }),
+        });
       },
 
       resolveConflict: (conflictId) => {
@@ -470,3 +1402,10 @@ export const useScheduleStore = create<ScheduleStore>()(
     }
   )
 );
+
+// Re-check weather conflicts whenever a new forecast arrives
+useWeatherStore.subscribe((state, previousState) => {
+  if (state.weatherData !== previousState.weatherData) {
+    useScheduleStore.getState().detectConflicts();
+  }
+});
@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { useUserStore } from "./userStore";
+import { themes as mockThemes } from "../data/mockThemes";
+import { orderThemesByPreference } from "../lib/themePlanner";
+import type { UserPreferences, WeekendSchedule, WeekendTheme } from "../types";
+
+const loadThemes = vi.hoisted(() => vi.fn());
+const saveThemes = vi.hoisted(() => vi.fn().mockResolvedValue(undefined));
+const deleteTheme = vi.hoisted(() => vi.fn().mockResolvedValue(undefined));
+const loadPreferences = vi.hoisted(() => vi.fn());
+const savePreferences = vi.hoisted(() => vi.fn().mockResolvedValue(undefined));
+const loadHistory = vi.hoisted(() => vi.fn());
+const saveHistory = vi.hoisted(() => vi.fn().mockResolvedValue(undefined));
+
+// Mock the persistence store
+vi.mock("./persistenceStore", () => ({
+  usePersistenceStore: {
+    getState: () => ({
+      loadThemes,
+      saveThemes,
+      deleteTheme,
+      loadPreferences,
+      savePreferences,
+      loadHistory,
+      saveHistory,
+    }),
+  },
+}));
+
+// Mock data
+const createTheme = (id: string): WeekendTheme => ({
+  id,
+  name: `${id} theme`,
+  description: `${id} description`,
+  icon: "palette",
+  color: "#a78bfa",
+  suggestedActivities: [],
+  moodProfile: ["happy"],
+});
+
+describe("UserStore", () => {
+  beforeEach(() => {
+    loadThemes.mockReset();
+    saveThemes.mockClear();
+    deleteTheme.mockClear();
+    useUserStore.setState({ availableThemes: [] });
+    useUserStore.getState().updatePreferences({ preferredThemes: [] });
+    savePreferences.mockClear();
+    saveHistory.mockClear();
+  });
+
+  describe("Themes", () => {
+    it("should seed the catalogue from the mock themes on first load", async () => {
+      loadThemes.mockResolvedValue([]);
+
+      await useUserStore.getState().loadAvailableThemes();
+
+      expect(useUserStore.getState().availableThemes).toEqual(mockThemes);
+      expect(saveThemes).toHaveBeenCalledWith(mockThemes);
+      expect(useUserStore.getState().loading).toBe(false);
+    });
+
+    it("should load stored themes without reseeding", async () => {
+      const stored = [createTheme("stored")];
+      loadThemes.mockResolvedValue(stored);
+
+      await useUserStore.getState().loadAvailableThemes();
+
+      expect(useUserStore.getState().availableThemes).toEqual(stored);
+      expect(saveThemes).not.toHaveBeenCalled();
+    });
+
+    it("should toggle preferred themes", () => {
+      const { togglePreferredTheme } = useUserStore.getState();
+
+      togglePreferredTheme("lazy");
+      togglePreferredTheme("family");
+      expect(useUserStore.getState().preferences.preferredThemes).toEqual([
+        "lazy",
+        "family",
+      ]);
+
+      togglePreferredTheme("lazy");
+      expect(useUserStore.getState().preferences.preferredThemes).toEqual([
+        "family",
+      ]);
+    });
+
+    it("should list preferred themes first in order of preference", () => {
+      const catalogue = ["a", "b", "c", "d"].map(createTheme);
+
+      const ordered = orderThemesByPreference(catalogue, ["d", "b"]);
+
+      expect(ordered.map((t) => t.id)).toEqual(["d", "b", "a", "c"]);
+    });
+  });
+
+  describe("Custom Themes", () => {
+    const draft = {
+      name: "Team Offsite",
+      description: "Time together away from the office",
+      icon: "users",
+      color: "#3b82f6",
+      suggestedActivities: ["hiking-trail", "board-games"],
+      moodProfile: ["social" as const],
+    };
+
+    it("should create and persist a custom theme", async () => {
+      await useUserStore.getState().saveCustomTheme(draft);
+
+      const [theme] = useUserStore.getState().availableThemes;
+      expect(theme).toMatchObject({ ...draft, custom: true });
+      expect(theme.id).toMatch(/^custom-/);
+      expect(saveThemes).toHaveBeenCalledWith([theme]);
+    });
+
+    it("should edit a custom theme in place", async () => {
+      const { saveCustomTheme } = useUserStore.getState();
+      await saveCustomTheme(draft);
+      const [{ id }] = useUserStore.getState().availableThemes;
+
+      await saveCustomTheme({ ...draft, name: "Team Retreat" }, id);
+
+      const { availableThemes } = useUserStore.getState();
+      expect(availableThemes).toHaveLength(1);
+      expect(availableThemes[0]).toMatchObject({ id, name: "Team Retreat" });
+    });
+
+    it("should delete a custom theme and forget it as preferred", async () => {
+      const { saveCustomTheme, togglePreferredTheme } = useUserStore.getState();
+      await saveCustomTheme(draft);
+      const [{ id }] = useUserStore.getState().availableThemes;
+      togglePreferredTheme(id);
+
+      await useUserStore.getState().deleteCustomTheme(id);
+
+      expect(deleteTheme).toHaveBeenCalledWith(id);
+      expect(useUserStore.getState().availableThemes).toHaveLength(0);
+      expect(useUserStore.getState().preferences.preferredThemes).toEqual([]);
+    });
+
+    it("should not delete built-in themes", async () => {
+      useUserStore.setState({ availableThemes: [createTheme("lazy")] });
+
+      await useUserStore.getState().deleteCustomTheme("lazy");
+
+      expect(deleteTheme).not.toHaveBeenCalled();
+      expect(useUserStore.getState().availableThemes).toHaveLength(1);
+    });
+  });
+
+  describe("Persistence", () => {
+    const weekend = {
+      id: "weekend-1",
+      title: "Lazy Weekend",
+    } as WeekendSchedule;
+
+    beforeEach(() => {
+      useUserStore.setState({ weekendHistory: [] });
+    });
+
+    it("should hydrate preferences and history from storage", async () => {
+      const stored = {
+        ...useUserStore.getState().preferences,
+        favoriteActivities: ["board-games"],
+        timePeriods: {
+          morning: { start: "07:00", end: "11:00" },
+        },
+      } as UserPreferences;
+      loadPreferences.mockResolvedValue(stored);
+      loadHistory.mockResolvedValue([weekend]);
+
+      await useUserStore.getState().loadPreferences();
+
+      const { preferences, weekendHistory } = useUserStore.getState();
+      expect(preferences.favoriteActivities).toEqual(["board-games"]);
+      expect(preferences.timePeriods.morning).toEqual({
+        start: "07:00",
+        end: "11:00",
+      });
+      // Periods missing from storage fall back to the defaults
+      expect(preferences.timePeriods.evening).toEqual({
+        start: "17:00",
+        end: "22:00",
+      });
+      expect(weekendHistory).toEqual([weekend]);
+    });
+
+    it("should keep the defaults when nothing is stored", async () => {
+      const before = useUserStore.getState().preferences;
+      loadPreferences.mockResolvedValue(null);
+      loadHistory.mockResolvedValue([]);
+
+      await useUserStore.getState().loadPreferences();
+
+      expect(useUserStore.getState().preferences).toEqual(before);
+    });
+
+    it("should write through preference changes", () => {
+      const { updateTimePeriod, addFavoriteActivity } = useUserStore.getState();
+
+      updateTimePeriod("morning", "06:00", "11:00");
+      addFavoriteActivity("hiking-trail");
+
+      expect(savePreferences).toHaveBeenCalledTimes(2);
+      expect(savePreferences).toHaveBeenLastCalledWith(
+        useUserStore.getState().preferences
+      );
+      expect(savePreferences.mock.lastCall?.[0].timePeriods.morning).toEqual({
+        start: "06:00",
+        end: "11:00",
+      });
+    });
+
+    it("should toggle favourite activities and save each change", () => {
+      useUserStore.setState({
+        preferences: {
+          ...useUserStore.getState().preferences,
+          favoriteActivities: [],
+        },
+      });
+      const { toggleFavoriteActivity } = useUserStore.getState();
+
+      toggleFavoriteActivity("board-games");
+      expect(useUserStore.getState().preferences.favoriteActivities).toEqual([
+        "board-games",
+      ]);
+
+      toggleFavoriteActivity("board-games");
+      expect(useUserStore.getState().preferences.favoriteActivities).toEqual(
+        []
+      );
+      expect(savePreferences).toHaveBeenCalledTimes(2);
+    });
+
+    it("should write through history changes", () => {
+      const { addToHistory, clearHistory } = useUserStore.getState();
+
+      addToHistory(weekend);
+      expect(saveHistory).toHaveBeenLastCalledWith([weekend]);
+
+      clearHistory();
+      expect(saveHistory).toHaveBeenLastCalledWith([]);
+    });
+  });
+});
@@ -1,7 +1,15 @@
 import { create } from "zustand";
 import { devtools } from "zustand/middleware";
+import { usePersistenceStore } from "./persistenceStore";
+import {
+  DEFAULT_TIME_PERIODS,
+  validateWeekendTimePeriods,
+  withTimePeriod,
+} from "../lib/timePeriods";
 import type {
+  TimePeriod,
   UserPreferences,
+  WeekendDay,
   WeekendTheme,
   WeekendSchedule,
   UserStoreState,
@@ -9,20 +17,30 @@ import type {
 
 interface UserStoreActions {
   // Preferences management
+  loadPreferences: () => Promise<void>;
   updatePreferences: (preferences: Partial<UserPreferences>) => void;
   addFavoriteActivity: (activityId: string) => void;
   removeFavoriteActivity: (activityId: string) => void;
+  toggleFavoriteActivity: (activityId: string) => void;
 
   // Time period management
   updateTimePeriod: (
-    period: string,
+    period: TimePeriod,
     startTime: string,
-    endTime: string
+    endTime: string,
+    day?: WeekendDay
   ) => void;
+  resetDayTimePeriods: (day: WeekendDay) => void;
 
   // Theme management
   setCurrentTheme: (theme: WeekendTheme | null) => void;
   loadAvailableThemes: () => Promise<void>;
+  togglePreferredTheme: (themeId: string) => void;
+  saveCustomTheme: (
+    theme: Omit<WeekendTheme, "id" | "custom">,
+    themeId?: string
+  ) => Promise<void>;
+  deleteCustomTheme: (themeId: string) => Promise<void>;
 
   // Weekend history
   addToHistory: (weekend: WeekendSchedule) => void;
@@ -36,6 +54,8 @@ interface UserStoreActions {
 
 type UserStore = UserStoreState & UserStoreActions;
 
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
 const defaultPreferences: UserPreferences = {
   favoriteActivities: [],
   preferredThemes: [],
@@ -45,11 +65,16 @@ const defaultPreferences: UserPreferences = {
     sundayStart: "09:00",
     sundayEnd: "21:00",
   },
-  timePeriods: {
-    morning: { start: "08:00", end: "12:00" },
-    afternoon: { start: "12:00", end: "17:00" },
-    evening: { start: "17:00", end: "22:00" },
-    night: { start: "22:00", end: "24:00" },
+  timePeriods: DEFAULT_TIME_PERIODS,
+  dayTimePeriods: {},
+  travel: {
+    defaultMode: "transit",
+    speeds: {
+      walking: 5,
+      cycling: 15,
+      transit: 25,
+      driving: 40,
+    },
   },
   notifications: {
     reminders: true,
@@ -58,22 +83,81 @@ const defaultPreferences: UserPreferences = {
   },
 };
 
+// Fills in settings added since the stored preferences were saved
+const mergePreferences = (stored: UserPreferences): UserPreferences => ({
+  ...defaultPreferences,
+  ...stored,
+  defaultWeekendStructure: {
+    ...defaultPreferences.defaultWeekendStructure,
+    ...stored.defaultWeekendStructure,
+  },
+  timePeriods: { ...defaultPreferences.timePeriods, ...stored.timePeriods },
+  travel: {
+    ...defaultPreferences.travel,
+    ...stored.travel,
+    speeds: { ...defaultPreferences.travel.speeds, ...stored.travel?.speeds },
+  },
+  notifications: {
+    ...defaultPreferences.notifications,
+    ...stored.notifications,
+  },
+});
+
+// Write-through so preferences and history survive a reload
+const persistPreferences = (preferences: UserPreferences) => {
+  usePersistenceStore
+    .getState()
+    .savePreferences(preferences)
+    .catch(console.error);
+};
+
+const persistHistory = (weekendHistory: WeekendSchedule[]) => {
+  usePersistenceStore
+    .getState()
+    .saveHistory(weekendHistory)
+    .catch(console.error);
+};
+
 export const useUserStore = create<UserStore>()(
   devtools(
     (set, get) => ({
       // Initial state
       preferences: defaultPreferences,
       currentTheme: null,
+      availableThemes: [],
       weekendHistory: [],
       loading: false,
       error: null,
 
       // Actions
+      loadPreferences: async () => {
+        try {
+          const persistenceStore = usePersistenceStore.getState();
+          const [stored, weekendHistory] = await Promise.all([
+            persistenceStore.loadPreferences(),
+            persistenceStore.loadHistory(),
+          ]);
+
+          set({
+            preferences: stored ? mergePreferences(stored) : get().preferences,
+            weekendHistory,
+          });
+        } catch (error) {
+          set({
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to load preferences",
+          });
+        }
+      },
+
       updatePreferences: (newPreferences) => {
         const { preferences } = get();
         set({
           preferences: { ...preferences, ...newPreferences },
         });
+        persistPreferences(get().preferences);
       },
 
       addFavoriteActivity: (activityId) => {
@@ -88,6 +172,7 @@ export const useUserStore = create<UserStore>()(
               ],
             },
           });
+          persistPreferences(get().preferences);
         }
       },
 
@@ -101,19 +186,47 @@ export const useUserStore = create<UserStore>()(
             ),
           },
         });
+        persistPreferences(get().preferences);
+      },
+
+      toggleFavoriteActivity: (activityId) => {
+        const { preferences, addFavoriteActivity, removeFavoriteActivity } =
+          get();
+        if (preferences.favoriteActivities.includes(activityId)) {
+          removeFavoriteActivity(activityId);
+        } else {
+          addFavoriteActivity(activityId);
+        }
       },
 
-      updateTimePeriod: (period, startTime, endTime) => {
+      updateTimePeriod: (period, startTime, endTime, day) => {
         const { preferences } = get();
-        set({
-          preferences: {
-            ...preferences,
-            timePeriods: {
-              ...preferences.timePeriods,
-              [period]: { start: startTime, end: endTime },
-            },
-          },
-        });
+        const periods = withTimePeriod(
+          preferences,
+          period,
+          { start: startTime, end: endTime },
+          day
+        );
+
+        // Periods must stay in order through the day without overlapping
+        const errors = validateWeekendTimePeriods(periods);
+        if (errors.length > 0) {
+          set({ error: errors[0] });
+          return;
+        }
+
+        set({ preferences: { ...preferences, ...periods }, error: null });
+        persistPreferences(get().preferences);
+      },
+
+      resetDayTimePeriods: (day) => {
+        const { preferences } = get();
+        if (!preferences.dayTimePeriods[day]) return;
+
+        const dayTimePeriods = { ...preferences.dayTimePeriods };
+        delete dayTimePeriods[day];
+        set({ preferences: { ...preferences, dayTimePeriods } });
+        persistPreferences(get().preferences);
       },
 
       setCurrentTheme: (theme) => {
@@ -123,9 +236,21 @@ export const useUserStore = create<UserStore>()(
       loadAvailableThemes: async () => {
         set({ loading: true, error: null });
         try {
-          // TODO: Replace with actual API call
-          // For now, we'll just set loading state
-          set({ loading: false });
+          const persistenceStore = usePersistenceStore.getState();
+
+          // Try to load from IndexedDB first
+          let themes = await persistenceStore.loadThemes();
+
+          // If no themes in IndexedDB, load from mock data and save
+          if (themes.length === 0) {
+            const mockThemes = await import("../data/mockThemes");
+            themes = mockThemes.themes;
+
+            // Save to IndexedDB for future use
+            await persistenceStore.saveThemes(themes);
+          }
+
+          set({ availableThemes: themes, loading: false });
         } catch (error) {
           set({
             error:
@@ -135,6 +260,76 @@ export const useUserStore = create<UserStore>()(
         }
       },
 
+      togglePreferredTheme: (themeId) => {
+        const { preferences } = get();
+        set({
+          preferences: {
+            ...preferences,
+            preferredThemes: preferences.preferredThemes.includes(themeId)
+              ? preferences.preferredThemes.filter((id) => id !== themeId)
+              : [...preferences.preferredThemes, themeId],
+          },
+        });
+        persistPreferences(get().preferences);
+      },
+
+      saveCustomTheme: async (theme, themeId) => {
+        try {
+          const customTheme: WeekendTheme = {
+            ...theme,
+            id: themeId ?? `custom-${generateId()}`,
+            custom: true,
+          };
+
+          const persistenceStore = usePersistenceStore.getState();
+          await persistenceStore.saveThemes([customTheme]);
+
+          const { availableThemes, currentTheme } = get();
+          set({
+            availableThemes: themeId
+              ? availableThemes.map((t) => (t.id === themeId ? customTheme : t))
+              : [...availableThemes, customTheme],
+            currentTheme:
+              currentTheme?.id === customTheme.id ? customTheme : currentTheme,
+          });
+        } catch (error) {
+          set({
+            error:
+              error instanceof Error ? error.message : "Failed to save theme",
+          });
+        }
+      },
+
+      deleteCustomTheme: async (themeId) => {
+        const theme = get().availableThemes.find((t) => t.id === themeId);
+        if (!theme?.custom) return;
+
+        try {
+          const persistenceStore = usePersistenceStore.getState();
+          await persistenceStore.deleteTheme(themeId);
+
+          const { availableThemes, currentTheme, preferences } = get();
+          set({
+            availableThemes: availableThemes.filter((t) => t.id !== themeId),
+            currentTheme: currentTheme?.id === themeId ? null : currentTheme,
+            preferences: {
+              ...preferences,
+              preferredThemes: preferences.preferredThemes.filter(
+                (id) => id !== themeId
+              ),
+            },
+          });
+          if (preferences.preferredThemes.includes(themeId)) {
+            persistPreferences(get().preferences);
+          }
+        } catch (error) {
+          set({
+            error:
+              error instanceof Error ? error.message : "Failed to delete theme",
+          });
+        }
+      },
+
       addToHistory: (weekend) => {
         const { weekendHistory } = get();
         // Avoid duplicates and limit history to 50 items
@@ -143,6 +338,7 @@ export const useUserStore = create<UserStore>()(
         );
         const newHistory = [weekend, ...filteredHistory].slice(0, 50);
         set({ weekendHistory: newHistory });
+        persistHistory(newHistory);
       },
 
       removeFromHistory: (weekendId) => {
@@ -150,10 +346,12 @@ export const useUserStore = create<UserStore>()(
         set({
           weekendHistory: weekendHistory.filter((w) => w.id !== weekendId),
         });
+        persistHistory(get().weekendHistory);
       },
 
       clearHistory: () => {
         set({ weekendHistory: [] });
+        persistHistory([]);
       },
 
       setError: (error) => {
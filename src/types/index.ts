@@ -15,16 +15,24 @@ export interface Activity {
   cost?: number;
   minParticipants?: number;
   maxParticipants?: number;
+  custom?: boolean; // created by the user, kept when the catalog is reseeded
 }
 
+// The fields a user fills in to create or edit a custom activity
+export type ActivityDraft = Omit<Activity, "id" | "icon" | "custom">;
+
 export interface ActivityCategory {
   id: string;
   name: string;
   icon: string;
   color: string;
   description: string;
+  order?: number; // position in the category list, set once reordered
 }
 
+// The fields a user fills in to create or edit a category
+export type CategoryDraft = Omit<ActivityCategory, "id" | "order">;
+
 export interface TimeSlot {
   id: string;
   day: WeekendDay;
@@ -37,20 +45,59 @@ export interface ScheduledActivity {
   id: string;
   activity: Activity;
   timeSlot: TimeSlot;
+  startTime: string; // HH:MM format, within the time slot's period
+  endTime: string; // HH:MM format
+  coordinates?: GeoCoordinates;
+  travelMode?: TravelMode; // how you get here from the previous activity
   customNotes?: string;
   completed?: boolean;
+  participantIds?: string[]; // who is going; everyone when unset
+}
+
+// Someone going on the weekend
+export interface Participant {
+  id: string;
+  name: string;
+}
+
+export interface GeoCoordinates {
+  latitude: number;
+  longitude: number;
 }
 
 export interface WeekendSchedule {
   id: string;
   title: string;
   theme?: WeekendTheme;
+  startDate: string; // YYYY-MM-DD of the Saturday this weekend is planned for
+  days: WeekendDay[]; // ordered days this weekend spans
+  friday: ScheduledActivity[];
   saturday: ScheduledActivity[];
   sunday: ScheduledActivity[];
+  monday: ScheduledActivity[];
+  budget?: number; // spending cap for the whole weekend
+  groupSize?: number; // people sharing the costs, when no one is named
+  participants?: Participant[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A scheduled activity as kept in a template, without its identity or
+// completion state
+export type TemplateActivity = Omit<ScheduledActivity, "id" | "completed">;
+
+export interface WeekendTemplate {
+  id: string;
+  name: string;
+  theme?: WeekendTheme;
+  days: WeekendDay[];
+  friday: TemplateActivity[];
+  saturday: TemplateActivity[];
+  sunday: TemplateActivity[];
+  monday: TemplateActivity[];
+  createdAt: Date;
+}
+
 export interface WeekendTheme {
   id: string;
   name: string;
@@ -59,6 +106,7 @@ export interface WeekendTheme {
   color: string;
   suggestedActivities: string[]; // Activity IDs
   moodProfile: Mood[];
+  custom?: boolean; // created by the user rather than built in
 }
 
 export interface Conflict {
@@ -79,6 +127,21 @@ export interface FilterState {
   };
   weatherDependent?: boolean;
   tags: string[];
+  cost?: {
+    min: number;
+    max?: number; // no upper limit when unset
+  };
+  freeOnly?: boolean;
+  groupSize?: number; // people going, to hide activities we do not fit
+}
+
+// Named filters and search the user can recall in one click
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filters: FilterState;
+  searchTerm: string;
+  createdAt: Date;
 }
 
 export interface TimePeriodSettings {
@@ -88,6 +151,11 @@ export interface TimePeriodSettings {
   night: { start: string; end: string };
 }
 
+export interface TravelSettings {
+  defaultMode: TravelMode;
+  speeds: Record<TravelMode, number>; // average km/h
+}
+
 export interface UserPreferences {
   favoriteActivities: string[];
   preferredThemes: string[];
@@ -98,6 +166,8 @@ export interface UserPreferences {
     sundayEnd: string;
   };
   timePeriods: TimePeriodSettings;
+  dayTimePeriods: Partial<Record<WeekendDay, TimePeriodSettings>>; // days that differ from timePeriods
+  travel: TravelSettings;
   notifications: {
     reminders: boolean;
     weatherAlerts: boolean;
@@ -106,10 +176,12 @@ export interface UserPreferences {
 }
 
 // Enums and Union Types
-export type WeekendDay = "saturday" | "sunday";
+export type WeekendDay = "friday" | "saturday" | "sunday" | "monday";
 
 export type TimePeriod = "morning" | "afternoon" | "evening" | "night";
 
+export type TravelMode = "walking" | "cycling" | "transit" | "driving";
+
 export type EnergyLevel = "low" | "medium" | "high";
 
 export type Mood =
@@ -124,9 +196,12 @@ export type Mood =
 
 export type ConflictType =
   | "time_overlap"
+  | "period_overflow"
   | "energy_mismatch"
   | "weather_conflict"
-  | "location_conflict";
+  | "location_conflict"
+  | "budget_exceeded"
+  | "participant_mismatch";
 
 // Store State Types
 export interface ActivityStoreState {
@@ -134,6 +209,7 @@ export interface ActivityStoreState {
   categories: ActivityCategory[];
   filters: FilterState;
   searchTerm: string;
+  filterPresets: FilterPreset[];
   selectedActivity: Activity | null;
   loading: boolean;
   error: string | null;
@@ -144,6 +220,12 @@ export interface ScheduleStoreState {
   selectedTimeSlot: TimeSlot | null;
   conflicts: Conflict[];
   availableTimeSlots: TimeSlot[];
+  past: WeekendSchedule[]; // undo stack, most recent last
+  future: WeekendSchedule[]; // redo stack, next first
+  savedWeekends: WeekendSchedule[]; // every stored weekend, latest date first
+  savedWeekendsLoading: boolean; // kept apart so the planner stays on screen
+  savedWeekendsError: string | null;
+  templates: WeekendTemplate[];
   loading: boolean;
   error: string | null;
 }
@@ -151,6 +233,7 @@ export interface ScheduleStoreState {
 export interface UserStoreState {
   preferences: UserPreferences;
   currentTheme: WeekendTheme | null;
+  availableThemes: WeekendTheme[];
   weekendHistory: WeekendSchedule[];
   loading: boolean;
   error: string | null;
@@ -178,6 +261,9 @@ export interface ActivityCardProps {
   isDragging?: boolean;
   onSelect?: (activity: Activity) => void;
   onDragStart?: (activity: Activity) => void;
+  isFavorite?: boolean;
+  onToggleFavorite?: (activity: Activity) => void;
+  onEdit?: (activity: Activity) => void; // custom activities only
   showDetails?: boolean;
   compact?: boolean;
 }
@@ -187,6 +273,7 @@ export interface ScheduleGridProps {
   onActivityAdd?: (activity: Activity, timeSlot: TimeSlot) => void;
   onActivityRemove?: (activityId: string) => void;
   onActivityMove?: (activityId: string, newTimeSlot: TimeSlot) => void;
+  onActivityTimeChange?: (activityId: string, startTime: string) => void;
   onActivityReorder?: (
     day: WeekendDay,
     period: TimePeriod,
@@ -204,6 +291,18 @@ export interface ActivityBrowserProps {
   onFilterChange?: (filters: FilterState) => void;
   onSearchChange?: (term: string) => void;
   onActivitySelect?: (activity: Activity) => void;
+  onCreateActivity?: () => void;
+  onEditActivity?: (activity: Activity) => void;
+  onManageCategories?: () => void;
+  favoriteActivityIds?: string[];
+  recentActivityIds?: string[]; // most recently scheduled first
+  onToggleFavorite?: (activity: Activity) => void;
+  filterPresets?: FilterPreset[];
+  onSavePreset?: (name: string) => void;
+  onApplyPreset?: (presetId: string) => void;
+  onDeletePreset?: (presetId: string) => void;
+  onSharePreset?: (presetId: string) => void;
+  onImportPreset?: (data: string) => void;
 }
 
 // Utility Types